@@ -0,0 +1,233 @@
+import type { Map as GameMap } from './Map';
+import type {
+  ILayerCell,
+  ILayerCombineRules,
+  ISerializedLayerCell,
+  ITerrainProperties,
+} from '../types/mapTypes';
+
+/**
+ * Layer order used when the map config names none
+ */
+export const DEFAULT_LAYER_ORDER = [
+  'ground',
+  'overlay',
+  'structure',
+  'decoration',
+];
+
+const DEFAULT_COMBINE_RULES: Required<ILayerCombineRules> = {
+  movementCost: 'top',
+  impassable: 'top',
+  defenseBonus: 'sum',
+  visibilityModifier: 'multiply',
+};
+
+type NumberCombineMode = 'top' | 'min' | 'max' | 'sum' | 'multiply';
+
+/**
+ * CellLayers stores the terrain placed on the layers above the ground, such
+ * as a bridge over water or a building on grass, and combines their
+ * properties with the ground. Only cells that have a layer use storage.
+ */
+export class CellLayers {
+  private map: GameMap;
+  // Cells of each layer by "x,y"
+  private layers: Record<string, Record<string, ILayerCell>> = {};
+  private size: number = 0;
+
+  constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  /**
+   * Names of the layers of the map, bottom to top, ground included
+   */
+  getOrder(): string[] {
+    return this.map.config.layers?.order ?? DEFAULT_LAYER_ORDER;
+  }
+
+  /**
+   * Get the cell of a layer at a normalized position
+   */
+  get(layer: string, x: number, y: number): ILayerCell | null {
+    return this.layers[layer]?.[`${x},${y}`] ?? null;
+  }
+
+  /**
+   * Set or clear the cell of a layer at a normalized position
+   * @returns The previous cell of the layer
+   */
+  set(
+    layer: string,
+    x: number,
+    y: number,
+    cell: ILayerCell | null
+  ): ILayerCell | null {
+    const key = `${x},${y}`;
+    const cells = (this.layers[layer] ??= {});
+    const previous = cells[key] ?? null;
+
+    if (cell) {
+      cells[key] = cell;
+    } else {
+      delete cells[key];
+    }
+    this.size += (cell ? 1 : 0) - (previous ? 1 : 0);
+    return previous;
+  }
+
+  /**
+   * Get the cells above the ground at a normalized position, bottom to top
+   */
+  getStack(x: number, y: number): Array<{ layer: string; cell: ILayerCell }> {
+    if (this.size === 0) return [];
+
+    const stack: Array<{ layer: string; cell: ILayerCell }> = [];
+    for (const layer of this.getOrder()) {
+      const cell = this.layers[layer]?.[`${x},${y}`];
+      if (cell) stack.push({ layer, cell });
+    }
+    return stack;
+  }
+
+  /**
+   * Combine the ground properties of a normalized position with the layers
+   * above it, following config.layers.combine. Properties without a combine
+   * rule are taken from the highest layer setting them.
+   * @param above Properties applied on top of every layer, such as the state
+   * of cell features
+   */
+  combine(
+    ground: ITerrainProperties,
+    x: number,
+    y: number,
+    above: Array<Partial<ITerrainProperties>> = []
+  ): ITerrainProperties {
+    if (this.size === 0 && above.length === 0) return ground;
+
+    const stack = [
+      ...this.getStack(x, y).map(({ cell }) => cell.properties),
+      ...above,
+    ];
+    if (stack.length === 0) return ground;
+
+    const rules = {
+      ...DEFAULT_COMBINE_RULES,
+      ...this.map.config.layers?.combine,
+    };
+    const combined: ITerrainProperties = { ...ground };
+
+    for (const properties of stack) {
+      const {
+        movementCost,
+        impassable,
+        defenseBonus,
+        visibilityModifier,
+        ...others
+      } = properties;
+      Object.assign(combined, others);
+
+      if (movementCost !== undefined) {
+        combined.movementCost = combineNumber(
+          rules.movementCost,
+          combined.movementCost,
+          movementCost
+        );
+      }
+      if (impassable !== undefined) {
+        combined.impassable =
+          rules.impassable === 'any'
+            ? Boolean(combined.impassable) || impassable
+            : impassable;
+      }
+      if (defenseBonus !== undefined) {
+        combined.defenseBonus = combineNumber(
+          rules.defenseBonus,
+          combined.defenseBonus ?? 0,
+          defenseBonus
+        );
+      }
+      if (visibilityModifier !== undefined) {
+        combined.visibilityModifier = combineNumber(
+          rules.visibilityModifier,
+          combined.visibilityModifier ?? 1,
+          visibilityModifier
+        );
+      }
+    }
+
+    return combined;
+  }
+
+  /**
+   * Drop the layer cells left outside the map by a resize
+   */
+  removeOutOfBounds(): void {
+    for (const cells of Object.values(this.layers)) {
+      for (const key of Object.keys(cells)) {
+        const [x, y] = key.split(',').map(Number) as [number, number];
+        if (x >= this.map.width || y >= this.map.height) {
+          delete cells[key];
+          this.size--;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the layer cells by layer, or null when no layer holds any cell
+   */
+  toJSON(): Record<string, ISerializedLayerCell[]> | null {
+    if (this.size === 0) return null;
+
+    const serialized: Record<string, ISerializedLayerCell[]> = {};
+    for (const [layer, cells] of Object.entries(this.layers)) {
+      const entries = Object.entries(cells).map(([key, cell]) => {
+        const [x, y] = key.split(',').map(Number) as [number, number];
+        return {
+          x,
+          y,
+          terrain: cell.terrain,
+          properties: { ...cell.properties },
+        };
+      });
+      if (entries.length > 0) serialized[layer] = entries;
+    }
+    return serialized;
+  }
+
+  /**
+   * Replace every layer cell with the ones produced by toJSON
+   */
+  load(layers: Record<string, ISerializedLayerCell[]> | null): void {
+    this.layers = {};
+    this.size = 0;
+
+    for (const [layer, entries] of Object.entries(layers ?? {})) {
+      for (const { x, y, terrain, properties } of entries) {
+        this.set(layer, x, y, { terrain, properties: { ...properties } });
+      }
+    }
+  }
+}
+
+function combineNumber(
+  mode: NumberCombineMode,
+  below: number,
+  value: number
+): number {
+  switch (mode) {
+    case 'min':
+      return Math.min(below, value);
+    case 'max':
+      return Math.max(below, value);
+    case 'sum':
+      return below + value;
+    case 'multiply':
+      return below * value;
+    case 'top':
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,495 @@
+import { MapEventEmitter } from './MapEventEmitter';
+import { TerrainRegistry } from './TerrainRegistry';
+import { Topology } from './Topology';
+import { renderAscii } from '../utils/ascii';
+import type { IPosition, TerrainType } from '../types/positionTypes';
+import type {
+  AsciiLegend,
+  IAsciiOverlay,
+  IChunkCoordinate,
+  IChunkProvider,
+  IChunkRequest,
+  IChunkedMapOptions,
+  IGridMap,
+  IMapCell,
+  IMapConfig,
+  ITerrainProperties,
+  MapEventListener,
+} from '../types/mapTypes';
+
+const DEFAULT_CHUNK_SIZE = 32;
+
+// Loaded chunk, cells are stored row-major
+interface IChunk extends IChunkCoordinate {
+  cells: IMapCell[];
+  modified: boolean;
+}
+
+/**
+ * ChunkedMap is a map for very large or endless worlds. Its cells are split
+ * into square chunks that are created on first access, from a chunk provider
+ * or with the default terrain, and unloaded again when no observer is near.
+ * It offers the cell and terrain API of Map, so pathfinding, movement
+ * ranges, visibility and areas of effect work on it too. Its cells are flat.
+ * An infinite width or height makes the map endless along that axis, in
+ * both directions.
+ */
+export class ChunkedMap implements IGridMap {
+  readonly width: number;
+  readonly height: number;
+  readonly name: string;
+  readonly chunkSize: number;
+  config: IMapConfig;
+  readonly topology: Topology = new Topology(this);
+  private provider: IChunkProvider | null;
+  private loadRadius: number;
+  private unloadRadius: number;
+  private chunks: Record<string, IChunk> = {};
+  private events: MapEventEmitter = new MapEventEmitter();
+  private terrainRegistry: TerrainRegistry | null = null;
+  // Shared by every untouched cell, cells are replaced and never mutated
+  private defaultCell: IMapCell;
+  // Lowest movement cost of the walkable cells loaded so far
+  private minimumMovementCost: number = Infinity;
+
+  constructor(
+    width: number,
+    height: number,
+    name: string = 'Unnamed Map',
+    options: IChunkedMapOptions = {}
+  ) {
+    if (!(width > 0) || !(height > 0)) {
+      throw new Error('Map dimensions must be positive');
+    }
+
+    this.width = width;
+    this.height = height;
+    this.name = name;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (!Number.isInteger(this.chunkSize) || this.chunkSize <= 0) {
+      throw new Error('Chunk size must be a positive integer');
+    }
+    this.provider = options.provider ?? null;
+    this.loadRadius = options.loadRadius ?? 1;
+    this.unloadRadius = Math.max(
+      options.unloadRadius ?? this.loadRadius + 1,
+      this.loadRadius
+    );
+    this.config = {
+      defaultTerrain: 'grass',
+      defaultMovementCost: 1.0,
+      ...options.config,
+    };
+    this.defaultCell = {
+      terrain: this.config.defaultTerrain || 'grass',
+      properties: { movementCost: this.config.defaultMovementCost || 1.0 },
+    };
+  }
+
+  /**
+   * Get the coordinates of a cell of the map, positions are never wrapped
+   * @returns The coordinates, or null if the position is off the map
+   */
+  normalizePosition(x: number, y: number): { x: number; y: number } | null {
+    return this.isInBounds(x, y) ? { x, y } : null;
+  }
+
+  /**
+   * Check if a position is a cell of the map, any integer coordinate is
+   * valid along an endless axis
+   */
+  isInBounds(x: number, y: number): boolean {
+    return (
+      Number.isInteger(x) &&
+      Number.isInteger(y) &&
+      (this.width === Infinity || (x >= 0 && x < this.width)) &&
+      (this.height === Infinity || (y >= 0 && y < this.height))
+    );
+  }
+
+  /**
+   * Get the cell at the specified coordinates, loading its chunk if needed
+   */
+  getCell(x: number, y: number): IMapCell | null {
+    if (!this.isInBounds(x, y)) {
+      return null;
+    }
+
+    const chunk = this.requireChunk(x, y);
+    return chunk.cells[this.getCellIndex(x, y)] ?? null;
+  }
+
+  /**
+   * Get the terrain at the specified coordinates
+   */
+  getTerrain(x: number, y: number): TerrainType | null {
+    return this.getCell(x, y)?.terrain ?? null;
+  }
+
+  /**
+   * Set the terrain at the specified coordinates, loading its chunk if needed
+   */
+  setTerrain(
+    x: number,
+    y: number,
+    terrain: TerrainType,
+    properties?: Partial<ITerrainProperties>
+  ): boolean {
+    if (!this.isInBounds(x, y)) {
+      return false;
+    }
+
+    this.getTerrainRegistry().check(
+      terrain,
+      this.name,
+      this.config.strictTerrain
+    );
+
+    const chunk = this.requireChunk(x, y);
+    const index = this.getCellIndex(x, y);
+    const previousCell = chunk.cells[index]!;
+    const newCell: IMapCell = {
+      ...previousCell,
+      terrain,
+      properties: {
+        ...this.getDefaultTerrainProperties(terrain),
+        ...properties,
+      },
+    };
+
+    chunk.cells[index] = newCell;
+    chunk.modified = true;
+    this.trackMovementCost(newCell);
+
+    this.events.emit({
+      type: 'terrainChanged',
+      mapId: this.name,
+      position: [x, y],
+      data: { before: previousCell, after: newCell },
+    });
+    return true;
+  }
+
+  /**
+   * Get default terrain properties based on terrain type, from the attached
+   * terrain registry. Unknown terrain falls back to grass.
+   */
+  getDefaultTerrainProperties(terrainType: TerrainType): ITerrainProperties {
+    const registry = this.getTerrainRegistry();
+
+    return (
+      registry.getProperties(terrainType) ??
+      registry.getProperties('grass') ?? { movementCost: 1.0 }
+    );
+  }
+
+  /**
+   * Attach a terrain registry to this map, null restores the default registry
+   */
+  setTerrainRegistry(registry: TerrainRegistry | null): void {
+    this.terrainRegistry = registry;
+  }
+
+  /**
+   * Get the terrain registry used by this map
+   */
+  getTerrainRegistry(): TerrainRegistry {
+    return this.terrainRegistry ?? TerrainRegistry.default;
+  }
+
+  /**
+   * Get the terrain properties at the specified coordinates
+   */
+  getTerrainProperties(x: number, y: number): ITerrainProperties | null {
+    return this.getCell(x, y)?.properties ?? null;
+  }
+
+  /**
+   * Get the movement cost for the terrain at the specified coordinates
+   */
+  getMovementCost(x: number, y: number): number {
+    const props = this.getTerrainProperties(x, y);
+    return props ? props.movementCost || 1.0 : Infinity;
+  }
+
+  /**
+   * Get the lowest movement cost of the walkable cells loaded so far, 1
+   * when there is none. Chunks not loaded yet may hold cheaper terrain, pass
+   * a heuristicScale to findPath when the provider can create some.
+   */
+  getMinimumMovementCost(): number {
+    const minimum = Math.min(
+      this.minimumMovementCost,
+      this.defaultCell.properties.impassable
+        ? Infinity
+        : this.defaultCell.properties.movementCost
+    );
+    return Number.isFinite(minimum) ? minimum : 1;
+  }
+
+  /**
+   * Check if a position is walkable (not blocked terrain). Chunked maps hold
+   * no units, so pathfinding cannot check a unit's occupancy on them.
+   */
+  isWalkable(x: number, y: number): boolean {
+    const cell = this.getCell(x, y);
+    return cell !== null && !cell.properties.impassable;
+  }
+
+  /**
+   * Get the height of a cell, always 0 since the cells of a chunked map
+   * are flat
+   * @returns The height, or null if the coordinates are off the map
+   */
+  getElevation(x: number, y: number): number | null {
+    return this.isInBounds(x, y) ? 0 : null;
+  }
+
+  /**
+   * Get the extra cost of stepping between two cells, always 0 on the map
+   * @returns The cost, or Infinity if a position is off the map
+   */
+  getElevationCost(
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number
+  ): number {
+    return this.isInBounds(fromX, fromY) && this.isInBounds(toX, toY)
+      ? 0
+      : Infinity;
+  }
+
+  /**
+   * Get the cells directly adjacent to the specified coordinates, the six
+   * neighbours on hex grids
+   */
+  getAdjacentCells(
+    x: number,
+    y: number,
+    includeDiagonals: boolean = true
+  ): Array<{ x: number; y: number; cell: IMapCell }> {
+    return this.topology
+      .getNeighbors(x, y, includeDiagonals)
+      .map(({ x: nx, y: ny }) => ({
+        x: nx,
+        y: ny,
+        cell: this.getCell(nx, ny)!,
+      }));
+  }
+
+  /**
+   * Get the coordinates of the chunk holding a cell
+   */
+  getChunkCoordinate(x: number, y: number): IChunkCoordinate {
+    return {
+      chunkX: Math.floor(x / this.chunkSize),
+      chunkY: Math.floor(y / this.chunkSize),
+    };
+  }
+
+  /**
+   * Check if a chunk is in memory
+   */
+  isChunkLoaded(chunkX: number, chunkY: number): boolean {
+    return getChunkKey(chunkX, chunkY) in this.chunks;
+  }
+
+  /**
+   * Get the chunks in memory
+   */
+  getLoadedChunks(): IChunkCoordinate[] {
+    return Object.values(this.chunks).map(({ chunkX, chunkY }) => ({
+      chunkX,
+      chunkY,
+    }));
+  }
+
+  /**
+   * Load a chunk from the provider, or fill it with the default terrain
+   * @returns False if the chunk is already loaded or off the map
+   * @throws Error if the provider returns cells of the wrong size
+   */
+  loadChunk(chunkX: number, chunkY: number): boolean {
+    const x = chunkX * this.chunkSize;
+    const y = chunkY * this.chunkSize;
+    if (this.isChunkLoaded(chunkX, chunkY) || !this.isInBounds(x, y)) {
+      return false;
+    }
+
+    const request = this.createRequest(chunkX, chunkY);
+    const rows = this.provider?.load(request) ?? null;
+    if (
+      rows &&
+      (rows.length !== this.chunkSize ||
+        rows.some(row => row.length !== this.chunkSize))
+    ) {
+      throw new Error(
+        `Chunk (${chunkX}, ${chunkY}) of map ${this.name} must be ${this.chunkSize}x${this.chunkSize} cells`
+      );
+    }
+
+    const cells = rows
+      ? rows.flat()
+      : new Array<IMapCell>(this.chunkSize * this.chunkSize).fill(
+          this.defaultCell
+        );
+    if (rows) {
+      cells.forEach(cell => this.trackMovementCost(cell));
+    }
+    this.chunks[getChunkKey(chunkX, chunkY)] = {
+      chunkX,
+      chunkY,
+      cells,
+      modified: false,
+    };
+
+    this.events.emit({
+      type: 'chunkLoaded',
+      mapId: this.name,
+      position: [x, y],
+      data: { chunkX, chunkY, saved: false },
+    });
+    return true;
+  }
+
+  /**
+   * Remove a chunk from memory. Edited chunks are handed to the provider to
+   * be saved first, and are kept when the provider cannot save them.
+   * @returns True if the chunk was unloaded
+   */
+  unloadChunk(chunkX: number, chunkY: number): boolean {
+    const key = getChunkKey(chunkX, chunkY);
+    const chunk = this.chunks[key];
+    if (!chunk) {
+      return false;
+    }
+
+    const save = this.provider?.save;
+    if (chunk.modified && !save) {
+      return false;
+    }
+
+    const request = this.createRequest(chunkX, chunkY);
+    if (chunk.modified) {
+      const rows: IMapCell[][] = [];
+      for (let i = 0; i < chunk.cells.length; i += this.chunkSize) {
+        rows.push(chunk.cells.slice(i, i + this.chunkSize));
+      }
+      save!.call(this.provider, request, rows);
+    }
+
+    delete this.chunks[key];
+    this.events.emit({
+      type: 'chunkUnloaded',
+      mapId: this.name,
+      position: [request.x, request.y],
+      data: { chunkX, chunkY, saved: chunk.modified },
+    });
+    return true;
+  }
+
+  /**
+   * Stream chunks around observers, such as units or cameras: chunks within
+   * the load radius of an observer are loaded and chunks beyond the unload
+   * radius of every observer are unloaded. Load and unload events are
+   * published as a single notification.
+   */
+  updateObservers(observers: IPosition[]): void {
+    const centers = observers.map(({ x, y }) => this.getChunkCoordinate(x, y));
+
+    this.events.batch(() => {
+      for (const { chunkX, chunkY } of centers) {
+        for (let dy = -this.loadRadius; dy <= this.loadRadius; dy++) {
+          for (let dx = -this.loadRadius; dx <= this.loadRadius; dx++) {
+            this.loadChunk(chunkX + dx, chunkY + dy);
+          }
+        }
+      }
+
+      for (const chunk of Object.values(this.chunks)) {
+        const isNear = centers.some(
+          center =>
+            Math.max(
+              Math.abs(center.chunkX - chunk.chunkX),
+              Math.abs(center.chunkY - chunk.chunkY)
+            ) <= this.unloadRadius
+        );
+        if (!isNear) {
+          this.unloadChunk(chunk.chunkX, chunk.chunkY);
+        }
+      }
+    });
+  }
+
+  /**
+   * Draw the map as ASCII text, see Map.toAscii. Every chunk is loaded.
+   * @throws Error if the map is endless
+   */
+  toAscii(legend: AsciiLegend, overlays: IAsciiOverlay[] = []): string {
+    return renderAscii(this, legend, overlays);
+  }
+
+  /**
+   * Subscribe to terrain and chunk events of this map
+   * @returns A function that removes the subscription
+   */
+  subscribe(listener: MapEventListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  /**
+   * Remove a subscription made with subscribe
+   * @returns True if the listener was subscribed
+   */
+  unsubscribe(listener: MapEventListener): boolean {
+    return this.events.unsubscribe(listener);
+  }
+
+  /**
+   * Run several edits and publish their events as a single notification
+   */
+  batch<T>(edits: () => T): T {
+    return this.events.batch(edits);
+  }
+
+  private trackMovementCost(cell: IMapCell): void {
+    if (!cell.properties.impassable) {
+      this.minimumMovementCost = Math.min(
+        this.minimumMovementCost,
+        cell.properties.movementCost
+      );
+    }
+  }
+
+  private requireChunk(x: number, y: number): IChunk {
+    const { chunkX, chunkY } = this.getChunkCoordinate(x, y);
+    this.loadChunk(chunkX, chunkY);
+    return this.chunks[getChunkKey(chunkX, chunkY)]!;
+  }
+
+  /**
+   * Index of a cell within the cells of its chunk
+   */
+  private getCellIndex(x: number, y: number): number {
+    const size = this.chunkSize;
+    const localX = ((x % size) + size) % size;
+    const localY = ((y % size) + size) % size;
+    return localY * size + localX;
+  }
+
+  private createRequest(chunkX: number, chunkY: number): IChunkRequest {
+    return {
+      mapId: this.name,
+      chunkX,
+      chunkY,
+      x: chunkX * this.chunkSize,
+      y: chunkY * this.chunkSize,
+      size: this.chunkSize,
+    };
+  }
+}
+
+function getChunkKey(chunkX: number, chunkY: number): string {
+  return `${chunkX},${chunkY}`;
+}
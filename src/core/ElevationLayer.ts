@@ -0,0 +1,79 @@
+import type { Map as GameMap } from './Map';
+
+/**
+ * ElevationLayer stores the height of every cell of a map. Flat maps keep
+ * no storage at all until a height is set.
+ */
+export class ElevationLayer {
+  private map: GameMap;
+  private heights: Float64Array | null = null;
+  private width: number;
+
+  constructor(map: GameMap) {
+    this.map = map;
+    this.width = map.width;
+  }
+
+  /**
+   * Check if every cell is at height 0
+   */
+  isFlat(): boolean {
+    return this.heights === null || this.heights.every(height => height === 0);
+  }
+
+  /**
+   * Get the height of a normalized cell
+   */
+  get(x: number, y: number): number {
+    return this.heights?.[y * this.width + x] ?? 0;
+  }
+
+  /**
+   * Set the height of a normalized cell
+   * @returns The previous height
+   */
+  set(x: number, y: number, height: number): number {
+    const previous = this.get(x, y);
+    if (!this.heights) {
+      if (height === 0) return previous;
+      this.heights = new Float64Array(this.map.width * this.map.height);
+    }
+
+    this.heights[y * this.width + x] = height;
+    return previous;
+  }
+
+  /**
+   * Keep the heights of cells still on the map after it was resized,
+   * new cells start at height 0
+   */
+  resize(previousWidth: number, previousHeight: number): void {
+    const previous = this.heights;
+    this.width = this.map.width;
+    if (!previous) return;
+
+    this.heights = new Float64Array(this.map.width * this.map.height);
+    const width = Math.min(previousWidth, this.map.width);
+    const height = Math.min(previousHeight, this.map.height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        this.heights[y * this.width + x] = previous[y * previousWidth + x]!;
+      }
+    }
+  }
+
+  /**
+   * Get the heights as a row-major array, or null when the map is flat
+   */
+  toArray(): number[] | null {
+    return this.isFlat() ? null : Array.from(this.heights!);
+  }
+
+  /**
+   * Replace every height from a row-major array
+   */
+  load(heights: ArrayLike<number> | null): void {
+    this.width = this.map.width;
+    this.heights = heights ? Float64Array.from(heights) : null;
+  }
+}
@@ -0,0 +1,314 @@
+import type { Map as GameMap } from './Map';
+import type {
+  ICellFeature,
+  IFeatureDefinition,
+  ITerrainProperties,
+} from '../types/mapTypes';
+
+// Built-in features, config.features can add to or replace them
+const DEFAULT_FEATURE_DEFINITIONS: Record<string, IFeatureDefinition> = {
+  door: {
+    initialState: 'closed',
+    states: {
+      closed: { properties: { impassable: true, opaque: true } },
+      open: {},
+    },
+    actions: {
+      open: { closed: 'open' },
+      close: { open: 'closed' },
+      toggle: { closed: 'open', open: 'closed' },
+    },
+  },
+  drawbridge: {
+    initialState: 'raised',
+    states: {
+      raised: { properties: { impassable: true } },
+      lowered: { properties: { impassable: false, movementCost: 1.0 } },
+    },
+    actions: {
+      lower: { raised: 'lowered' },
+      raise: { lowered: 'raised' },
+      toggle: { raised: 'lowered', lowered: 'raised' },
+    },
+  },
+  pressurePlate: {
+    initialState: 'up',
+    states: {
+      up: { triggers: 'close' },
+      down: { triggers: 'open' },
+    },
+    actions: {
+      press: { up: 'down' },
+      release: { down: 'up' },
+    },
+  },
+  destructibleWall: {
+    initialState: 'intact',
+    states: {
+      intact: { properties: { impassable: true, opaque: true } },
+      destroyed: { properties: { movementCost: 1.5 } },
+    },
+    hitPoints: 10,
+    destroyedState: 'destroyed',
+  },
+};
+
+// Feature before and after one change of its state or hit points
+export interface IFeatureChange {
+  before: ICellFeature;
+  after: ICellFeature;
+}
+
+/**
+ * FeatureLayer holds the features placed on the cells of a map, such as
+ * doors and pressure plates, and moves them between the states of their
+ * definitions. Features are replaced on every change, never mutated.
+ */
+export class FeatureLayer {
+  private map: GameMap;
+  private features: Record<string, ICellFeature> = {};
+  private cellFeatures: Record<string, string[]> = {};
+
+  constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  /**
+   * Get the definition of a feature type, from config.features or the
+   * built-in features
+   */
+  getDefinition(type: string): IFeatureDefinition | null {
+    return (
+      this.map.config.features?.[type] ??
+      DEFAULT_FEATURE_DEFINITIONS[type] ??
+      null
+    );
+  }
+
+  get(id: string): ICellFeature | null {
+    return this.features[id] ?? null;
+  }
+
+  /**
+   * Get the features on a normalized position, in the order they were added
+   */
+  getAt(x: number, y: number): ICellFeature[] {
+    return (this.cellFeatures[`${x},${y}`] ?? []).map(id => this.features[id]!);
+  }
+
+  getAll(): ICellFeature[] {
+    return Object.values(this.features);
+  }
+
+  /**
+   * Add a feature on a normalized position
+   * @returns False if a feature with the same id exists
+   * @throws Error if the type is not defined or has no such state
+   */
+  add(feature: ICellFeature): boolean {
+    const definition = this.requireDefinition(feature.type);
+    if (!definition.states[feature.state]) {
+      throw new Error(
+        `Feature type ${feature.type} has no state ${feature.state}`
+      );
+    }
+    if (this.features[feature.id]) {
+      return false;
+    }
+
+    this.features[feature.id] = feature;
+    (this.cellFeatures[`${feature.x},${feature.y}`] ??= []).push(feature.id);
+    return true;
+  }
+
+  /**
+   * @returns The removed feature, or null if there was none with the id
+   */
+  remove(id: string): ICellFeature | null {
+    const feature = this.features[id];
+    if (!feature) return null;
+
+    delete this.features[id];
+    const key = `${feature.x},${feature.y}`;
+    const remaining = (this.cellFeatures[key] ?? []).filter(
+      other => other !== id
+    );
+    if (remaining.length > 0) {
+      this.cellFeatures[key] = remaining;
+    } else {
+      delete this.cellFeatures[key];
+    }
+    return feature;
+  }
+
+  /**
+   * Get the properties the current states of the features on a normalized
+   * position apply to their cell
+   */
+  getProperties(x: number, y: number): Array<Partial<ITerrainProperties>> {
+    const ids = this.cellFeatures[`${x},${y}`];
+    if (!ids) return [];
+
+    const properties: Array<Partial<ITerrainProperties>> = [];
+    for (const id of ids) {
+      const { type, state } = this.features[id]!;
+      const stateProperties =
+        this.getDefinition(type)?.states[state]?.properties;
+      if (stateProperties) properties.push(stateProperties);
+    }
+    return properties;
+  }
+
+  /**
+   * Put a feature in a state, then send the action of that state to the
+   * linked features
+   * @returns Every change made, the feature's own first
+   * @throws Error if the feature type has no such state
+   */
+  setState(id: string, state: string): IFeatureChange[] {
+    const feature = this.features[id];
+    if (!feature) return [];
+
+    if (!this.requireDefinition(feature.type).states[state]) {
+      throw new Error(`Feature type ${feature.type} has no state ${state}`);
+    }
+
+    const changes: IFeatureChange[] = [];
+    this.changeState(feature, state, changes, new Set());
+    return changes;
+  }
+
+  /**
+   * Run an action on features, features without a transition for the action
+   * from their current state are left as they are
+   * @returns Every change made, including those of linked features
+   */
+  trigger(ids: string[], action: string): IFeatureChange[] {
+    const changes: IFeatureChange[] = [];
+    const visited = new Set<string>();
+
+    for (const id of ids) {
+      const feature = this.features[id];
+      if (feature) this.runAction(feature, action, changes, visited);
+    }
+    return changes;
+  }
+
+  /**
+   * Take hit points from destructible features, those left without hit
+   * points enter the destroyed state of their definition
+   * @returns Every change made, including those of linked features
+   */
+  damage(ids: string[], amount: number): IFeatureChange[] {
+    const changes: IFeatureChange[] = [];
+    const visited = new Set<string>();
+
+    for (const id of ids) {
+      const feature = this.features[id];
+      if (!feature?.hitPoints || amount <= 0) continue;
+
+      const damaged = {
+        ...feature,
+        hitPoints: Math.max(0, feature.hitPoints - amount),
+      };
+      this.features[id] = damaged;
+      changes.push({ before: feature, after: damaged });
+
+      const destroyedState = this.getDefinition(feature.type)?.destroyedState;
+      if (damaged.hitPoints === 0 && destroyedState !== undefined) {
+        this.changeState(damaged, destroyedState, changes, visited);
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Drop the features left outside the map by a resize
+   */
+  removeOutOfBounds(): void {
+    for (const { id, x, y } of this.getAll()) {
+      if (x >= this.map.width || y >= this.map.height) {
+        this.remove(id);
+      }
+    }
+  }
+
+  /**
+   * Get copies of every feature, or null when there is none
+   */
+  toJSON(): ICellFeature[] | null {
+    const features = this.getAll();
+    return features.length > 0 ? features.map(copyFeature) : null;
+  }
+
+  /**
+   * Replace every feature with the ones produced by toJSON. Features are
+   * restored as they were, without checking their definitions.
+   */
+  load(features: ICellFeature[] | null): void {
+    this.features = {};
+    this.cellFeatures = {};
+
+    for (const feature of features ?? []) {
+      this.features[feature.id] = copyFeature(feature);
+      (this.cellFeatures[`${feature.x},${feature.y}`] ??= []).push(feature.id);
+    }
+  }
+
+  /**
+   * Features already changed by the current call are skipped, so linked
+   * features cannot keep triggering each other
+   */
+  private changeState(
+    feature: ICellFeature,
+    state: string,
+    changes: IFeatureChange[],
+    visited: Set<string>
+  ): void {
+    if (feature.state === state || visited.has(feature.id)) return;
+    visited.add(feature.id);
+
+    const after = { ...feature, state };
+    this.features[feature.id] = after;
+    changes.push({ before: feature, after });
+
+    const action = this.getDefinition(feature.type)?.states[state]?.triggers;
+    if (action === undefined) return;
+
+    for (const id of after.links ?? []) {
+      const linked = this.features[id];
+      if (linked) this.runAction(linked, action, changes, visited);
+    }
+  }
+
+  private runAction(
+    feature: ICellFeature,
+    action: string,
+    changes: IFeatureChange[],
+    visited: Set<string>
+  ): void {
+    const next = this.getDefinition(feature.type)?.actions?.[action]?.[
+      feature.state
+    ];
+    if (next !== undefined) {
+      this.changeState(feature, next, changes, visited);
+    }
+  }
+
+  private requireDefinition(type: string): IFeatureDefinition {
+    const definition = this.getDefinition(type);
+    if (!definition) {
+      throw new Error(
+        `Feature type ${type} is not defined for map ${this.map.name}`
+      );
+    }
+    return definition;
+  }
+}
+
+function copyFeature(feature: ICellFeature): ICellFeature {
+  return {
+    ...feature,
+    ...(feature.links ? { links: [...feature.links] } : {}),
+  };
+}
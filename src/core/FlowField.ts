@@ -0,0 +1,193 @@
+import type { Map as GameMap } from './Map';
+import type { IPosition } from '../types/positionTypes';
+import type { IFlowFieldOptions } from '../types/mapTypes';
+import { getStepCost } from '../utils/pathfinding';
+import { PriorityQueue } from '../utils/priorityQueue';
+
+/**
+ * FlowField holds, for every cell of a map, the cost of the cheapest path
+ * to the nearest of its goals and the cell to step to next. It is computed
+ * once for any number of units heading to the same goals, each unit then
+ * looks its next step up. The field is computed again on the first lookup
+ * after the terrain, layers, features, heights or size of the map change.
+ */
+export class FlowField {
+  readonly goals: IPosition[];
+  private map: GameMap;
+  private allowDiagonal: boolean;
+  private maxCost: number;
+  // Integration field, cost to reach the goals from each cell
+  private costs: Float64Array | null = null;
+  // Index of the next cell on the way to the goals, -1 at goals and dead ends
+  private nextCells: Int32Array | null = null;
+  private unsubscribeMap: () => void;
+
+  constructor(
+    map: GameMap,
+    goals: IPosition[],
+    options: IFlowFieldOptions = {}
+  ) {
+    this.map = map;
+    this.goals = goals.map(({ x, y }) => ({ x, y }));
+    this.allowDiagonal = options.allowDiagonal ?? true;
+    this.maxCost = options.maxCost ?? Infinity;
+
+    // Every kind of map edit can change the cost of moving across it, units
+    // do not block the field
+    this.unsubscribeMap = map.subscribe(events => {
+      if (events.some(event => event.type !== 'unitChanged')) {
+        this.invalidate();
+      }
+    });
+  }
+
+  /**
+   * Check if the field is up to date, it is computed again on the next
+   * lookup otherwise
+   */
+  isValid(): boolean {
+    return this.costs !== null;
+  }
+
+  /**
+   * Discard the field, e.g. after changing the terrain registry of the map
+   */
+  invalidate(): void {
+    this.costs = null;
+    this.nextCells = null;
+  }
+
+  /**
+   * Get the cost of the cheapest path from a cell to the nearest goal
+   * @returns The cost, 0 on goals and Infinity if no goal can be reached
+   */
+  getCost(x: number, y: number): number {
+    const index = this.getIndex(x, y);
+    return index === null ? Infinity : this.getCosts()[index]!;
+  }
+
+  /**
+   * Get the cell a unit standing on a cell should step to
+   * @returns The next cell, or null on goals and cells that reach no goal
+   */
+  getNextStep(x: number, y: number): IPosition | null {
+    const index = this.getIndex(x, y);
+    if (index === null) return null;
+
+    this.getCosts();
+    const next = this.nextCells![index]!;
+    return next === -1
+      ? null
+      : { x: next % this.map.width, y: Math.floor(next / this.map.width) };
+  }
+
+  /**
+   * Get the direction to step in from a cell, e.g. { x: 1, y: -1 }. Steps
+   * across a wrapped edge point past it rather than across the whole map.
+   * @returns The direction, or null on goals and cells that reach no goal
+   */
+  getDirection(x: number, y: number): IPosition | null {
+    const tile = this.map.normalizePosition(x, y);
+    const next = tile ? this.getNextStep(tile.x, tile.y) : null;
+    if (!tile || !next) return null;
+
+    return {
+      x: wrapDelta(next.x - tile.x, this.map.width),
+      y: wrapDelta(next.y - tile.y, this.map.height),
+    };
+  }
+
+  /**
+   * Stop following changes of the map
+   */
+  dispose(): void {
+    this.unsubscribeMap();
+  }
+
+  private getIndex(x: number, y: number): number | null {
+    const tile = this.map.normalizePosition(x, y);
+    return tile ? tile.y * this.map.width + tile.x : null;
+  }
+
+  private getCosts(): Float64Array {
+    return this.costs ?? this.compute();
+  }
+
+  /**
+   * Dijkstra from every goal at once, following steps backwards so each
+   * cell learns the cost of moving from it to the goals
+   */
+  private compute(): Float64Array {
+    const { map } = this;
+    const size = map.width * map.height;
+    const costs = new Float64Array(size).fill(Infinity);
+    const nextCells = new Int32Array(size).fill(-1);
+    const closed = new Uint8Array(size);
+    const open = new PriorityQueue<number>();
+
+    for (const goal of this.goals) {
+      const tile = map.normalizePosition(goal.x, goal.y);
+      if (!tile || !map.isWalkable(tile.x, tile.y)) continue;
+
+      const index = tile.y * map.width + tile.x;
+      costs[index] = 0;
+      open.push(index, 0);
+    }
+
+    while (!open.isEmpty()) {
+      const current = open.pop()!;
+      if (closed[current]) continue;
+      closed[current] = 1;
+
+      const cx = current % map.width;
+      const cy = Math.floor(current / map.width);
+
+      for (const previous of map.getAdjacentCells(cx, cy, this.allowDiagonal)) {
+        const index = previous.y * map.width + previous.x;
+        if (closed[index] || !this.canStep(previous, cx, cy)) continue;
+
+        // Units move from the neighbour onto the current cell
+        const cost =
+          costs[current]! + getStepCost(map, previous.x, previous.y, cx, cy);
+        if (cost > this.maxCost || cost >= costs[index]!) continue;
+
+        costs[index] = cost;
+        nextCells[index] = current;
+        open.push(index, cost);
+      }
+    }
+
+    this.costs = costs;
+    this.nextCells = nextCells;
+    return costs;
+  }
+
+  /**
+   * Check the step a unit takes from a neighbour onto the current cell,
+   * in that direction since climbing and dropping limits differ
+   */
+  private canStep(from: IPosition, toX: number, toY: number): boolean {
+    const { map } = this;
+    if (!map.isWalkable(from.x, from.y)) return false;
+    // Cliffs too high to climb or drop down
+    if (!Number.isFinite(map.getElevationCost(from.x, from.y, toX, toY))) {
+      return false;
+    }
+    if (map.topology.hexLayout !== null || from.x === toX || from.y === toY) {
+      return true;
+    }
+
+    // Diagonal steps never cut the corner of impassable terrain
+    return map.isWalkable(toX, from.y) && map.isWalkable(from.x, toY);
+  }
+}
+
+/**
+ * Shortest offset along an axis, going around a wrapped edge when that is
+ * a single step
+ */
+function wrapDelta(delta: number, size: number): number {
+  if (delta > 1) return delta - size;
+  if (delta < -1) return delta + size;
+  return delta;
+}
@@ -0,0 +1,202 @@
+import type { Map as GameMap } from './Map';
+import type {
+  FogState,
+  IFogCellChange,
+  IFogDiff,
+  IFogObserver,
+  IVisibilityOptions,
+} from '../types/mapTypes';
+import type { IUnitPosition } from '@atsu/atago';
+import { getFieldOfView } from '../utils/visibility';
+
+const FOG_STATES: FogState[] = ['unexplored', 'explored', 'visible'];
+const UNEXPLORED = 0;
+const EXPLORED = 1;
+const VISIBLE = 2;
+
+/**
+ * FogOfWar tracks, per faction, which cells of a map have never been seen,
+ * have been seen before, or are currently in sight of the faction's units
+ */
+export class FogOfWar {
+  private map: GameMap;
+  private options: IVisibilityOptions;
+  private factions: Record<string, Uint8Array> = {};
+  // Size of the grids, caught up with the map on each access
+  private width: number;
+  private height: number;
+
+  constructor(map: GameMap, options: IVisibilityOptions = {}) {
+    this.map = map;
+    this.options = options;
+    this.width = map.width;
+    this.height = map.height;
+  }
+
+  /**
+   * Recompute what a faction currently sees from its observers
+   * @param factionId The faction or player the observers belong to
+   * @param observers The faction's units and their sight ranges, units on
+   * other maps are ignored
+   * @returns The cells whose state changed since the last update
+   */
+  update(factionId: string, observers: IFogObserver[]): IFogDiff {
+    this.resizeGrids();
+    const grid = this.getGrid(factionId);
+    const seen = new Uint8Array(grid.length);
+
+    for (const { unit, sightRange } of observers) {
+      if (unit.mapId !== this.map.name) continue;
+
+      const fov = getFieldOfView(
+        this.map,
+        unit.position,
+        sightRange,
+        this.options
+      );
+      for (const tile of fov) {
+        seen[this.toIndex(tile.x, tile.y)] = 1;
+      }
+    }
+
+    const changes: IFogCellChange[] = [];
+    for (let index = 0; index < grid.length; index++) {
+      const previous = grid[index]!;
+      let state = previous;
+      if (seen[index]) {
+        state = VISIBLE;
+      } else if (previous === VISIBLE) {
+        state = EXPLORED;
+      }
+      if (state === previous) continue;
+
+      grid[index] = state;
+      changes.push({
+        x: index % this.width,
+        y: Math.floor(index / this.width),
+        previous: FOG_STATES[previous]!,
+        state: FOG_STATES[state]!,
+      });
+    }
+
+    return { factionId, changes };
+  }
+
+  /**
+   * Get the fog state of a cell for a faction
+   * @returns The state, or 'unexplored' for cells off the map
+   */
+  getState(factionId: string, x: number, y: number): FogState {
+    this.resizeGrids();
+    const tile = this.map.normalizePosition(x, y);
+    const grid = this.factions[factionId];
+    if (!tile || !grid) return 'unexplored';
+
+    return FOG_STATES[grid[this.toIndex(tile.x, tile.y)] ?? UNEXPLORED]!;
+  }
+
+  /**
+   * Check if a cell is currently in sight of a faction
+   */
+  isVisible(factionId: string, x: number, y: number): boolean {
+    return this.getState(factionId, x, y) === 'visible';
+  }
+
+  /**
+   * Check if a faction has seen a cell at some point
+   */
+  isExplored(factionId: string, x: number, y: number): boolean {
+    return this.getState(factionId, x, y) !== 'unexplored';
+  }
+
+  /**
+   * Keep only the positions a faction can currently see on this map
+   */
+  filterVisiblePositions<T extends IUnitPosition>(
+    factionId: string,
+    positions: T[]
+  ): T[] {
+    return positions.filter(
+      pos =>
+        pos.mapId === this.map.name &&
+        this.isVisible(factionId, pos.position.x, pos.position.y)
+    );
+  }
+
+  /**
+   * Get the full state of a faction as changes from a blank map, useful to
+   * send the initial state to a client before streaming diffs
+   */
+  getSnapshot(factionId: string): IFogDiff {
+    this.resizeGrids();
+    const grid = this.factions[factionId];
+    const changes: IFogCellChange[] = [];
+
+    grid?.forEach((state, index) => {
+      if (state === UNEXPLORED) return;
+      changes.push({
+        x: index % this.width,
+        y: Math.floor(index / this.width),
+        previous: 'unexplored',
+        state: FOG_STATES[state]!,
+      });
+    });
+
+    return { factionId, changes };
+  }
+
+  /**
+   * Get the ids of all factions tracked so far
+   */
+  getFactions(): string[] {
+    return Object.keys(this.factions);
+  }
+
+  /**
+   * Forget everything a faction has seen
+   * @returns True if the faction was tracked
+   */
+  resetFaction(factionId: string): boolean {
+    if (!this.factions[factionId]) return false;
+
+    delete this.factions[factionId];
+    return true;
+  }
+
+  private getGrid(factionId: string): Uint8Array {
+    let grid = this.factions[factionId];
+    if (!grid) {
+      grid = new Uint8Array(this.width * this.height);
+      this.factions[factionId] = grid;
+    }
+    return grid;
+  }
+
+  private toIndex(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  /**
+   * Fit the grids to the current size of the map, keeping the explored state
+   * of each faction. Done on access rather than on resize events, which
+   * arrive late when the map is resized inside a batch.
+   */
+  private resizeGrids(): void {
+    const newWidth = this.map.width;
+    const newHeight = this.map.height;
+    if (newWidth === this.width && newHeight === this.height) return;
+
+    for (const [factionId, grid] of Object.entries(this.factions)) {
+      const resized = new Uint8Array(newWidth * newHeight);
+      for (let y = 0; y < Math.min(this.height, newHeight); y++) {
+        for (let x = 0; x < Math.min(this.width, newWidth); x++) {
+          resized[y * newWidth + x] = grid[y * this.width + x]!;
+        }
+      }
+      this.factions[factionId] = resized;
+    }
+
+    this.width = newWidth;
+    this.height = newHeight;
+  }
+}
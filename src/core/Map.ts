@@ -1,20 +1,66 @@
 import type {
+  AsciiLegend,
+  IAsciiOverlay,
   IMap,
   IMapCell,
+  IGridMap,
   TerrainType,
   ITerrainProperties,
   IMapConfig,
+  ElevationAdvantage,
+  IOccupant,
+  IPosition,
+  ICellFeature,
+  ICellFeatureOptions,
+  ILayerCell,
+  IMapRegion,
+  IFlowFieldOptions,
+  ISerializedMap,
+  MapEventListener,
+  OccupancyResult,
+  RegionShape,
 } from '../types/mapTypes';
+import type { IUnitPosition } from '@atsu/atago';
+import { MapEventEmitter } from './MapEventEmitter';
+import { OccupancyLayer } from './OccupancyLayer';
+import { ElevationLayer } from './ElevationLayer';
+import { CellLayers } from './CellLayers';
+import { FeatureLayer } from './FeatureLayer';
+import type { IFeatureChange } from './FeatureLayer';
+import { RegionLayer } from './RegionLayer';
+import { FlowField } from './FlowField';
+import { TerrainRegistry } from './TerrainRegistry';
+import {
+  MAP_SCHEMA_VERSION,
+  encodeCells,
+  readSerializedMap,
+} from '../utils/mapSerialization';
+import { parseAscii, renderAscii } from '../utils/ascii';
+import { getHexSpiral } from '../utils/hex';
+import { Topology } from './Topology';
 
 /**
  * Map class represents a coordinate-based game map with terrain types
  */
-export class Map implements IMap {
+export class Map implements IMap, IGridMap {
   width: number;
   height: number;
   name: string;
   cells: IMapCell[][];
   config: IMapConfig;
+  readonly topology: Topology = new Topology(this);
+  private events: MapEventEmitter = new MapEventEmitter(() => {
+    this.minimumMovementCost = null;
+  });
+  private terrainRegistry: TerrainRegistry | null = null;
+  private occupancy: OccupancyLayer = new OccupancyLayer(this);
+  private elevation: ElevationLayer;
+  private elevationAdvantage: ElevationAdvantage | null = null;
+  private layers: CellLayers = new CellLayers(this);
+  private features: FeatureLayer = new FeatureLayer(this);
+  private regions: RegionLayer = new RegionLayer(this);
+  // Cached until the next edit of the map
+  private minimumMovementCost: number | null = null;
 
   constructor(
     width: number,
@@ -34,6 +80,7 @@ export class Map implements IMap {
 
     // Initialize the map grid
     this.cells = this.initializeCells();
+    this.elevation = new ElevationLayer(this);
   }
 
   /**
@@ -66,39 +113,24 @@ export class Map implements IMap {
   }
 
   /**
-   * Check if coordinates are within map bounds
+   * Get the in-bounds coordinates for a position, wrapping them when edges wrap
+   * @returns The normalized coordinates, or null if the position is off the map
    */
-  private isValidCoordinate(x: number, y: number): boolean {
-    if (this.config.wrapEdges) {
-      return true; // With wrapping, coordinates are always valid
-    }
-    return x >= 0 && x < this.width && y >= 0 && y < this.height;
-  }
-
-  /**
-   * Get a wrapped coordinate if edges are wrapped
-   */
-  private getWrappedCoordinate(coord: number, max: number): number {
-    if (this.config.wrapEdges) {
-      // Wrap around the edges
-      return ((coord % max) + max) % max;
-    }
-    return coord;
+  normalizePosition(x: number, y: number): { x: number; y: number } | null {
+    return this.topology.normalize(x, y);
   }
 
   /**
    * Get the cell at the specified coordinates
    */
   getCell(x: number, y: number): IMapCell | null {
-    if (!this.isValidCoordinate(x, y)) {
+    // Get wrapped coordinates if necessary
+    const tile = this.topology.normalize(x, y);
+    if (!tile) {
       return null;
     }
 
-    // Get wrapped coordinates if necessary
-    const wrappedX = this.getWrappedCoordinate(x, this.width);
-    const wrappedY = this.getWrappedCoordinate(y, this.height);
-
-    return this.cells[wrappedY]?.[wrappedX] || null;
+    return this.cells[tile.y]?.[tile.x] || null;
   }
 
   /**
@@ -118,12 +150,10 @@ export class Map implements IMap {
     terrain: TerrainType,
     properties?: Partial<ITerrainProperties>
   ): boolean {
-    if (!this.isValidCoordinate(x, y)) {
+    if (!this.topology.normalize(x, y)) {
       return false;
     }
-
-    const wrappedX = this.getWrappedCoordinate(x, this.width);
-    const wrappedY = this.getWrappedCoordinate(y, this.height);
+    this.checkTerrain(terrain);
 
     // Get default properties for the terrain type
     const terrainProps = this.getDefaultTerrainProperties(terrain);
@@ -133,12 +163,39 @@ export class Map implements IMap {
       Object.assign(terrainProps, properties);
     }
 
-    if (this.cells[wrappedY] && this.cells[wrappedY][wrappedX]) {
-      this.cells[wrappedY][wrappedX] = {
-        ...this.cells[wrappedY][wrappedX],
-        terrain,
-        properties: terrainProps,
-      };
+    return this.writeCell(x, y, { terrain, properties: terrainProps });
+  }
+
+  /**
+   * Replace a cell with a copy of the given one, as is: unlike setTerrain,
+   * the registry defaults of the terrain are not merged in. Used to restore
+   * cells exactly, e.g. by undo or map diffs.
+   */
+  setCell(x: number, y: number, cell: IMapCell): boolean {
+    if (!this.topology.normalize(x, y)) {
+      return false;
+    }
+    this.checkTerrain(cell.terrain);
+
+    return this.writeCell(x, y, {
+      terrain: cell.terrain,
+      properties: { ...cell.properties },
+    });
+  }
+
+  private writeCell(x: number, y: number, cell: IMapCell): boolean {
+    const { x: wrappedX, y: wrappedY } = this.topology.normalize(x, y)!;
+
+    const previousCell = this.cells[wrappedY]?.[wrappedX];
+    if (this.cells[wrappedY] && previousCell) {
+      this.cells[wrappedY][wrappedX] = cell;
+
+      this.events.emit({
+        type: 'terrainChanged',
+        mapId: this.name,
+        position: [wrappedX, wrappedY],
+        data: { before: previousCell, after: cell },
+      });
     } else {
       // This shouldn't happen if coordinates are valid, but for type safety
       return false;
@@ -148,54 +205,450 @@ export class Map implements IMap {
   }
 
   /**
-   * Get default terrain properties based on terrain type
+   * Get the names of the cell layers of this map, bottom to top. The ground
+   * layer holds the cell terrain, the layers above it come from
+   * config.layers.order.
    */
-  getDefaultTerrainProperties(terrainType: TerrainType): ITerrainProperties {
-    // Default properties for common terrain types
-    const defaults: Record<TerrainType, ITerrainProperties> = {
-      grass: { movementCost: 1.0 },
-      water: { movementCost: 2.0, impassable: true }, // Units can't move through water
-      mountain: { movementCost: 3.0 },
-      forest: { movementCost: 1.5, visibilityModifier: 0.7 },
-      desert: { movementCost: 1.2 },
-      road: { movementCost: 0.8 },
-      plains: { movementCost: 1.0 },
-      swamp: { movementCost: 2.5 },
-      snow: { movementCost: 1.3 },
-      sand: { movementCost: 1.4 },
-    };
+  getLayerNames(): string[] {
+    return [...this.layers.getOrder()];
+  }
+
+  /**
+   * Get the terrain of a layer at the specified coordinates
+   * @returns The layer cell, or null if the layer is empty there
+   */
+  getLayerCell(layer: string, x: number, y: number): ILayerCell | null {
+    const tile = this.topology.normalize(x, y);
+    if (!tile) {
+      return null;
+    }
+    if (layer === 'ground') {
+      return this.getCell(tile.x, tile.y);
+    }
+
+    return this.layers.get(layer, tile.x, tile.y);
+  }
+
+  /**
+   * Get every non-empty layer at the specified coordinates, bottom to top,
+   * starting with the ground
+   */
+  getLayers(x: number, y: number): Array<{ layer: string; cell: ILayerCell }> {
+    const tile = this.topology.normalize(x, y);
+    const cell = tile ? this.getCell(tile.x, tile.y) : null;
+    if (!tile || !cell) {
+      return [];
+    }
+
+    return [{ layer: 'ground', cell }, ...this.layers.getStack(tile.x, tile.y)];
+  }
+
+  /**
+   * Put terrain on a layer at the specified coordinates, e.g. a bridge on
+   * the structure layer over water. Properties the terrain does not set
+   * leave the layers below in charge. Setting the ground layer is the same
+   * as setTerrain.
+   * @throws Error if the layer is not configured for this map
+   */
+  setLayerTerrain(
+    layer: string,
+    x: number,
+    y: number,
+    terrain: TerrainType,
+    properties?: Partial<ITerrainProperties>
+  ): boolean {
+    if (layer === 'ground') {
+      return this.setTerrain(x, y, terrain, properties);
+    }
 
-    // Start with basic defaults
-    const basicDefaults: ITerrainProperties = {
-      movementCost: 1.0,
+    this.checkLayer(layer);
+    const tile = this.topology.normalize(x, y);
+    if (!tile) {
+      return false;
+    }
+    this.checkTerrain(terrain);
+
+    const cell: ILayerCell = {
+      terrain,
+      properties: {
+        ...this.getTerrainRegistry().getProperties(terrain),
+        ...properties,
+      },
     };
+    const before = this.layers.set(layer, tile.x, tile.y, cell);
 
-    // Get specific terrain defaults, or fall back to grass
-    const terrainDefaults = defaults[terrainType] || defaults['grass'];
+    this.events.emit({
+      type: 'layerChanged',
+      mapId: this.name,
+      position: [tile.x, tile.y],
+      data: { layer, before, after: cell },
+    });
+    return true;
+  }
 
-    // Return merged properties: basic -> grass fallback -> specific terrain
-    return {
-      ...basicDefaults,
-      ...terrainDefaults,
+  /**
+   * Remove the terrain of a layer above the ground at the specified
+   * coordinates
+   * @returns True if the layer held terrain there
+   * @throws Error if the layer is not configured for this map
+   */
+  clearLayer(layer: string, x: number, y: number): boolean {
+    if (layer === 'ground') {
+      throw new Error(`Layer ground of map ${this.name} cannot be cleared`);
+    }
+    this.checkLayer(layer);
+
+    const tile = this.topology.normalize(x, y);
+    const before = tile ? this.layers.set(layer, tile.x, tile.y, null) : null;
+    if (!tile || !before) {
+      return false;
+    }
+
+    this.events.emit({
+      type: 'layerChanged',
+      mapId: this.name,
+      position: [tile.x, tile.y],
+      data: { layer, before, after: null },
+    });
+    return true;
+  }
+
+  /**
+   * Place a feature, such as a door or a destructible wall, on a cell. Its
+   * state applies properties on top of the cell layers, so a closed door
+   * blocks movement and sight.
+   * @param type A built-in feature (door, drawbridge, pressurePlate,
+   * destructibleWall) or one defined in config.features
+   * @returns False if the position is off the map or the id is taken
+   * @throws Error if the type is not defined or has no such state
+   */
+  addFeature(
+    id: string,
+    type: string,
+    x: number,
+    y: number,
+    options: ICellFeatureOptions = {}
+  ): boolean {
+    const tile = this.topology.normalize(x, y);
+    if (!tile) {
+      return false;
+    }
+
+    const definition = this.features.getDefinition(type);
+    const hitPoints = options.hitPoints ?? definition?.hitPoints;
+    const feature: ICellFeature = {
+      id,
+      type,
+      x: tile.x,
+      y: tile.y,
+      state: options.state ?? definition?.initialState ?? '',
+      ...(hitPoints !== undefined ? { hitPoints } : {}),
+      ...(options.links ? { links: [...options.links] } : {}),
     };
+    if (!this.features.add(feature)) {
+      return false;
+    }
+
+    this.events.emit({
+      type: 'featureChanged',
+      mapId: this.name,
+      position: [feature.x, feature.y],
+      data: { feature: id, before: null, after: feature },
+    });
+    return true;
+  }
+
+  /**
+   * Remove a feature from the map
+   * @returns True if the feature was on the map
+   */
+  removeFeature(id: string): boolean {
+    const feature = this.features.remove(id);
+    if (!feature) {
+      return false;
+    }
+
+    this.events.emit({
+      type: 'featureChanged',
+      mapId: this.name,
+      position: [feature.x, feature.y],
+      data: { feature: id, before: feature, after: null },
+    });
+    return true;
+  }
+
+  /**
+   * Get a feature by id
+   */
+  getFeature(id: string): ICellFeature | null {
+    return this.features.get(id);
+  }
+
+  /**
+   * Get the features on the cell at the specified coordinates
+   */
+  getFeaturesAt(x: number, y: number): ICellFeature[] {
+    const tile = this.topology.normalize(x, y);
+    return tile ? this.features.getAt(tile.x, tile.y) : [];
+  }
+
+  /**
+   * Get every feature of the map
+   */
+  getFeatures(): ICellFeature[] {
+    return this.features.getAll();
+  }
+
+  /**
+   * Put a feature in a state. Entering a state that triggers an action
+   * sends it to the linked features, e.g. a pressure plate opening a door.
+   * @returns True if any feature changed
+   * @throws Error if the feature type has no such state
+   */
+  setFeatureState(id: string, state: string): boolean {
+    return this.publishFeatureChanges(this.features.setState(id, state));
+  }
+
+  /**
+   * Run an action, such as 'open' or 'press', on a feature or on every
+   * feature of a cell. Features without a transition for the action from
+   * their current state are left as they are.
+   * @returns True if any feature changed
+   */
+  triggerFeature(target: string | IPosition, action: string): boolean {
+    return this.publishFeatureChanges(
+      this.features.trigger(this.getFeatureIds(target), action)
+    );
+  }
+
+  /**
+   * Damage a destructible feature, or every destructible feature of a cell.
+   * Features left without hit points enter their destroyed state.
+   * @returns True if any feature changed
+   */
+  damageFeature(target: string | IPosition, amount: number): boolean {
+    return this.publishFeatureChanges(
+      this.features.damage(this.getFeatureIds(target), amount)
+    );
+  }
+
+  /**
+   * Define a named region, such as a capture zone or a spawn area. Parts of
+   * the shape off the map are left out, or wrapped when edges wrap.
+   * @param tags Labels to look regions up by, e.g. 'spawn'
+   * @returns False if a region with the same name exists
+   * @throws Error if the shape is invalid
+   */
+  addRegion(name: string, shape: RegionShape, tags: string[] = []): boolean {
+    return this.regions.add({ name, shape, tags });
+  }
+
+  /**
+   * Remove a named region
+   * @returns True if the region existed
+   */
+  removeRegion(name: string): boolean {
+    return this.regions.remove(name) !== null;
+  }
+
+  /**
+   * Get a named region by name
+   */
+  getNamedRegion(name: string): IMapRegion | null {
+    return this.regions.get(name);
+  }
+
+  /**
+   * Get the named regions of the map
+   * @param tag When given, only regions carrying the tag
+   */
+  getNamedRegions(tag?: string): IMapRegion[] {
+    return filterByTag(this.regions.getAll(), tag);
+  }
+
+  /**
+   * Get the named regions containing the specified coordinates
+   * @param tag When given, only regions carrying the tag
+   */
+  getRegionsAt(x: number, y: number, tag?: string): IMapRegion[] {
+    const tile = this.topology.normalize(x, y);
+    return tile ? filterByTag(this.regions.getAt(tile.x, tile.y), tag) : [];
+  }
+
+  /**
+   * Check if a named region contains the specified coordinates
+   */
+  isInRegion(name: string, x: number, y: number): boolean {
+    const tile = this.topology.normalize(x, y);
+    return tile !== null && this.regions.contains(name, tile.x, tile.y);
+  }
+
+  /**
+   * Get the cells of a named region, row by row
+   */
+  getRegionCells(name: string): IPosition[] {
+    return this.regions.getCells(name).map(({ x, y }) => ({ x, y }));
+  }
+
+  /**
+   * Keep only the positions on this map inside a named region
+   */
+  getPositionsInRegion<T extends IUnitPosition>(
+    name: string,
+    positions: T[]
+  ): T[] {
+    return positions.filter(
+      pos =>
+        pos.mapId === this.name &&
+        this.isInRegion(name, pos.position.x, pos.position.y)
+    );
+  }
+
+  /**
+   * Get default terrain properties based on terrain type, from the attached
+   * terrain registry. Unknown terrain falls back to grass.
+   */
+  getDefaultTerrainProperties(terrainType: TerrainType): ITerrainProperties {
+    const registry = this.getTerrainRegistry();
+
+    return (
+      registry.getProperties(terrainType) ??
+      registry.getProperties('grass') ?? { movementCost: 1.0 }
+    );
+  }
+
+  /**
+   * Attach a terrain registry to this map, null restores the default registry
+   */
+  setTerrainRegistry(registry: TerrainRegistry | null): void {
+    this.terrainRegistry = registry;
+  }
+
+  /**
+   * Get the terrain registry used by this map
+   */
+  getTerrainRegistry(): TerrainRegistry {
+    return this.terrainRegistry ?? TerrainRegistry.default;
   }
 
   /**
    * Check if a position is walkable (not blocked terrain)
+   * @param unitId When given, cells the unit cannot share with the units
+   * already there are not walkable either
    */
-  isWalkable(x: number, y: number): boolean {
+  isWalkable(x: number, y: number, unitId?: string): boolean {
     const cell = this.getCell(x, y);
     if (!cell) return false;
 
     // Check if terrain blocks movement - impassable terrain cannot be traversed
-    if (cell.properties.impassable) return false;
+    if (this.getTerrainProperties(x, y)?.impassable) return false;
+
+    if (unitId !== undefined) {
+      return this.canPlaceUnit(unitId, x, y);
+    }
 
     return true;
   }
 
+  /**
+   * Put a unit on a cell, following the stacking policy of the cell
+   * @param faction Faction of the unit, used by allies-only stacking
+   * @returns Whether the unit was placed, with the reason when it was not
+   */
+  placeUnit(
+    unitId: string,
+    x: number,
+    y: number,
+    faction?: string
+  ): OccupancyResult {
+    const result = this.occupancy.placeUnit(unitId, x, y, faction);
+    if (result.success) {
+      this.emitUnitChanged(unitId, null, this.occupancy.getUnit(unitId));
+    }
+    return result;
+  }
 
   /**
-   * Get nearby cells within a specified range
+   * Move a unit already on the map to another cell
+   * @returns Whether the unit was moved, with the reason when it was not
+   */
+  moveUnit(unitId: string, x: number, y: number): OccupancyResult {
+    const before = this.occupancy.getUnit(unitId);
+    const result = this.occupancy.moveUnit(unitId, x, y);
+    if (result.success) {
+      this.emitUnitChanged(unitId, before, this.occupancy.getUnit(unitId));
+    }
+    return result;
+  }
+
+  /**
+   * Take a unit off the map
+   * @returns True if the unit was on the map
+   */
+  removeUnit(unitId: string): boolean {
+    const before = this.occupancy.getUnit(unitId);
+    if (!this.occupancy.removeUnit(unitId)) return false;
+
+    this.emitUnitChanged(unitId, before, null);
+    return true;
+  }
+
+  /**
+   * Check if a unit could be placed on, or moved to, a cell
+   */
+  canPlaceUnit(unitId: string, x: number, y: number): boolean {
+    const faction = this.occupancy.getUnit(unitId)?.faction;
+    return this.occupancy.checkPlacement(x, y, faction, unitId).success;
+  }
+
+  /**
+   * Get the units standing on a cell
+   */
+  getOccupants(x: number, y: number): IOccupant[] {
+    return this.occupancy.getOccupants(x, y);
+  }
+
+  /**
+   * Check if any unit stands on a cell
+   */
+  isOccupied(x: number, y: number): boolean {
+    return this.occupancy.getOccupants(x, y).length > 0;
+  }
+
+  /**
+   * Get the cell a unit stands on
+   * @returns The unit's occupancy, or null if it is not on the map
+   */
+  getUnitPosition(unitId: string): IOccupant | null {
+    return this.occupancy.getUnit(unitId);
+  }
+
+  /**
+   * Get every unit on the map
+   */
+  getUnits(): IOccupant[] {
+    return this.occupancy.getAll();
+  }
+
+  /**
+   * Get the cells directly adjacent to the specified coordinates.
+   * Returned coordinates are wrapped onto the map when edges wrap.
+   * Hex maps always return the six surrounding hexes.
+   */
+  getAdjacentCells(
+    x: number,
+    y: number,
+    includeDiagonals: boolean = true
+  ): Array<{ x: number; y: number; cell: IMapCell }> {
+    return this.collectCells(
+      this.topology.getNeighbors(x, y, includeDiagonals)
+    );
+  }
+
+  /**
+   * Get nearby cells within a specified range, a square or, without
+   * diagonals, a diamond. Hex maps return every hex within range steps.
+   * getAreaCells offers circles, cones, lines and other shapes.
    */
   getNearbyCells(
     x: number,
@@ -203,6 +656,13 @@ export class Map implements IMap {
     range: number,
     includeDiagonals: boolean = true
   ): Array<{ x: number; y: number; cell: IMapCell }> {
+    const hexLayout = this.topology.hexLayout;
+    if (hexLayout) {
+      return this.collectCells(
+        getHexSpiral({ x, y }, range, hexLayout).slice(1)
+      );
+    }
+
     const cells: Array<{ x: number; y: number; cell: IMapCell }> = [];
 
     for (let dy = -range; dy <= range; dy++) {
@@ -210,8 +670,8 @@ export class Map implements IMap {
         // Skip the center position (0,0)
         if (dx === 0 && dy === 0) continue;
 
-        // If diagonals are not allowed, skip diagonal moves
-        if (!includeDiagonals && Math.abs(dx) === Math.abs(dy)) continue;
+        // Without diagonals, only cells range orthogonal steps away
+        if (!includeDiagonals && Math.abs(dx) + Math.abs(dy) > range) continue;
 
         const nx = x + dx;
         const ny = y + dy;
@@ -226,6 +686,25 @@ export class Map implements IMap {
     return cells;
   }
 
+  /**
+   * Get the cells at the given positions, skipping positions off the map
+   */
+  private collectCells(
+    positions: Array<{ x: number; y: number }>
+  ): Array<{ x: number; y: number; cell: IMapCell }> {
+    const cells: Array<{ x: number; y: number; cell: IMapCell }> = [];
+
+    for (const position of positions) {
+      const tile = this.normalizePosition(position.x, position.y);
+      const cell = tile ? this.getCell(tile.x, tile.y) : null;
+      if (tile && cell) {
+        cells.push({ x: tile.x, y: tile.y, cell });
+      }
+    }
+
+    return cells;
+  }
+
   /**
    * Get a subregion of the map
    */
@@ -253,7 +732,8 @@ export class Map implements IMap {
   }
 
   /**
-   * Resize the map
+   * Resize the map. Units standing outside the new bounds are taken off it,
+   * with a unitChanged event each.
    */
   resize(newWidth: number, newHeight: number): void {
     if (newWidth <= 0 || newHeight <= 0) {
@@ -283,9 +763,64 @@ export class Map implements IMap {
       newCells.push(row);
     }
 
+    const previousSize = { width: this.width, height: this.height };
+
     this.width = newWidth;
     this.height = newHeight;
     this.cells = newCells;
+    const evicted = this.occupancy.removeOutOfBounds();
+    this.layers.removeOutOfBounds();
+    this.features.removeOutOfBounds();
+    this.regions.refresh();
+    this.elevation.resize(previousSize.width, previousSize.height);
+
+    // Units cut off are reported in the same notification as the resize
+    this.events.batch(() => {
+      this.events.emit({
+        type: 'mapChanged',
+        mapId: this.name,
+        position: [0, 0],
+        data: {
+          change: 'resized',
+          before: previousSize,
+          after: { width: newWidth, height: newHeight },
+        },
+      });
+      for (const unit of evicted) {
+        this.emitUnitChanged(unit.unitId, unit, null);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to terrain, elevation, unit and resize events of this map
+   * @returns A function that removes the subscription
+   */
+  subscribe(listener: MapEventListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  /**
+   * Remove a subscription made with subscribe
+   * @returns True if the listener was subscribed
+   */
+  unsubscribe(listener: MapEventListener): boolean {
+    return this.events.unsubscribe(listener);
+  }
+
+  /**
+   * Run several edits and publish their events as a single notification
+   */
+  batch<T>(edits: () => T): T {
+    return this.events.batch(edits);
+  }
+
+  /**
+   * Check if edits are being batched, their events are published when the
+   * outermost batch ends
+   */
+  isBatching(): boolean {
+    return this.events.batching;
   }
 
   /**
@@ -298,6 +833,7 @@ export class Map implements IMap {
       name || this.name,
       this.config
     );
+    newMap.setTerrainRegistry(this.terrainRegistry);
 
     for (let y = 0; y < this.height; y++) {
       for (let x = 0; x < this.width; x++) {
@@ -316,15 +852,119 @@ export class Map implements IMap {
       }
     }
 
+    newMap.elevation.load(this.elevation.toArray());
+    newMap.layers.load(this.layers.toJSON());
+    newMap.features.load(this.features.toJSON());
+    newMap.regions.load(this.regions.toJSON());
+    newMap.elevationAdvantage = this.elevationAdvantage;
+    for (const unit of this.occupancy.getAll()) {
+      newMap.occupancy.placeUnit(unit.unitId, unit.x, unit.y, unit.faction);
+    }
+
     return newMap;
   }
 
   /**
-   * Get the terrain properties at the specified coordinates
+   * Serialize the map to a versioned, palette-encoded JSON structure
+   */
+  toJSON(): ISerializedMap {
+    const { palette, cells } = encodeCells(this.cells);
+    const elevation = this.elevation.toArray();
+    const layers = this.layers.toJSON();
+    const features = this.features.toJSON();
+    const regions = this.regions.toJSON();
+    return {
+      version: MAP_SCHEMA_VERSION,
+      name: this.name,
+      width: this.width,
+      height: this.height,
+      config: { ...this.config },
+      palette,
+      cells,
+      ...(elevation ? { elevation } : {}),
+      ...(layers ? { layers } : {}),
+      ...(features ? { features } : {}),
+      ...(regions ? { regions } : {}),
+    };
+  }
+
+  /**
+   * Create a map from data produced by toJSON, migrating older versions
+   * @throws MapSerializationError when the data is invalid
+   */
+  static fromJSON(data: unknown): Map {
+    const serialized = readSerializedMap(data);
+    const map = new Map(
+      serialized.width,
+      serialized.height,
+      serialized.name,
+      serialized.config
+    );
+
+    serialized.cells.forEach((paletteIndex, i) => {
+      const entry = serialized.palette[paletteIndex]!;
+      const row = map.cells[Math.floor(i / serialized.width)]!;
+      row[i % serialized.width] = {
+        terrain: entry.terrain,
+        properties: { ...entry.properties },
+      };
+    });
+    map.elevation.load(serialized.elevation ?? null);
+    map.layers.load(serialized.layers ?? null);
+    map.features.load(serialized.features ?? null);
+    map.regions.load(serialized.regions ?? null);
+
+    return map;
+  }
+
+  /**
+   * Create a map from an ASCII drawing, one character per cell
+   * @param text The drawing, one line per row
+   * @param legend The terrain drawn by each character
+   * @throws Error on ragged rows or characters missing from the legend
+   */
+  static fromAscii(
+    text: string,
+    legend: AsciiLegend,
+    name?: string,
+    config?: IMapConfig
+  ): Map {
+    const rows = parseAscii(text, legend);
+    const map = new Map(rows[0]!.length, rows.length, name, config);
+
+    rows.forEach((row, y) => {
+      row.forEach((entry, x) => {
+        map.setTerrain(x, y, entry.terrain, entry.properties);
+      });
+    });
+
+    return map;
+  }
+
+  /**
+   * Draw the map as ASCII text, with optional overlays such as units or paths
+   * @param legend Characters for each terrain, unknown terrain is drawn as '?'
+   * @param overlays Characters drawn over the terrain, later overlays win
+   */
+  toAscii(legend: AsciiLegend, overlays: IAsciiOverlay[] = []): string {
+    return renderAscii(this, legend, overlays);
+  }
+
+  /**
+   * Get the terrain properties at the specified coordinates, combining the
+   * ground with the layers above it and the state of its features
    */
   getTerrainProperties(x: number, y: number): ITerrainProperties | null {
-    const cell = this.getCell(x, y);
-    return cell ? cell.properties : null;
+    const tile = this.topology.normalize(x, y);
+    const cell = tile ? this.getCell(tile.x, tile.y) : null;
+    return tile && cell
+      ? this.layers.combine(
+          cell.properties,
+          tile.x,
+          tile.y,
+          this.features.getProperties(tile.x, tile.y)
+        )
+      : null;
   }
 
   /**
@@ -334,4 +974,206 @@ export class Map implements IMap {
     const props = this.getTerrainProperties(x, y);
     return props ? props.movementCost || 1.0 : Infinity; // Return infinity if no valid cell
   }
+
+  /**
+   * Get the lowest movement cost of any walkable cell, 1 when no cell is
+   * walkable. Pathfinding scales its heuristic by it, it is computed once
+   * and kept until the next edit of the map.
+   */
+  getMinimumMovementCost(): number {
+    if (this.minimumMovementCost === null) {
+      let minimum = Infinity;
+      for (let y = 0; y < this.height; y++) {
+        for (let x = 0; x < this.width; x++) {
+          if (!this.isWalkable(x, y)) continue;
+          minimum = Math.min(minimum, this.getMovementCost(x, y));
+        }
+      }
+      this.minimumMovementCost = Number.isFinite(minimum) ? minimum : 1;
+    }
+    return this.minimumMovementCost;
+  }
+
+  /**
+   * Get the height of the cell at the specified coordinates
+   * @returns The height, or null if the coordinates are off the map
+   */
+  getElevation(x: number, y: number): number | null {
+    const tile = this.topology.normalize(x, y);
+    return tile ? this.elevation.get(tile.x, tile.y) : null;
+  }
+
+  /**
+   * Set the height of the cell at the specified coordinates
+   */
+  setElevation(x: number, y: number, elevation: number): boolean {
+    const tile = this.topology.normalize(x, y);
+    if (!tile || !Number.isFinite(elevation)) {
+      return false;
+    }
+
+    const before = this.elevation.set(tile.x, tile.y, elevation);
+    this.events.emit({
+      type: 'elevationChanged',
+      mapId: this.name,
+      position: [tile.x, tile.y],
+      data: { before, after: elevation },
+    });
+    return true;
+  }
+
+  /**
+   * Set the height of every cell at once, published as a single notification
+   * @param heights One row of heights per map row
+   * @throws Error if the heightmap does not match the map size
+   */
+  setHeightmap(heights: number[][]): void {
+    if (
+      heights.length !== this.height ||
+      heights.some(row => row.length !== this.width)
+    ) {
+      throw new Error(
+        `Heightmap must be ${this.width}x${this.height} to fit map ${this.name}`
+      );
+    }
+
+    this.batch(() => {
+      heights.forEach((row, y) => {
+        row.forEach((elevation, x) => this.setElevation(x, y, elevation));
+      });
+    });
+  }
+
+  /**
+   * Get the extra movement cost of stepping between two cells because of
+   * their height difference, following config.elevation
+   * @returns The extra cost, or Infinity if the step is too steep
+   */
+  getElevationCost(
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number
+  ): number {
+    const from = this.getElevation(fromX, fromY);
+    const to = this.getElevation(toX, toY);
+    if (from === null || to === null) return Infinity;
+
+    const settings = this.config.elevation ?? {};
+    const climb = to - from;
+    if (climb > (settings.maxClimb ?? Infinity)) return Infinity;
+    if (-climb > (settings.maxDrop ?? Infinity)) return Infinity;
+
+    return climb >= 0
+      ? climb * (settings.uphillCost ?? 0)
+      : -climb * (settings.downhillCost ?? 0);
+  }
+
+  /**
+   * Replace how height over an attacker turns into a defense bonus,
+   * null restores config.elevation.defenseBonusPerLevel
+   */
+  setElevationAdvantage(advantage: ElevationAdvantage | null): void {
+    this.elevationAdvantage = advantage;
+  }
+
+  /**
+   * Get the defense bonus of the cell at the specified coordinates: the
+   * terrain defenseBonus plus the advantage of standing above the attacker
+   * @param attacker Position of the attacker, no height advantage without it
+   */
+  getDefenseBonus(x: number, y: number, attacker?: IPosition): number {
+    const props = this.getTerrainProperties(x, y);
+    if (!props) return 0;
+
+    const terrainBonus = props.defenseBonus ?? 0;
+    const defenderElevation = this.getElevation(x, y)!;
+    const attackerElevation = attacker
+      ? this.getElevation(attacker.x, attacker.y)
+      : null;
+    if (attackerElevation === null) return terrainBonus;
+
+    const advantage =
+      this.elevationAdvantage ??
+      ((defender: number, attacking: number) =>
+        Math.max(0, defender - attacking) *
+        (this.config.elevation?.defenseBonusPerLevel ?? 0));
+
+    return terrainBonus + advantage(defenderElevation, attackerElevation);
+  }
+
+  /**
+   * Create a flow field leading every cell to the nearest goal, so any
+   * number of units can look up their next step instead of searching a
+   * path each. The field follows later edits of the map until disposed.
+   * @param goals Goal cells, those off the map or not walkable are ignored
+   */
+  createFlowField(
+    goals: IPosition[],
+    options: IFlowFieldOptions = {}
+  ): FlowField {
+    return new FlowField(this, goals, options);
+  }
+
+  /**
+   * Report terrain missing from the registry, following config.strictTerrain
+   */
+  private checkTerrain(terrain: TerrainType): void {
+    this.getTerrainRegistry().check(
+      terrain,
+      this.name,
+      this.config.strictTerrain
+    );
+  }
+
+  private getFeatureIds(target: string | IPosition): string[] {
+    if (typeof target === 'string') {
+      return [target];
+    }
+    return this.getFeaturesAt(target.x, target.y).map(({ id }) => id);
+  }
+
+  /**
+   * Publish feature changes as a single notification
+   * @returns True if there was any change
+   */
+  private publishFeatureChanges(changes: IFeatureChange[]): boolean {
+    this.events.batch(() => {
+      for (const { before, after } of changes) {
+        this.events.emit({
+          type: 'featureChanged',
+          mapId: this.name,
+          position: [after.x, after.y],
+          data: { feature: after.id, before, after },
+        });
+      }
+    });
+    return changes.length > 0;
+  }
+
+  private emitUnitChanged(
+    unitId: string,
+    before: IOccupant | null,
+    after: IOccupant | null
+  ): void {
+    const { x, y } = (after ?? before)!;
+    this.events.emit({
+      type: 'unitChanged',
+      mapId: this.name,
+      position: [x, y],
+      data: { unitId, before, after },
+    });
+  }
+
+  private checkLayer(layer: string): void {
+    if (!this.layers.getOrder().includes(layer)) {
+      throw new Error(`Layer ${layer} is not configured for map ${this.name}`);
+    }
+  }
+}
+
+function filterByTag(regions: IMapRegion[], tag?: string): IMapRegion[] {
+  return tag === undefined
+    ? regions
+    : regions.filter(region => region.tags.includes(tag));
 }
@@ -0,0 +1,92 @@
+import type { MapEvent, MapEventListener } from '../types/mapTypes';
+
+/**
+ * MapEventEmitter delivers map events to subscribers, grouping the events
+ * raised inside a batch into a single notification
+ */
+export class MapEventEmitter {
+  private listeners: Set<MapEventListener> = new Set();
+  private pending: MapEvent[] = [];
+  private batchDepth: number = 0;
+  private onEmit: (() => void) | null;
+
+  /**
+   * @param onEmit Called as soon as an event is raised, even inside a batch,
+   * e.g. to drop values cached from the map
+   */
+  constructor(onEmit?: () => void) {
+    this.onEmit = onEmit ?? null;
+  }
+
+  /**
+   * Subscribe to events
+   * @returns A function that removes the subscription
+   */
+  subscribe(listener: MapEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.unsubscribe(listener);
+    };
+  }
+
+  /**
+   * Remove a subscription
+   * @returns True if the listener was subscribed
+   */
+  unsubscribe(listener: MapEventListener): boolean {
+    return this.listeners.delete(listener);
+  }
+
+  /**
+   * Whether events are queued until the current batch ends
+   */
+  get batching(): boolean {
+    return this.batchDepth > 0;
+  }
+
+  /**
+   * Publish an event, or queue it until the current batch ends
+   */
+  emit(event: MapEvent): void {
+    this.emitAll([event]);
+  }
+
+  /**
+   * Publish several events as one notification
+   */
+  emitAll(events: MapEvent[]): void {
+    if (events.length === 0) return;
+    this.onEmit?.();
+
+    if (this.batchDepth > 0) {
+      this.pending.push(...events);
+      return;
+    }
+
+    this.notify(events);
+  }
+
+  /**
+   * Run a function and publish every event it raises as one notification.
+   * Nested batches are flushed when the outermost batch ends.
+   */
+  batch<T>(fn: () => T): T {
+    this.batchDepth++;
+    try {
+      return fn();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0 && this.pending.length > 0) {
+        const events = this.pending;
+        this.pending = [];
+        this.notify(events);
+      }
+    }
+  }
+
+  private notify(events: MapEvent[]): void {
+    for (const listener of [...this.listeners]) {
+      listener(events);
+    }
+  }
+}
@@ -0,0 +1,526 @@
+import type { Map as GameMap } from './Map';
+import type {
+  ICellFeature,
+  ILayerCell,
+  IMapCell,
+  IMapHistoryOptions,
+  MapEvent,
+} from '../types/mapTypes';
+
+// Layer cell above the ground, at a position of the map
+interface ILayerEntry {
+  layer: string;
+  x: number;
+  y: number;
+  cell: ILayerCell;
+}
+
+// Single recorded edit, with what is needed to revert and reapply it
+type HistoryChange =
+  | { type: 'terrain'; x: number; y: number; before: IMapCell; after: IMapCell }
+  | { type: 'elevation'; x: number; y: number; before: number; after: number }
+  | {
+      type: 'layer';
+      layer: string;
+      x: number;
+      y: number;
+      before: ILayerCell | null;
+      after: ILayerCell | null;
+    }
+  | {
+      type: 'feature';
+      id: string;
+      before: ICellFeature | null;
+      after: ICellFeature | null;
+    }
+  | {
+      type: 'resize';
+      before: { width: number; height: number };
+      after: { width: number; height: number };
+      // Cells cut off by the resize, to restore them on undo
+      removed: Array<{ x: number; y: number; cell: IMapCell; height: number }>;
+      removedLayers: ILayerEntry[];
+      removedFeatures: ICellFeature[];
+    };
+
+interface IHistoryEntry {
+  name: string;
+  changes: HistoryChange[];
+  size: number; // Approximate bytes
+}
+
+const DEFAULT_MAX_ENTRIES = 100;
+
+/**
+ * MapHistory records every edit made to a map (terrain, layers, features,
+ * heights and resizes) so they can be undone and redone. Each notification of the map is
+ * one entry, so batched edits undo together, and edits can be grouped further
+ * into named transactions. Edits are picked up from map events, whether they
+ * go through the history or straight to the map.
+ */
+export class MapHistory {
+  private map: GameMap;
+  private maxEntries: number;
+  private maxMemory: number;
+  private undoStack: IHistoryEntry[] = [];
+  private redoStack: IHistoryEntry[] = [];
+  private transaction: IHistoryEntry | null = null;
+  // Set while the events of an undo or redo are due, until the outermost
+  // batch of the map ends when it is applied inside one
+  private applying: boolean = false;
+  // Bytes kept by the undo and redo entries
+  private memory: number = 0;
+  // Copy of the map state, to know what a resize cuts off. Cells a resize
+  // adds past the final size of the map stay unknown until an event sets them.
+  private cells: Array<Array<IMapCell | undefined>>;
+  private heights: number[][];
+  private layerCells: Record<string, ILayerEntry> = {};
+  private features: Record<string, ICellFeature> = {};
+  private unsubscribeMap: () => void;
+
+  constructor(map: GameMap, options: IMapHistoryOptions = {}) {
+    this.map = map;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxMemory = options.maxMemory ?? Infinity;
+    this.cells = map.cells.map(row => [...row]);
+    this.heights = this.readHeights();
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        for (const { layer, cell } of map.getLayers(x, y).slice(1)) {
+          this.layerCells[`${layer}:${x},${y}`] = { layer, x, y, cell };
+        }
+      }
+    }
+    for (const feature of map.getFeatures()) {
+      this.features[feature.id] = feature;
+    }
+
+    this.unsubscribeMap = map.subscribe(events => this.record(events));
+  }
+
+  /**
+   * Check if there is an edit to undo
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Check if there is an undone edit to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Get the names of the entries that can be undone, the next one first
+   */
+  getUndoNames(): string[] {
+    return this.undoStack.map(entry => entry.name).reverse();
+  }
+
+  /**
+   * Get the names of the entries that can be redone, the next one first
+   */
+  getRedoNames(): string[] {
+    return this.redoStack.map(entry => entry.name).reverse();
+  }
+
+  /**
+   * Approximate memory kept by the undo and redo entries, in bytes
+   */
+  get memoryUsage(): number {
+    return this.memory;
+  }
+
+  /**
+   * Revert the last entry
+   * @returns False if there was nothing to undo
+   */
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+
+    this.apply([...entry.changes].reverse(), 'before');
+    this.redoStack.push(entry);
+    return true;
+  }
+
+  /**
+   * Reapply the last undone entry
+   * @returns False if there was nothing to redo
+   */
+  redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+
+    this.apply(entry.changes, 'after');
+    this.undoStack.push(entry);
+    return true;
+  }
+
+  /**
+   * Run several edits as a single named entry, published to map subscribers
+   * as a single notification. Edits made before an error are kept.
+   */
+  transact<T>(name: string, edits: () => T): T {
+    this.beginTransaction(name);
+    try {
+      return this.map.batch(edits);
+    } finally {
+      this.commitTransaction();
+    }
+  }
+
+  /**
+   * Start grouping every following edit into a single named entry, e.g.
+   * while the user drags a brush across the map
+   * @throws Error if a transaction is already open
+   */
+  beginTransaction(name: string): void {
+    if (this.transaction) {
+      throw new Error(
+        `Transaction ${this.transaction.name} is still open on map ${this.map.name}`
+      );
+    }
+    this.transaction = { name, changes: [], size: 0 };
+  }
+
+  /**
+   * Close the open transaction and record it as one entry
+   * @returns False if no transaction was open
+   */
+  commitTransaction(): boolean {
+    const transaction = this.transaction;
+    if (!transaction) return false;
+
+    this.transaction = null;
+    this.push(transaction);
+    return true;
+  }
+
+  /**
+   * Close the open transaction and revert its edits
+   * @returns False if no transaction was open
+   */
+  rollbackTransaction(): boolean {
+    const transaction = this.transaction;
+    if (!transaction) return false;
+
+    this.transaction = null;
+    this.apply([...transaction.changes].reverse(), 'before');
+    return true;
+  }
+
+  /**
+   * Forget every entry, the open transaction is kept
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.memory = 0;
+  }
+
+  /**
+   * Stop recording edits of the map
+   */
+  dispose(): void {
+    this.unsubscribeMap();
+  }
+
+  private record(events: MapEvent[]): void {
+    const changes: HistoryChange[] = [];
+
+    for (const event of events) {
+      const [x, y] = event.position;
+      switch (event.type) {
+        case 'terrainChanged':
+          this.cells[y]![x] = event.data.after;
+          changes.push({ type: 'terrain', x, y, ...event.data });
+          break;
+        case 'elevationChanged':
+          this.heights[y]![x] = event.data.after;
+          changes.push({ type: 'elevation', x, y, ...event.data });
+          break;
+        case 'layerChanged': {
+          const { layer, after } = event.data;
+          const key = `${layer}:${x},${y}`;
+          if (after) {
+            this.layerCells[key] = { layer, x, y, cell: after };
+          } else {
+            delete this.layerCells[key];
+          }
+          changes.push({ type: 'layer', x, y, ...event.data });
+          break;
+        }
+        case 'featureChanged': {
+          const { feature: id, before, after } = event.data;
+          if (after) {
+            this.features[id] = after;
+          } else {
+            delete this.features[id];
+          }
+          changes.push({ type: 'feature', id, before, after });
+          break;
+        }
+        case 'mapChanged': {
+          const { change, before, after } = event.data;
+          if (change !== 'resized' || !before || !after) break;
+          changes.push({
+            type: 'resize',
+            before,
+            after,
+            removed: this.crop(after),
+            removedLayers: this.cropLayers(after),
+            removedFeatures: this.cropFeatures(after),
+          });
+          break;
+        }
+      }
+    }
+
+    // Edits made by undo and redo are already in the history. Other edits
+    // batched together with them are published in the same notification and
+    // cannot be told apart, they are left out too.
+    if (this.applying) {
+      this.applying = this.map.isBatching();
+      return;
+    }
+    if (changes.length === 0) return;
+
+    const size = changes.reduce(
+      (total, change) => total + estimateSize(change),
+      0
+    );
+    if (this.transaction) {
+      this.transaction.changes.push(...changes);
+      this.transaction.size += size;
+      return;
+    }
+
+    this.push({ name: getEntryName(changes), changes, size });
+  }
+
+  /**
+   * Update the copy of the map after a resize. Batched events arrive once
+   * the batch is over, so the size comes from the event rather than the map.
+   * @returns The cells that no longer fit the map
+   */
+  private crop(size: { width: number; height: number }): Array<{
+    x: number;
+    y: number;
+    cell: IMapCell;
+    height: number;
+  }> {
+    const removed: Array<{
+      x: number;
+      y: number;
+      cell: IMapCell;
+      height: number;
+    }> = [];
+
+    this.cells.forEach((row, y) => {
+      row.forEach((cell, x) => {
+        if (cell && (x >= size.width || y >= size.height)) {
+          removed.push({ x, y, cell, height: this.heights[y]![x]! });
+        }
+      });
+    });
+
+    // Cells added by the resize are the map's new cells
+    const previous = { cells: this.cells, heights: this.heights };
+    this.cells = [];
+    this.heights = [];
+    for (let y = 0; y < size.height; y++) {
+      const cells: Array<IMapCell | undefined> = [];
+      const heights: number[] = [];
+      for (let x = 0; x < size.width; x++) {
+        const kept = x < (previous.cells[y]?.length ?? 0);
+        const onMap = x < this.map.width && y < this.map.height;
+        cells.push(kept ? previous.cells[y]![x] : this.map.cells[y]?.[x]);
+        heights.push(
+          kept
+            ? previous.heights[y]![x]!
+            : onMap
+              ? this.map.getElevation(x, y)!
+              : 0
+        );
+      }
+      this.cells.push(cells);
+      this.heights.push(heights);
+    }
+    return removed;
+  }
+
+  /**
+   * Update the copy of the layers after a resize
+   * @returns The layer cells that no longer fit the map
+   */
+  private cropLayers(size: { width: number; height: number }): ILayerEntry[] {
+    const removed: ILayerEntry[] = [];
+
+    for (const [key, entry] of Object.entries(this.layerCells)) {
+      if (entry.x >= size.width || entry.y >= size.height) {
+        removed.push(entry);
+        delete this.layerCells[key];
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Update the copy of the features after a resize
+   * @returns The features that no longer fit the map
+   */
+  private cropFeatures(size: {
+    width: number;
+    height: number;
+  }): ICellFeature[] {
+    const removed: ICellFeature[] = [];
+
+    for (const feature of Object.values(this.features)) {
+      if (feature.x >= size.width || feature.y >= size.height) {
+        removed.push(feature);
+        delete this.features[feature.id];
+      }
+    }
+    return removed;
+  }
+
+  private push(entry: IHistoryEntry): void {
+    if (entry.changes.length === 0) return;
+
+    this.undoStack.push(entry);
+    for (const undone of this.redoStack) {
+      this.memory -= undone.size;
+    }
+    this.redoStack = [];
+    this.memory += entry.size;
+
+    // Always keep the latest entry, even when it alone exceeds the limits
+    while (
+      this.undoStack.length > 1 &&
+      (this.undoStack.length > this.maxEntries ||
+        this.memoryUsage > this.maxMemory)
+    ) {
+      this.memory -= this.undoStack.shift()!.size;
+    }
+  }
+
+  /**
+   * Set the map to the state before or after each change, as one notification
+   */
+  private apply(changes: HistoryChange[], state: 'before' | 'after'): void {
+    this.applying = true;
+    try {
+      this.map.batch(() => {
+        for (const change of changes) {
+          switch (change.type) {
+            case 'terrain':
+              this.map.setCell(change.x, change.y, change[state]);
+              break;
+            case 'elevation':
+              this.map.setElevation(change.x, change.y, change[state]);
+              break;
+            case 'layer': {
+              const cell = change[state];
+              if (cell) {
+                this.map.setLayerTerrain(
+                  change.layer,
+                  change.x,
+                  change.y,
+                  cell.terrain,
+                  cell.properties
+                );
+              } else {
+                this.map.clearLayer(change.layer, change.x, change.y);
+              }
+              break;
+            }
+            case 'feature':
+              this.restoreFeature(change.id, change[state]);
+              break;
+            case 'resize': {
+              const { width, height } = change[state];
+              this.map.resize(width, height);
+              if (state === 'after') break;
+
+              for (const { x, y, cell, height: elevation } of change.removed) {
+                this.map.setCell(x, y, cell);
+                this.map.setElevation(x, y, elevation);
+              }
+              for (const { layer, x, y, cell } of change.removedLayers) {
+                this.map.setLayerTerrain(
+                  layer,
+                  x,
+                  y,
+                  cell.terrain,
+                  cell.properties
+                );
+              }
+              for (const feature of change.removedFeatures) {
+                this.restoreFeature(feature.id, feature);
+              }
+              break;
+            }
+          }
+        }
+      });
+    } finally {
+      // Inside an outer batch, the events only arrive once it ends
+      this.applying = this.map.isBatching();
+    }
+  }
+
+  /**
+   * Put a feature back as it was, with its state and hit points
+   */
+  private restoreFeature(id: string, feature: ICellFeature | null): void {
+    this.map.removeFeature(id);
+    if (feature) {
+      this.map.addFeature(id, feature.type, feature.x, feature.y, feature);
+    }
+  }
+
+  private readHeights(): number[][] {
+    return this.map.cells.map((row, y) =>
+      row.map((_, x) => this.map.getElevation(x, y) ?? 0)
+    );
+  }
+}
+
+/**
+ * Name of an entry recorded outside of a transaction, after the map method
+ * that most likely made it
+ */
+function getEntryName(changes: HistoryChange[]): string {
+  const types = new Set(changes.map(change => change.type));
+  if (types.size > 1) return 'batch';
+
+  const first = changes[0]!;
+  switch (first.type) {
+    case 'terrain':
+      return changes.length === 1 ? 'setTerrain' : 'batch';
+    case 'elevation':
+      return changes.length === 1 ? 'setElevation' : 'setHeightmap';
+    case 'layer':
+      if (changes.length > 1) return 'batch';
+      return first.after ? 'setLayerTerrain' : 'clearLayer';
+    case 'feature':
+      if (!first.before) return 'addFeature';
+      if (!first.after) return 'removeFeature';
+      if (first.before.hitPoints !== first.after.hitPoints) {
+        return 'damageFeature';
+      }
+      return changes.length === 1 ? 'setFeatureState' : 'triggerFeature';
+    case 'resize':
+      return 'resize';
+  }
+}
+
+/**
+ * Rough size of a change in memory, strings count two bytes per character
+ */
+function estimateSize(change: HistoryChange): number {
+  return JSON.stringify(change).length * 2;
+}
@@ -0,0 +1,188 @@
+import type { Map as GameMap } from './Map';
+import type {
+  IOccupant,
+  IStackingPolicy,
+  OccupancyResult,
+} from '../types/mapTypes';
+
+/**
+ * OccupancyLayer tracks which units stand on which cells of a map and
+ * enforces the stacking policy of the map and its terrain
+ */
+export class OccupancyLayer {
+  private map: GameMap;
+  private occupants: Record<string, IOccupant> = {};
+  private cellOccupants: Record<string, string[]> = {};
+
+  constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  /**
+   * Put a unit on the map
+   * @param faction Faction of the unit, used by allies-only stacking
+   */
+  placeUnit(
+    unitId: string,
+    x: number,
+    y: number,
+    faction?: string
+  ): OccupancyResult {
+    if (this.occupants[unitId]) {
+      return { success: false, reason: 'alreadyPlaced' };
+    }
+
+    const check = this.checkPlacement(x, y, faction, unitId);
+    if (!check.success) return check;
+
+    const tile = this.map.normalizePosition(x, y)!;
+    this.add({
+      unitId,
+      x: tile.x,
+      y: tile.y,
+      ...(faction !== undefined ? { faction } : {}),
+    });
+    return { success: true };
+  }
+
+  /**
+   * Move a unit already on the map to another cell
+   */
+  moveUnit(unitId: string, x: number, y: number): OccupancyResult {
+    const occupant = this.occupants[unitId];
+    if (!occupant) {
+      return { success: false, reason: 'notPlaced' };
+    }
+
+    const check = this.checkPlacement(x, y, occupant.faction, unitId);
+    if (!check.success) return check;
+
+    const tile = this.map.normalizePosition(x, y)!;
+    this.remove(unitId);
+    this.add({ ...occupant, x: tile.x, y: tile.y });
+    return { success: true };
+  }
+
+  /**
+   * Take a unit off the map
+   * @returns True if the unit was on the map
+   */
+  removeUnit(unitId: string): boolean {
+    return this.remove(unitId);
+  }
+
+  /**
+   * Check if a unit could stand on a cell, without moving it
+   * @param unitId A unit already on the map is not counted against itself
+   */
+  checkPlacement(
+    x: number,
+    y: number,
+    faction?: string,
+    unitId?: string
+  ): OccupancyResult {
+    const tile = this.map.normalizePosition(x, y);
+    const cell = tile ? this.map.getCell(tile.x, tile.y) : null;
+    if (!tile || !cell) {
+      return { success: false, reason: 'outOfBounds' };
+    }
+    if (this.map.getTerrainProperties(tile.x, tile.y)?.impassable) {
+      return { success: false, reason: 'impassable' };
+    }
+
+    const others = this.getOccupants(tile.x, tile.y).filter(
+      occupant => occupant.unitId !== unitId
+    );
+    const policy = this.getStackingPolicy(tile.x, tile.y);
+
+    if (others.length >= (policy.maxOccupants ?? 1)) {
+      return { success: false, reason: 'occupied' };
+    }
+    if (
+      policy.alliesOnly &&
+      others.some(
+        occupant => faction === undefined || occupant.faction !== faction
+      )
+    ) {
+      return { success: false, reason: 'hostileOccupant' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Get the stacking policy of a cell, terrain overrides the map default
+   */
+  getStackingPolicy(x: number, y: number): IStackingPolicy {
+    return (
+      this.map.getTerrainProperties(x, y)?.stacking ??
+      this.map.config.stacking ?? { maxOccupants: 1 }
+    );
+  }
+
+  /**
+   * Get the units standing on a cell
+   */
+  getOccupants(x: number, y: number): IOccupant[] {
+    const tile = this.map.normalizePosition(x, y);
+    if (!tile) return [];
+
+    return (this.cellOccupants[`${tile.x},${tile.y}`] ?? []).map(unitId => ({
+      ...this.occupants[unitId]!,
+    }));
+  }
+
+  /**
+   * Get where a unit stands
+   * @returns The unit's occupancy, or null if it is not on the map
+   */
+  getUnit(unitId: string): IOccupant | null {
+    const occupant = this.occupants[unitId];
+    return occupant ? { ...occupant } : null;
+  }
+
+  /**
+   * Get every unit on the map
+   */
+  getAll(): IOccupant[] {
+    return Object.values(this.occupants).map(occupant => ({ ...occupant }));
+  }
+
+  /**
+   * Drop units standing outside the map, used after the map shrinks
+   * @returns The removed units
+   */
+  removeOutOfBounds(): IOccupant[] {
+    const removed = Object.values(this.occupants).filter(
+      ({ x, y }) => x >= this.map.width || y >= this.map.height
+    );
+
+    for (const { unitId } of removed) {
+      this.remove(unitId);
+    }
+    return removed;
+  }
+
+  private add(occupant: IOccupant): void {
+    this.occupants[occupant.unitId] = occupant;
+    const key = `${occupant.x},${occupant.y}`;
+    (this.cellOccupants[key] ??= []).push(occupant.unitId);
+  }
+
+  private remove(unitId: string): boolean {
+    const occupant = this.occupants[unitId];
+    if (!occupant) return false;
+
+    delete this.occupants[unitId];
+    const key = `${occupant.x},${occupant.y}`;
+    const remaining = (this.cellOccupants[key] ?? []).filter(
+      id => id !== unitId
+    );
+    if (remaining.length > 0) {
+      this.cellOccupants[key] = remaining;
+    } else {
+      delete this.cellOccupants[key];
+    }
+    return true;
+  }
+}
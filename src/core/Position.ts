@@ -1,4 +1,6 @@
-import type { IMap, IPosition } from '../types/positionTypes';
+import type { IGridConfig, IMap, IPosition } from '../types/positionTypes';
+import { getHexLayout, hexDistance } from '../utils/hex';
+import { Topology } from './Topology';
 
 /**
  * Position class represents a coordinate in 2D or 3D space
@@ -46,8 +48,19 @@ export class Position implements IPosition {
 
   /**
    * Check if this position is adjacent to another position
+   * @param grid Grid both positions lie on, hexes have six neighbours and
+   * ignore allowDiagonal (default: square grid)
    */
-  isAdjacentTo(other: IPosition, allowDiagonal: boolean = true): boolean {
+  isAdjacentTo(
+    other: IPosition,
+    allowDiagonal: boolean = true,
+    grid?: IGridConfig
+  ): boolean {
+    const hexLayout = getHexLayout(grid);
+    if (hexLayout) {
+      return hexDistance(this, other, hexLayout) === 1;
+    }
+
     const dx = Math.abs(this.x - other.x);
     const dy = Math.abs(this.y - other.y);
 
@@ -76,24 +89,17 @@ export class Position implements IPosition {
   }
 
   /**
-   * Gets all positions adjacent to the given position within map bounds
+   * Gets all positions adjacent to the given position within map bounds,
+   * without diagonals
    * @param position - Center position
    * @param map - Map to check bounds against
    * @returns Array of adjacent positions
    */
   getAdjacentPositions(position: Position, map: IMap): Position[] {
-    const directions = [
-      { x: -1, y: 0 },
-      { x: 1, y: 0 },
-      { x: 0, y: -1 },
-      { x: 0, y: 1 },
-    ];
-
-    return directions
-      .map(
-        dir => ({ x: position.x + dir.x, y: position.y + dir.y }) as Position
-      )
-      .filter(pos => this.isPositionInBounds(pos, map));
+    // Wrapped edges and hex neighbours come from the map topology
+    return new Topology(map)
+      .getNeighbors(position.x, position.y, false)
+      .map(neighbor => new Position(neighbor.x, neighbor.y));
   }
 
   /**
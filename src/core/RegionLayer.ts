@@ -0,0 +1,296 @@
+import type { Map as GameMap } from './Map';
+import type { IPosition } from '../types/positionTypes';
+import type { IMapRegion, RegionShape } from '../types/mapTypes';
+
+// Region with the cells it covers on the current map
+interface IRegionEntry {
+  region: IMapRegion;
+  cells: IPosition[];
+}
+
+/**
+ * RegionLayer holds the named regions of a map. The cells of every region
+ * are computed when it is added, and again after a resize, so lookups by
+ * cell are a single access.
+ */
+export class RegionLayer {
+  private map: GameMap;
+  private regions: Record<string, IRegionEntry> = {};
+  // Names of the regions covering each "x,y"
+  private cellRegions: Record<string, string[]> = {};
+
+  constructor(map: GameMap) {
+    this.map = map;
+  }
+
+  get(name: string): IMapRegion | null {
+    return this.regions[name]?.region ?? null;
+  }
+
+  getAll(): IMapRegion[] {
+    return Object.values(this.regions).map(({ region }) => region);
+  }
+
+  /**
+   * Get the regions covering a normalized position, in the order they were
+   * added
+   */
+  getAt(x: number, y: number): IMapRegion[] {
+    return (this.cellRegions[`${x},${y}`] ?? []).map(
+      name => this.regions[name]!.region
+    );
+  }
+
+  /**
+   * Get the cells of a region on the map, row by row
+   */
+  getCells(name: string): IPosition[] {
+    return this.regions[name]?.cells ?? [];
+  }
+
+  /**
+   * Check if a region covers a normalized position
+   */
+  contains(name: string, x: number, y: number): boolean {
+    return this.cellRegions[`${x},${y}`]?.includes(name) ?? false;
+  }
+
+  /**
+   * @returns False if a region with the same name exists
+   * @throws Error if the shape is invalid
+   */
+  add(region: IMapRegion): boolean {
+    checkShape(region.name, region.shape);
+    if (this.regions[region.name]) {
+      return false;
+    }
+
+    this.index(copyRegion(region));
+    return true;
+  }
+
+  /**
+   * @returns The removed region, or null if there was none with the name
+   */
+  remove(name: string): IMapRegion | null {
+    const entry = this.regions[name];
+    if (!entry) return null;
+
+    delete this.regions[name];
+    for (const { x, y } of entry.cells) {
+      const key = `${x},${y}`;
+      const remaining = this.cellRegions[key]!.filter(other => other !== name);
+      if (remaining.length > 0) {
+        this.cellRegions[key] = remaining;
+      } else {
+        delete this.cellRegions[key];
+      }
+    }
+    return entry.region;
+  }
+
+  /**
+   * Compute the cells of every region again, after a resize
+   */
+  refresh(): void {
+    this.load(this.getAll());
+  }
+
+  /**
+   * Get copies of every region, or null when there is none
+   */
+  toJSON(): IMapRegion[] | null {
+    const regions = this.getAll();
+    return regions.length > 0 ? regions.map(copyRegion) : null;
+  }
+
+  /**
+   * Replace every region with the ones produced by toJSON
+   */
+  load(regions: IMapRegion[] | null): void {
+    this.regions = {};
+    this.cellRegions = {};
+
+    for (const region of regions ?? []) {
+      this.index(copyRegion(region));
+    }
+  }
+
+  private index(region: IMapRegion): void {
+    const cells = this.getShapeCells(region.shape);
+    this.regions[region.name] = { region, cells };
+    for (const { x, y } of cells) {
+      (this.cellRegions[`${x},${y}`] ??= []).push(region.name);
+    }
+  }
+
+  /**
+   * Cells covered by a shape, wrapped onto the map and without duplicates
+   */
+  private getShapeCells(shape: RegionShape): IPosition[] {
+    const candidates: IPosition[] = [];
+
+    switch (shape.type) {
+      case 'rectangle': {
+        const [minX, maxX] = this.clip(
+          shape.x,
+          shape.x + shape.width,
+          'x',
+          true
+        );
+        const [minY, maxY] = this.clip(
+          shape.y,
+          shape.y + shape.height,
+          'y',
+          true
+        );
+        for (let y = minY; y < maxY; y++) {
+          for (let x = minX; x < maxX; x++) {
+            candidates.push({ x, y });
+          }
+        }
+        break;
+      }
+      case 'polygon': {
+        const ys = shape.points.map(point => point.y);
+        const [minY, maxY] = this.clip(
+          Math.floor(Math.min(...ys)),
+          Math.ceil(Math.max(...ys)),
+          'y',
+          false
+        );
+        // Rows are filled span by span, so a span wider than a wrapping
+        // axis costs a single lap
+        for (let y = minY; y < maxY; y++) {
+          for (const [start, end] of getPolygonSpans(shape.points, y + 0.5)) {
+            const [minX, maxX] = this.clip(start, end, 'x', true);
+            for (let x = minX; x < maxX; x++) {
+              candidates.push({ x, y });
+            }
+          }
+        }
+        break;
+      }
+      case 'cells':
+        candidates.push(...shape.cells);
+        break;
+    }
+
+    const seen = new Set<string>();
+    const cells: IPosition[] = [];
+    for (const { x, y } of candidates) {
+      const tile = this.map.normalizePosition(x, y);
+      if (!tile || seen.has(`${tile.x},${tile.y}`)) continue;
+      seen.add(`${tile.x},${tile.y}`);
+      cells.push(tile);
+    }
+    return cells.sort((a, b) => a.y - b.y || a.x - b.x);
+  }
+
+  /**
+   * Limit a range of coordinates to the cells it can reach along an axis, so
+   * shapes far larger than the map stay cheap to index
+   * @param oneLap True if a single lap of a wrapping axis covers the shape
+   */
+  private clip(
+    min: number,
+    max: number,
+    axis: 'x' | 'y',
+    oneLap: boolean
+  ): [number, number] {
+    const { topology } = this.map;
+    const size = axis === 'x' ? this.map.width : this.map.height;
+    const wraps = axis === 'x' ? topology.wrapsX : topology.wrapsY;
+
+    if (!wraps) {
+      return [Math.max(min, 0), Math.min(max, size)];
+    }
+    return [min, oneLap ? Math.min(max, min + size) : max];
+  }
+}
+
+function checkShape(name: string, shape: RegionShape): void {
+  switch (shape.type) {
+    case 'rectangle':
+      if (
+        !Number.isInteger(shape.x) ||
+        !Number.isInteger(shape.y) ||
+        !Number.isInteger(shape.width) ||
+        !Number.isInteger(shape.height) ||
+        shape.width <= 0 ||
+        shape.height <= 0
+      ) {
+        throw new Error(
+          `Region ${name} must be a rectangle of integer coordinates with a positive size`
+        );
+      }
+      break;
+    case 'polygon':
+      if (shape.points.length < 3) {
+        throw new Error(
+          `Region ${name} must be a polygon of at least 3 points`
+        );
+      }
+      if (
+        !shape.points.every(
+          point => Number.isFinite(point.x) && Number.isFinite(point.y)
+        )
+      ) {
+        throw new Error(`Region ${name} must only hold finite points`);
+      }
+      break;
+    case 'cells':
+      if (
+        !shape.cells.every(
+          cell => Number.isInteger(cell.x) && Number.isInteger(cell.y)
+        )
+      ) {
+        throw new Error(`Region ${name} must only hold integer cells`);
+      }
+      break;
+  }
+}
+
+/**
+ * Columns of the cells whose center is inside a polygon, on the row whose
+ * centers lie at y. Even-odd rule: a center is inside when a ray from it
+ * crosses the edges an odd number of times.
+ * @returns The [start, end) column ranges, left to right
+ */
+function getPolygonSpans(
+  points: IPosition[],
+  y: number
+): Array<[number, number]> {
+  const crossings: number[] = [];
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i]!;
+    const b = points[j]!;
+    if (a.y > y !== b.y > y) {
+      crossings.push(((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x);
+    }
+  }
+  crossings.sort((a, b) => a - b);
+
+  // Centers from one crossing up to, not including, the next are inside
+  const spans: Array<[number, number]> = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    const start = Math.ceil(crossings[i]! - 0.5);
+    const end = Math.ceil(crossings[i + 1]! - 0.5);
+    if (start < end) spans.push([start, end]);
+  }
+  return spans;
+}
+
+function copyRegion(region: IMapRegion): IMapRegion {
+  const { shape } = region;
+  return {
+    name: region.name,
+    shape:
+      shape.type === 'rectangle'
+        ? { ...shape }
+        : shape.type === 'polygon'
+          ? { type: 'polygon', points: shape.points.map(p => ({ ...p })) }
+          : { type: 'cells', cells: shape.cells.map(c => ({ ...c })) },
+    tags: [...region.tags],
+  };
+}
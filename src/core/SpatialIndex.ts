@@ -0,0 +1,268 @@
+import type { IUnitPosition } from '@atsu/atago';
+import { Position } from './Position';
+
+/**
+ * SpatialIndex keeps unit positions bucketed by map and coordinate so that
+ * lookups cost time proportional to the result instead of the population.
+ * Positions are read when inserted or moved, call move after a unit's
+ * position changes.
+ */
+export class SpatialIndex<T extends IUnitPosition> {
+  private readonly bucketSize: number;
+  private entries: Map<string, { item: T; coordinateKey: string }> = new Map();
+  private byCoordinate: Map<string, Set<T>> = new Map();
+  private byBucket: Map<string, Set<T>> = new Map();
+  private byMap: Map<string, Set<T>> = new Map();
+  private collisions: Set<string> = new Set();
+
+  /**
+   * @param items Positions to index right away
+   * @param bucketSize Width and height in tiles of the buckets used by range
+   * queries (default: 8)
+   */
+  constructor(items: T[] = [], bucketSize: number = 8) {
+    if (bucketSize <= 0) {
+      throw new Error('Spatial index bucket size must be positive');
+    }
+    this.bucketSize = bucketSize;
+
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  /**
+   * Number of indexed positions
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add a position, replacing any position indexed for the same unit
+   */
+  insert(item: T): void {
+    this.remove(item.unitId);
+
+    const coordinateKey = this.getCoordinateKey(
+      item.mapId,
+      item.position.x,
+      item.position.y
+    );
+    this.entries.set(item.unitId, { item, coordinateKey });
+
+    const occupants = this.addToSet(this.byCoordinate, coordinateKey, item);
+    if (occupants.size > 1) this.collisions.add(coordinateKey);
+
+    this.addToSet(this.byBucket, this.getBucketKeyFor(item), item);
+    this.addToSet(this.byMap, item.mapId, item);
+  }
+
+  /**
+   * Re-index a position after its map or coordinates changed
+   */
+  move(item: T): void {
+    this.insert(item);
+  }
+
+  /**
+   * Remove the position of a unit
+   * @returns True if the unit was indexed
+   */
+  remove(unitOrId: T | string): boolean {
+    const unitId = typeof unitOrId === 'string' ? unitOrId : unitOrId.unitId;
+    const entry = this.entries.get(unitId);
+    if (!entry) return false;
+
+    const { item, coordinateKey } = entry;
+    this.entries.delete(unitId);
+
+    const occupants = this.removeFromSet(
+      this.byCoordinate,
+      coordinateKey,
+      item
+    );
+    if (occupants <= 1) this.collisions.delete(coordinateKey);
+
+    // The bucket is derived from the coordinates the item was indexed with
+    const [mapId, coordinates] = this.splitCoordinateKey(coordinateKey);
+    this.removeFromSet(
+      this.byBucket,
+      this.getBucketKey(mapId, coordinates.x, coordinates.y),
+      item
+    );
+    this.removeFromSet(this.byMap, mapId, item);
+    return true;
+  }
+
+  /**
+   * Check if a unit is indexed
+   */
+  has(unitId: string): boolean {
+    return this.entries.has(unitId);
+  }
+
+  /**
+   * Remove every indexed position
+   */
+  clear(): void {
+    this.entries.clear();
+    this.byCoordinate.clear();
+    this.byBucket.clear();
+    this.byMap.clear();
+    this.collisions.clear();
+  }
+
+  /**
+   * Get all positions at a map coordinate
+   */
+  getAt(mapId: string, x: number, y: number): T[] {
+    return [
+      ...(this.byCoordinate.get(this.getCoordinateKey(mapId, x, y)) ?? []),
+    ];
+  }
+
+  /**
+   * Get the first position indexed at a map coordinate
+   */
+  getFirstAt(mapId: string, x: number, y: number): T | undefined {
+    const occupants = this.byCoordinate.get(this.getCoordinateKey(mapId, x, y));
+    return occupants?.values().next().value;
+  }
+
+  /**
+   * Get all positions on a map
+   */
+  getInMap(mapId: string): T[] {
+    return [...(this.byMap.get(mapId) ?? [])];
+  }
+
+  /**
+   * Get all positions within a range of a reference position, excluding the
+   * reference unit itself
+   * @param useManhattanDistance Whether to use Manhattan distance (default: true)
+   */
+  getWithinRange(
+    referencePosition: IUnitPosition,
+    range: number,
+    useManhattanDistance: boolean = true
+  ): T[] {
+    const { mapId, position } = referencePosition;
+    const origin = new Position(position.x, position.y, position.z);
+    const results: T[] = [];
+
+    const onMap = this.byMap.get(mapId);
+    if (!onMap) return results;
+
+    const minBucketX = Math.floor((position.x - range) / this.bucketSize);
+    const maxBucketX = Math.floor((position.x + range) / this.bucketSize);
+    const minBucketY = Math.floor((position.y - range) / this.bucketSize);
+    const maxBucketY = Math.floor((position.y + range) / this.bucketSize);
+    const bucketCount =
+      (maxBucketX - minBucketX + 1) * (maxBucketY - minBucketY + 1);
+
+    // Large ranges would mostly visit empty buckets, scanning the map's
+    // positions is cheaper then, and ends for an infinite range too
+    const candidates: Iterable<T>[] = [];
+    if (bucketCount > onMap.size) {
+      candidates.push(onMap);
+    } else {
+      for (let by = minBucketY; by <= maxBucketY; by++) {
+        for (let bx = minBucketX; bx <= maxBucketX; bx++) {
+          const bucket = this.byBucket.get(`${mapId}:${bx},${by}`);
+          if (bucket) candidates.push(bucket);
+        }
+      }
+    }
+
+    for (const bucket of candidates) {
+      for (const item of bucket) {
+        if (item.unitId === referencePosition.unitId) continue;
+
+        const target = new Position(
+          item.position.x,
+          item.position.y,
+          item.position.z
+        );
+        const distance = useManhattanDistance
+          ? origin.manhattanDistanceTo(target)
+          : origin.distanceTo(target);
+        if (distance <= range) results.push(item);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get every coordinate holding more than one position
+   */
+  findCollisions(): Array<{
+    mapId: string;
+    x: number;
+    y: number;
+    positions: T[];
+  }> {
+    return [...this.collisions].map(coordinateKey => {
+      const [mapId, { x, y }] = this.splitCoordinateKey(coordinateKey);
+      return {
+        mapId,
+        x,
+        y,
+        positions: [...this.byCoordinate.get(coordinateKey)!],
+      };
+    });
+  }
+
+  private getCoordinateKey(mapId: string, x: number, y: number): string {
+    return `${mapId}:${x},${y}`;
+  }
+
+  private splitCoordinateKey(
+    coordinateKey: string
+  ): [string, { x: number; y: number }] {
+    // Map ids may contain ':' so split on the last one
+    const separator = coordinateKey.lastIndexOf(':');
+    const [x, y] = coordinateKey
+      .slice(separator + 1)
+      .split(',')
+      .map(Number);
+    return [coordinateKey.slice(0, separator), { x: x!, y: y! }];
+  }
+
+  private getBucketKey(mapId: string, x: number, y: number): string {
+    const bx = Math.floor(x / this.bucketSize);
+    const by = Math.floor(y / this.bucketSize);
+    return `${mapId}:${bx},${by}`;
+  }
+
+  private getBucketKeyFor(item: T): string {
+    return this.getBucketKey(item.mapId, item.position.x, item.position.y);
+  }
+
+  private addToSet(index: Map<string, Set<T>>, key: string, item: T): Set<T> {
+    let set = index.get(key);
+    if (!set) {
+      set = new Set();
+      index.set(key, set);
+    }
+    set.add(item);
+    return set;
+  }
+
+  /**
+   * @returns The number of items left under the key
+   */
+  private removeFromSet(
+    index: Map<string, Set<T>>,
+    key: string,
+    item: T
+  ): number {
+    const set = index.get(key);
+    if (!set) return 0;
+
+    set.delete(item);
+    if (set.size === 0) index.delete(key);
+    return set.size;
+  }
+}
@@ -0,0 +1,212 @@
+import type {
+  IMapConfig,
+  IRegisteredTerrain,
+  ITerrainDefinition,
+  ITerrainProperties,
+  TerrainType,
+} from '../types/mapTypes';
+
+/**
+ * TerrainRegistry holds the terrain types known to a map or world, with their
+ * default properties, display metadata and tags
+ */
+export class TerrainRegistry {
+  private definitions: Record<TerrainType, ITerrainDefinition> = {};
+
+  /**
+   * Registry used by maps without a registry of their own. It is shared by
+   * every such map and world, so terrain registered on it is seen by all of
+   * them; attach a registry from createDefault() to keep changes local.
+   */
+  static readonly default: TerrainRegistry = TerrainRegistry.createDefault();
+
+  /**
+   * Create a registry containing the built-in terrain types
+   */
+  static createDefault(): TerrainRegistry {
+    const registry = new TerrainRegistry();
+
+    registry.register('grass', {
+      properties: { movementCost: 1.0 },
+      tags: ['vegetation'],
+    });
+    registry.register('water', {
+      properties: { movementCost: 2.0, impassable: true }, // Units can't move through water
+      tags: ['liquid'],
+    });
+    registry.register('mountain', { properties: { movementCost: 3.0 } });
+    registry.register('forest', {
+      properties: { movementCost: 1.5, visibilityModifier: 0.7 },
+      tags: ['vegetation'],
+    });
+    registry.register('desert', { properties: { movementCost: 1.2 } });
+    registry.register('road', { properties: { movementCost: 0.8 } });
+    registry.register('plains', {
+      properties: { movementCost: 1.0 },
+      tags: ['vegetation'],
+    });
+    registry.register('swamp', {
+      properties: { movementCost: 2.5 },
+      tags: ['liquid', 'vegetation'],
+    });
+    registry.register('snow', { properties: { movementCost: 1.3 } });
+    registry.register('sand', { properties: { movementCost: 1.4 } });
+    registry.register('floor', { properties: { movementCost: 1.0 } });
+    registry.register('wall', {
+      properties: { movementCost: 1.0, impassable: true, opaque: true },
+    });
+    registry.register('door', { properties: { movementCost: 1.0 } });
+
+    return registry;
+  }
+
+  /**
+   * Register or replace a terrain type
+   * @throws Error if the base terrain is unknown or inheritance would loop
+   */
+  register(type: TerrainType, definition: ITerrainDefinition = {}): void {
+    const base = definition.extends;
+    if (base !== undefined) {
+      if (!this.has(base)) {
+        throw new Error(
+          `Cannot register terrain ${type}: base terrain ${base} is not registered`
+        );
+      }
+
+      for (
+        let ancestor: TerrainType | undefined = base;
+        ancestor !== undefined;
+        ancestor = this.definitions[ancestor]?.extends
+      ) {
+        if (ancestor === type) {
+          throw new Error(
+            `Cannot register terrain ${type}: it would inherit from itself`
+          );
+        }
+      }
+    }
+
+    this.definitions[type] = {
+      ...definition,
+      ...(definition.tags ? { tags: [...definition.tags] } : {}),
+    };
+  }
+
+  /**
+   * Check if a terrain type is registered
+   */
+  has(type: TerrainType): boolean {
+    return Object.prototype.hasOwnProperty.call(this.definitions, type);
+  }
+
+  /**
+   * Report a terrain type missing from the registry, following the
+   * strictTerrain setting of a map
+   * @throws Error if the terrain is missing and strictTerrain is 'throw'
+   */
+  check(
+    type: TerrainType,
+    mapName: string,
+    strictTerrain: IMapConfig['strictTerrain']
+  ): void {
+    if (!strictTerrain || this.has(type)) {
+      return;
+    }
+
+    const message = `Terrain ${type} is not registered for map ${mapName}`;
+    if (strictTerrain === 'throw') {
+      throw new Error(message);
+    }
+    console.warn(message);
+  }
+
+  /**
+   * Get a terrain type with its inherited properties, display and tags
+   * @returns The resolved terrain, or null if it is not registered
+   */
+  get(type: TerrainType): IRegisteredTerrain | null {
+    if (!this.has(type)) {
+      return null;
+    }
+
+    // Walk from the root ancestor down so closer definitions win
+    const chain: ITerrainDefinition[] = [];
+    for (
+      let current: TerrainType | undefined = type;
+      current !== undefined;
+      current = this.definitions[current]?.extends
+    ) {
+      chain.unshift(this.definitions[current]!);
+    }
+
+    const resolved: IRegisteredTerrain = {
+      type,
+      base: this.definitions[type]!.extends ?? null,
+      properties: { movementCost: 1.0 },
+      display: {},
+      tags: [],
+    };
+
+    for (const definition of chain) {
+      Object.assign(resolved.properties, definition.properties);
+      Object.assign(resolved.display, definition.display);
+      for (const tag of definition.tags ?? []) {
+        if (!resolved.tags.includes(tag)) resolved.tags.push(tag);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Get a fresh copy of the default properties of a terrain type
+   * @returns The properties, or null if the terrain is not registered
+   */
+  getProperties(type: TerrainType): ITerrainProperties | null {
+    return this.get(type)?.properties ?? null;
+  }
+
+  /**
+   * Check if a terrain type carries a tag, directly or through its base
+   */
+  hasTag(type: TerrainType, tag: string): boolean {
+    return this.get(type)?.tags.includes(tag) ?? false;
+  }
+
+  /**
+   * Get every registered terrain type carrying a tag
+   */
+  getByTag(tag: string): TerrainType[] {
+    return this.getTypes().filter(type => this.hasTag(type, tag));
+  }
+
+  /**
+   * Get every registered terrain type
+   */
+  getTypes(): TerrainType[] {
+    return Object.keys(this.definitions);
+  }
+
+  /**
+   * Remove a terrain type
+   * @returns True if it was registered
+   * @throws Error if other terrain types still extend it
+   */
+  unregister(type: TerrainType): boolean {
+    if (!this.has(type)) {
+      return false;
+    }
+
+    const dependents = this.getTypes().filter(
+      other => this.definitions[other]!.extends === type
+    );
+    if (dependents.length > 0) {
+      throw new Error(
+        `Cannot unregister terrain ${type}: ${dependents.join(', ')} extend it`
+      );
+    }
+
+    delete this.definitions[type];
+    return true;
+  }
+}
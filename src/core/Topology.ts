@@ -0,0 +1,261 @@
+import type {
+  DistanceMetric,
+  IHexLayout,
+  IMap,
+  IPosition,
+  TopologyType,
+} from '../types/positionTypes';
+import { getHexLayout, getHexNeighbors, hexDistance } from '../utils/hex';
+
+const ORTHOGONAL_DIRECTIONS = [
+  { dx: -1, dy: 0 },
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: -1 },
+  { dx: 0, dy: 1 },
+];
+
+const DIAGONAL_DIRECTIONS = [
+  { dx: -1, dy: -1 },
+  { dx: -1, dy: 1 },
+  { dx: 1, dy: -1 },
+  { dx: 1, dy: 1 },
+];
+
+/**
+ * Topology describes how the positions of a map connect: which edges wrap
+ * around and which grid the cells lie on. It reads the size and config of
+ * its map on every call, so it stays valid after resizes and config changes.
+ * Vertically wrapped pointy hex maps (and horizontally wrapped flat ones)
+ * need an even size along the wrapped axis for neighbours to line up.
+ */
+export class Topology {
+  private map: Pick<IMap, 'width' | 'height' | 'config'>;
+
+  constructor(map: Pick<IMap, 'width' | 'height' | 'config'>) {
+    this.map = map;
+  }
+
+  /**
+   * Which edges of the map wrap, from config.topology or else config.wrapEdges
+   */
+  get type(): TopologyType {
+    const config = this.map.config;
+    return config?.topology ?? (config?.wrapEdges ? 'torus' : 'bounded');
+  }
+
+  /**
+   * Whether moving past the left or right edge wraps to the other side
+   */
+  get wrapsX(): boolean {
+    return this.type === 'wrapX' || this.type === 'torus';
+  }
+
+  /**
+   * Whether moving past the top or bottom edge wraps to the other side
+   */
+  get wrapsY(): boolean {
+    return this.type === 'wrapY' || this.type === 'torus';
+  }
+
+  /**
+   * Hex layout of the map, or null on square grids
+   */
+  get hexLayout(): IHexLayout | null {
+    return getHexLayout(this.map.config?.grid);
+  }
+
+  /**
+   * Check if a position refers to a cell, any coordinate is valid along a
+   * wrapped or endless axis
+   */
+  contains(x: number, y: number): boolean {
+    const { width, height } = this.map;
+    const validX = this.wrapsX || width === Infinity || (x >= 0 && x < width);
+    const validY = this.wrapsY || height === Infinity || (y >= 0 && y < height);
+    return validX && validY;
+  }
+
+  /**
+   * Get the in-bounds coordinates of a position, wrapping them along wrapped axes
+   * @returns The normalized coordinates, or null if the position is off the map
+   */
+  normalize(x: number, y: number): { x: number; y: number } | null {
+    if (!this.contains(x, y)) {
+      return null;
+    }
+
+    return {
+      x: this.wrapsX ? wrap(x, this.map.width) : x,
+      y: this.wrapsY ? wrap(y, this.map.height) : y,
+    };
+  }
+
+  /**
+   * Get the copies of a position repeated across every wrapped seam,
+   * the position itself first
+   */
+  getImages(position: IPosition): IPosition[] {
+    const xShifts = this.wrapsX ? [0, -this.map.width, this.map.width] : [0];
+    const yShifts = this.wrapsY ? [0, -this.map.height, this.map.height] : [0];
+
+    return yShifts.flatMap(dy =>
+      xShifts.map(dx => ({
+        ...position,
+        x: position.x + dx,
+        y: position.y + dy,
+      }))
+    );
+  }
+
+  /**
+   * Get the copy of a target position closest to an origin, which may lie
+   * outside the map when the shortest way crosses a seam
+   */
+  getClosestImage(
+    from: IPosition,
+    to: IPosition,
+    metric: DistanceMetric = 'manhattan'
+  ): IPosition {
+    let closest = to;
+    let closestDistance = Infinity;
+
+    for (const image of this.getImages(to)) {
+      const distance = this.directDistance(from, image, metric);
+      if (distance < closestDistance) {
+        closest = image;
+        closestDistance = distance;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Get the distance between two positions, the shorter way around wrapped
+   * seams. The z coordinate counts when both positions have one, except on
+   * hex grids which count hex steps.
+   * @param metric Distance measure on square grids (default: manhattan)
+   */
+  distance(
+    from: IPosition,
+    to: IPosition,
+    metric: DistanceMetric = 'manhattan'
+  ): number {
+    const image = this.getClosestImage(from, to, metric);
+    return this.directDistance(from, image, metric);
+  }
+
+  /**
+   * Get the normalized positions adjacent to a position. Hex grids always
+   * return their six neighbours.
+   * @param includeDiagonals Whether to include diagonal positions on square
+   * grids (default: true)
+   */
+  getNeighbors(
+    x: number,
+    y: number,
+    includeDiagonals: boolean = true
+  ): Array<{ x: number; y: number }> {
+    const hexLayout = this.hexLayout;
+    const candidates = hexLayout
+      ? getHexNeighbors({ x, y }, hexLayout)
+      : (includeDiagonals
+          ? [...ORTHOGONAL_DIRECTIONS, ...DIAGONAL_DIRECTIONS]
+          : ORTHOGONAL_DIRECTIONS
+        ).map(({ dx, dy }) => ({ x: x + dx, y: y + dy }));
+
+    const neighbors: Array<{ x: number; y: number }> = [];
+    const seen = new Set<string>();
+
+    for (const candidate of candidates) {
+      const tile = this.normalize(candidate.x, candidate.y);
+      // Tiny wrapped maps can reach the same cell from several sides
+      if (!tile || seen.has(`${tile.x},${tile.y}`)) continue;
+
+      seen.add(`${tile.x},${tile.y}`);
+      neighbors.push(tile);
+    }
+
+    return neighbors;
+  }
+
+  /**
+   * Check if two positions are adjacent, across wrapped seams
+   * @param allowDiagonal Whether diagonal positions count on square grids
+   * (default: true)
+   */
+  isAdjacent(
+    from: IPosition,
+    to: IPosition,
+    allowDiagonal: boolean = true
+  ): boolean {
+    const metric = allowDiagonal ? 'chebyshev' : 'manhattan';
+    const image = this.getClosestImage(from, to, metric);
+    const planar = { x: image.x, y: image.y };
+    return this.directDistance({ x: from.x, y: from.y }, planar, metric) === 1;
+  }
+
+  /**
+   * Get the normalized positions within a distance of a center, the center
+   * included
+   * @param metric Distance measure on square grids (default: manhattan)
+   */
+  getWithinRange(
+    center: IPosition,
+    range: number,
+    metric: DistanceMetric = 'manhattan'
+  ): Array<{ x: number; y: number }> {
+    const positions: Array<{ x: number; y: number }> = [];
+    const seen = new Set<string>();
+    const reach = Math.floor(range);
+    const origin = { x: center.x, y: center.y };
+
+    for (let dy = -reach; dy <= reach; dy++) {
+      for (let dx = -reach; dx <= reach; dx++) {
+        const target = { x: center.x + dx, y: center.y + dy };
+        if (this.directDistance(origin, target, metric) > range) continue;
+
+        const tile = this.normalize(target.x, target.y);
+        if (!tile || seen.has(`${tile.x},${tile.y}`)) continue;
+
+        seen.add(`${tile.x},${tile.y}`);
+        positions.push(tile);
+      }
+    }
+
+    return positions;
+  }
+
+  /**
+   * Distance between two positions without crossing any seam
+   */
+  private directDistance(
+    from: IPosition,
+    to: IPosition,
+    metric: DistanceMetric
+  ): number {
+    const hexLayout = this.hexLayout;
+    if (hexLayout) {
+      return hexDistance(from, to, hexLayout);
+    }
+
+    const dx = Math.abs(from.x - to.x);
+    const dy = Math.abs(from.y - to.y);
+    const dz =
+      from.z !== undefined && to.z !== undefined ? Math.abs(from.z - to.z) : 0;
+
+    switch (metric) {
+      case 'euclidean':
+        return Math.sqrt(dx * dx + dy * dy + dz * dz);
+      case 'chebyshev':
+        return Math.max(dx, dy, dz);
+      case 'manhattan':
+      default:
+        return dx + dy + dz;
+    }
+  }
+}
+
+function wrap(coord: number, size: number): number {
+  return ((coord % size) + size) % size;
+}
@@ -1,10 +1,36 @@
 import { Map as GameMap } from './Map';
+import { MapEventEmitter } from './MapEventEmitter';
+import { TerrainRegistry } from './TerrainRegistry';
+import {
+  MapSerializationError,
+  WORLD_SCHEMA_VERSION,
+  readSerializedWorld,
+} from '../utils/mapSerialization';
+import type {
+  IEdgeLinkOptions,
+  IMapPosition,
+  IPortal,
+  ISerializedPortal,
+  ISerializedWorld,
+  MapChangeKind,
+  MapEdge,
+  MapEvent,
+  MapEventListener,
+} from '../types/mapTypes';
 
 /**
  * World class manages multiple maps
  */
 export class World {
   private maps: GameMap[] = [];
+  private events: MapEventEmitter = new MapEventEmitter();
+  private mapSubscriptions: Record<string, () => void> = {};
+  private terrainRegistry: TerrainRegistry | null = null;
+  // Registry of each map before it joined, restored when it leaves
+  private mapRegistries: Record<string, TerrainRegistry> = {};
+  private portals: Record<string, IPortal> = {};
+  // Ids of the portals usable from each "mapId:x,y" cell
+  private portalsByCell: Record<string, string[]> = {};
 
   constructor() {
     // Initialize the world
@@ -20,6 +46,16 @@ export class World {
     }
 
     this.maps.push(map);
+    this.mapRegistries[map.name] = map.getTerrainRegistry();
+    if (this.terrainRegistry) {
+      map.setTerrainRegistry(this.terrainRegistry);
+    }
+
+    // Forward the map's own events to world subscribers
+    this.mapSubscriptions[map.name] = map.subscribe(events =>
+      this.events.emitAll(events)
+    );
+    this.events.emit(this.createMapChangedEvent(map, 'added'));
     return true;
   }
 
@@ -43,7 +79,14 @@ export class World {
       return false;
     }
 
-    this.maps.splice(index, 1);
+    const [map] = this.maps.splice(index, 1);
+    this.detachMap(map!);
+    for (const portal of Object.values(this.portals)) {
+      if (portal.from.mapId === name || portal.to.mapId === name) {
+        this.removePortal(portal.id);
+      }
+    }
+    this.events.emit(this.createMapChangedEvent(map!, 'removed'));
     return true;
   }
 
@@ -58,6 +101,322 @@ export class World {
    * Clear the world of all maps
    */
   clear(): void {
+    const removed = this.maps;
     this.maps = [];
+    this.portals = {};
+    this.portalsByCell = {};
+
+    for (const map of removed) {
+      this.detachMap(map);
+    }
+    this.events.emitAll(
+      removed.map(map => this.createMapChangedEvent(map, 'cleared'))
+    );
+  }
+
+  /**
+   * Add a portal linking a cell of a map to a cell of another (or the same) map
+   * @returns False if a portal with the same id already exists
+   * @throws Error when an endpoint is not a cell of a map in the world
+   */
+  addPortal(portal: IPortal): boolean {
+    if (this.portals[portal.id]) {
+      return false;
+    }
+
+    const from = this.normalizeMapPosition(portal.from);
+    const to = this.normalizeMapPosition(portal.to);
+    this.portals[portal.id] = { ...portal, from, to };
+    this.indexPortal(portal.id, from);
+    if (portal.bidirectional) {
+      this.indexPortal(portal.id, to);
+    }
+    return true;
+  }
+
+  /**
+   * Remove a portal by id
+   */
+  removePortal(id: string): boolean {
+    const portal = this.portals[id];
+    if (!portal) {
+      return false;
+    }
+
+    delete this.portals[id];
+    for (const endpoint of [portal.from, portal.to]) {
+      const key = getPortalCellKey(endpoint);
+      const ids = this.portalsByCell[key]?.filter(other => other !== id);
+      if (ids?.length) {
+        this.portalsByCell[key] = ids;
+      } else {
+        delete this.portalsByCell[key];
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Get a portal by id
+   */
+  getPortal(id: string): IPortal | null {
+    return this.portals[id] ?? null;
+  }
+
+  /**
+   * Get all portals in the world
+   */
+  getPortals(): IPortal[] {
+    return Object.values(this.portals);
+  }
+
+  /**
+   * Get the portals that can be entered from a cell, bidirectional portals
+   * are returned from both of their ends
+   */
+  getPortalsAt(mapId: string, x: number, y: number): IPortal[] {
+    const map = this.maps.find(map => map.name === mapId);
+    const tile = map?.normalizePosition(x, y);
+    if (!tile) {
+      return [];
+    }
+
+    const ids = this.portalsByCell[getPortalCellKey({ mapId, position: tile })];
+    return (ids ?? []).map(id => this.portals[id]!);
+  }
+
+  /**
+   * Link an edge of a map to the opposite edge of another map with one
+   * portal per cell, so walking off the edge continues on the other map.
+   * Cells are paired by row (east/west) or column (north/south), edges of
+   * different lengths only link their common part.
+   * @param options Portal cost and direction (default: bidirectional)
+   * @returns The created portals
+   */
+  linkEdges(
+    fromMapId: string,
+    edge: MapEdge,
+    toMapId: string,
+    options: IEdgeLinkOptions = {}
+  ): IPortal[] {
+    const fromMap = this.getMap(fromMapId);
+    const toMap = this.getMap(toMapId);
+    const horizontal = edge === 'east' || edge === 'west';
+    const length = horizontal
+      ? Math.min(fromMap.height, toMap.height)
+      : Math.min(fromMap.width, toMap.width);
+
+    const created: IPortal[] = [];
+    for (let i = 0; i < length; i++) {
+      const [from, to] = getEdgeCells(edge, i, fromMap, toMap);
+      const portal: IPortal = {
+        id: `${fromMapId}:${edge}:${toMapId}:${i}`,
+        from: { mapId: fromMapId, position: from },
+        to: { mapId: toMapId, position: to },
+        bidirectional: options.bidirectional ?? true,
+        ...(options.cost !== undefined ? { cost: options.cost } : {}),
+      };
+      if (this.addPortal(portal)) {
+        created.push(this.portals[portal.id]!);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Attach a terrain registry to the world, it is shared by every map already
+   * in the world and every map added later
+   */
+  setTerrainRegistry(registry: TerrainRegistry): void {
+    this.terrainRegistry = registry;
+    for (const map of this.maps) {
+      map.setTerrainRegistry(registry);
+    }
+  }
+
+  /**
+   * Get the terrain registry shared by the maps of this world, the global
+   * TerrainRegistry.default until one is attached
+   */
+  getTerrainRegistry(): TerrainRegistry {
+    return this.terrainRegistry ?? TerrainRegistry.default;
+  }
+
+  /**
+   * Serialize the world and all of its maps
+   */
+  toJSON(): ISerializedWorld {
+    const portals = this.getPortals().map(serializePortal);
+    return {
+      version: WORLD_SCHEMA_VERSION,
+      maps: this.maps.map(map => map.toJSON()),
+      ...(portals.length > 0 ? { portals } : {}),
+    };
+  }
+
+  /**
+   * Create a world from data produced by toJSON, migrating older versions
+   * @throws MapSerializationError when the data is invalid
+   */
+  static fromJSON(data: unknown): World {
+    const serialized = readSerializedWorld(data);
+    const world = new World();
+
+    for (const map of serialized.maps) {
+      if (!world.addMap(GameMap.fromJSON(map))) {
+        throw new MapSerializationError(
+          `world.maps contains a duplicate map name "${map.name}"`,
+          'world.maps'
+        );
+      }
+    }
+
+    serialized.portals?.forEach((portal, i) => {
+      let added: boolean;
+      try {
+        added = world.addPortal(portal);
+      } catch (error) {
+        throw new MapSerializationError(
+          `world.portals[${i}]: ${(error as Error).message}`,
+          `world.portals[${i}]`
+        );
+      }
+      if (!added) {
+        throw new MapSerializationError(
+          `world.portals contains a duplicate portal id "${portal.id}"`,
+          'world.portals'
+        );
+      }
+    });
+
+    return world;
+  }
+
+  /**
+   * Subscribe to map additions and removals, and to events of every map in
+   * the world
+   * @returns A function that removes the subscription
+   */
+  subscribe(listener: MapEventListener): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  /**
+   * Remove a subscription made with subscribe
+   * @returns True if the listener was subscribed
+   */
+  unsubscribe(listener: MapEventListener): boolean {
+    return this.events.unsubscribe(listener);
+  }
+
+  /**
+   * Run several world or map edits and publish their events as a single
+   * notification to world subscribers
+   */
+  batch<T>(edits: () => T): T {
+    return this.events.batch(edits);
+  }
+
+  /**
+   * Stop forwarding events of a map that left the world
+   */
+  private detachMap(map: GameMap): void {
+    this.mapSubscriptions[map.name]?.();
+    delete this.mapSubscriptions[map.name];
+
+    // Maps leaving the world get back the registry they had before
+    const previous = this.mapRegistries[map.name]!;
+    delete this.mapRegistries[map.name];
+    if (
+      this.terrainRegistry &&
+      map.getTerrainRegistry() === this.terrainRegistry
+    ) {
+      map.setTerrainRegistry(
+        previous === TerrainRegistry.default ? null : previous
+      );
+    }
+  }
+
+  /**
+   * Resolve a portal endpoint to a normalized cell of a map in the world
+   */
+  private normalizeMapPosition(endpoint: IMapPosition): IMapPosition {
+    const map = this.getMap(endpoint.mapId);
+    const { x, y } = endpoint.position;
+    const tile = map.normalizePosition(x, y);
+    if (!tile) {
+      throw new Error(`Position (${x}, ${y}) is outside map ${map.name}`);
+    }
+    return { mapId: endpoint.mapId, position: tile };
+  }
+
+  private indexPortal(id: string, endpoint: IMapPosition): void {
+    const key = getPortalCellKey(endpoint);
+    const ids = (this.portalsByCell[key] ??= []);
+    if (!ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+
+  private createMapChangedEvent(map: GameMap, change: MapChangeKind): MapEvent {
+    const size = { width: map.width, height: map.height };
+    return {
+      type: 'mapChanged',
+      mapId: map.name,
+      position: [0, 0],
+      data: {
+        change,
+        before: change === 'added' ? null : size,
+        after: change === 'added' ? size : null,
+      },
+    };
+  }
+}
+
+/**
+ * Copy of a portal without its condition, functions cannot be serialized
+ */
+function serializePortal(portal: IPortal): ISerializedPortal {
+  const serialized: ISerializedPortal = { ...portal };
+  delete (serialized as IPortal).condition;
+  return serialized;
+}
+
+function getPortalCellKey({ mapId, position }: IMapPosition): string {
+  return `${mapId}:${position.x},${position.y}`;
+}
+
+/**
+ * Cells paired by linkEdges: the i-th cell of an edge and the matching cell
+ * on the opposite edge of the other map
+ */
+function getEdgeCells(
+  edge: MapEdge,
+  i: number,
+  fromMap: GameMap,
+  toMap: GameMap
+): [{ x: number; y: number }, { x: number; y: number }] {
+  switch (edge) {
+    case 'east':
+      return [
+        { x: fromMap.width - 1, y: i },
+        { x: 0, y: i },
+      ];
+    case 'west':
+      return [
+        { x: 0, y: i },
+        { x: toMap.width - 1, y: i },
+      ];
+    case 'north':
+      return [
+        { x: i, y: 0 },
+        { x: i, y: toMap.height - 1 },
+      ];
+    case 'south':
+      return [
+        { x: i, y: fromMap.height - 1 },
+        { x: i, y: 0 },
+      ];
   }
 }
@@ -4,10 +4,32 @@
 export { Map } from './core/Map';
 export { Position } from './core/Position';
 export { World } from './core/World';
+export { FogOfWar } from './core/FogOfWar';
+export { TerrainRegistry } from './core/TerrainRegistry';
+export { SpatialIndex } from './core/SpatialIndex';
+export { Topology } from './core/Topology';
+export { MapHistory } from './core/MapHistory';
+export { ChunkedMap } from './core/ChunkedMap';
+export { FlowField } from './core/FlowField';
 
 // Utility functions
 export * from './utils/unitPositions';
+export * from './utils/pathfinding';
+export * from './utils/movementRange';
+export * from './utils/worldPathfinding';
+export * from './utils/visibility';
+export * from './utils/areaOfEffect';
+export * from './utils/mapSerialization';
+export * from './utils/mapDiff';
+export * from './utils/tiled';
+export * from './utils/ascii';
+export * from './utils/hex';
+export * from './utils/random';
+export * from './utils/noise';
+export * from './utils/terrainGeneration';
+export * from './utils/dungeon';
 
 // Types
 export type * from './types/mapTypes';
-export type * from './types/positionTypes';
\ No newline at end of file
+export type * from './types/positionTypes';
+export type * from './types/tiledTypes';
@@ -2,29 +2,707 @@
  * Map-specific Types
  */
 
+import type { IUnitPosition } from '@atsu/atago';
+import type { Map } from '../core/Map';
+import type { Topology } from '../core/Topology';
+import type {
+  DistanceMetric,
+  IGridConfig,
+  IMapCell,
+  IPosition,
+  IStackingPolicy,
+  ITerrainProperties,
+  TerrainType,
+  TopologyType,
+} from './positionTypes';
+
 export * from './positionTypes';
 
 // Pathfinding options
 export interface IPathfindingOptions {
   allowDiagonal?: boolean;
-  heuristic?: 'manhattan' | 'euclidean' | 'chebyshev';
+  heuristic?: DistanceMetric;
+  heuristicScale?: number; // Cost of a heuristic step, default: the lowest movement cost of the map
+  maxCost?: number; // Paths costing more are not searched, default: unlimited, on endless maps twice the estimated cost plus 32 steps
+  unitId?: string; // Unit moving, cells it cannot share with map occupants are avoided, only on maps holding units
+}
+
+// Reasons a path could not be produced
+export type PathFailureReason = 'invalidStart' | 'invalidGoal' | 'unreachable';
+
+// Successful pathfinding result, path includes both start and goal tiles
+export interface IPathFound {
+  found: true;
+  path: IPosition[];
+  cost: number;
+}
+
+export interface IPathNotFound {
+  found: false;
+  reason: PathFailureReason;
+}
+
+export type PathResult = IPathFound | IPathNotFound;
+
+// How tiles occupied by other units affect a movement range
+export type OccupiedTileRule = 'blocking' | 'passThrough';
+
+// Movement range options
+export interface IMovementRangeOptions {
+  allowDiagonal?: boolean;
+  occupants?: IUnitPosition[]; // Units standing on the map
+  occupiedTiles?: OccupiedTileRule; // Default: 'blocking'
+  movingUnitId?: string; // Unit whose range is computed, never blocks itself; the map's occupants follow occupiedTiles
+}
+
+// A tile reachable within a movement budget
+export interface IReachableTile {
+  x: number;
+  y: number;
+  cost: number; // Cheapest cost to reach this tile
+  previous: IPosition | null; // Predecessor on the cheapest route, null for the origin
+  canEndMove: boolean; // False for tiles that can only be passed through
+}
+
+export interface IMovementRange {
+  origin: IPosition;
+  budget: number;
+  tiles: IReachableTile[];
+}
+
+// Line of sight and field of view options
+export interface IVisibilityOptions {
+  minVisibility?: number; // Visibility needed to see a cell, default: 0.5
+}
+
+// A cell seen from a field of view origin
+export interface IVisibleTile {
+  x: number;
+  y: number;
+  visibility: number; // Remaining visibility after terrain attenuation, 0 to 1
+}
+
+// Fog of war state of a cell for one faction
+export type FogState = 'unexplored' | 'explored' | 'visible';
+
+// A unit revealing the map for its faction
+export interface IFogObserver {
+  unit: IUnitPosition;
+  sightRange: number;
+}
+
+export interface IFogCellChange {
+  x: number;
+  y: number;
+  previous: FogState;
+  state: FogState;
+}
+
+// Cells whose fog state changed during an update
+export interface IFogDiff {
+  factionId: string;
+  changes: IFogCellChange[];
 }
 
 // Map event types
 export type MapEventType =
   | 'terrainChanged'
-  | 'mapChanged';
+  | 'mapChanged'
+  | 'elevationChanged'
+  | 'chunkLoaded'
+  | 'chunkUnloaded'
+  | 'layerChanged'
+  | 'featureChanged'
+  | 'unitChanged';
+
+// Kind of structural change reported by a 'mapChanged' event
+export type MapChangeKind = 'resized' | 'added' | 'removed' | 'cleared';
+
+export interface ITerrainChangedData {
+  before: IMapCell;
+  after: IMapCell;
+}
+
+export interface ILayerChangedData {
+  layer: string;
+  before: ILayerCell | null; // Null when the layer was empty at the cell
+  after: ILayerCell | null; // Null when the layer was cleared at the cell
+}
+
+export interface IFeatureChangedData {
+  feature: string; // Id of the feature
+  before: ICellFeature | null; // Null when the feature was added
+  after: ICellFeature | null; // Null when the feature was removed
+}
 
-export interface IMapEvent {
-  type: MapEventType;
+// Unit placed, moved or taken off a map, the event position is where it
+// stands afterwards, or stood when it was removed
+export interface IUnitChangedData {
+  unitId: string;
+  before: IOccupant | null; // Null when the unit was placed
+  after: IOccupant | null; // Null when the unit was removed, also by a resize
+}
+
+export interface IElevationChangedData {
+  before: number;
+  after: number;
+}
+
+export interface IMapChangedData {
+  change: MapChangeKind;
+  before: { width: number; height: number } | null; // Null when the map was added
+  after: { width: number; height: number } | null; // Null when the map was removed
+}
+
+// Chunk of a ChunkedMap that was loaded or unloaded, the event position is
+// its top-left cell
+export interface IChunkEventData extends IChunkCoordinate {
+  saved: boolean; // Whether the chunk was handed to the provider to be stored
+}
+
+export interface IMapEventData {
+  terrainChanged: ITerrainChangedData;
+  mapChanged: IMapChangedData;
+  elevationChanged: IElevationChangedData;
+  chunkLoaded: IChunkEventData;
+  chunkUnloaded: IChunkEventData;
+  layerChanged: ILayerChangedData;
+  featureChanged: IFeatureChangedData;
+  unitChanged: IUnitChangedData;
+}
+
+export interface IMapEvent<T extends MapEventType = MapEventType> {
+  type: T;
   mapId: string;
-  position: [number, number];
-  data?: any;
+  position: [number, number]; // Changed cell, [0, 0] for whole-map changes
+  data: IMapEventData[T];
+}
+
+// Any map event, narrowed on its type
+export type MapEvent = {
+  [T in MapEventType]: IMapEvent<T>;
+}[MapEventType];
+
+// Listeners receive every event of a notification at once, batched edits
+// arrive as a single call
+export type MapEventListener = (events: MapEvent[]) => void;
+
+// Serialized map, cells reference a palette of unique terrain definitions
+export interface ISerializedMap {
+  version: number;
+  name: string;
+  width: number;
+  height: number;
+  config: IMapConfig;
+  palette: IMapCell[];
+  cells: number[]; // Row-major palette indices
+  elevation?: number[]; // Row-major cell heights, omitted when the map is flat
+  layers?: Record<string, ISerializedLayerCell[]>; // Cells of the layers above the ground, omitted when empty
+  features?: ICellFeature[]; // Omitted when the map has no features
+  regions?: IMapRegion[]; // Omitted when the map has no regions
+}
+
+export interface ISerializedWorld {
+  version: number;
+  maps: ISerializedMap[];
+  portals?: ISerializedPortal[]; // Omitted when the world has no portals
+}
+
+// Upgrades serialized data from one schema version to the next
+export type SerializationMigration = (
+  data: Record<string, unknown>
+) => Record<string, unknown>;
+
+// Terrain drawn by a character of an ASCII map
+export interface IAsciiLegendEntry {
+  terrain: TerrainType;
+  properties?: Partial<ITerrainProperties>;
+}
+
+export type AsciiLegend = Record<string, TerrainType | IAsciiLegendEntry>;
+
+// Characters drawn over the terrain by toAscii, later overlays win
+export interface IAsciiOverlay {
+  char: string;
+  positions: Array<IPosition | IUnitPosition>; // Units on other maps are skipped
+}
+
+// Display metadata for a terrain type
+export interface ITerrainDisplay {
+  name?: string;
+  color?: string;
+  glyph?: string;
+}
+
+// Terrain type registration, properties and tags are inherited from the base
+export interface ITerrainDefinition {
+  extends?: TerrainType;
+  properties?: Partial<ITerrainProperties>;
+  display?: ITerrainDisplay;
+  tags?: string[];
+}
+
+// Terrain type with its inheritance resolved
+export interface IRegisteredTerrain {
+  type: TerrainType;
+  base: TerrainType | null;
+  properties: ITerrainProperties;
+  display: ITerrainDisplay;
+  tags: string[];
+}
+
+// Unit standing on a map cell
+export interface IOccupant {
+  unitId: string;
+  x: number;
+  y: number;
+  faction?: string;
+}
+
+// Reasons a unit could not be placed on or moved to a cell
+export type OccupancyFailureReason =
+  | 'outOfBounds'
+  | 'impassable'
+  | 'occupied' // The cell already holds as many units as its policy allows
+  | 'hostileOccupant' // The policy only allows allies and another faction is there
+  | 'alreadyPlaced'
+  | 'notPlaced';
+
+// Result of placing or moving a unit on a map
+export type OccupancyResult =
+  { success: true } | { success: false; reason: OccupancyFailureReason };
+
+// How cell heights affect movement, defense and sight
+export interface IElevationConfig {
+  uphillCost?: number; // Extra movement cost per unit climbed, default: 0
+  downhillCost?: number; // Extra movement cost per unit descended, default: 0
+  maxClimb?: number; // Highest step up a unit can take, default: unlimited
+  maxDrop?: number; // Deepest step down a unit can take, default: unlimited
+  defenseBonusPerLevel?: number; // Defense bonus per unit of height above the attacker, default: 0
+  eyeHeight?: number; // Height of a viewer's eyes above its cell, default: 0
+}
+
+// Computes the defense bonus a defender gets from its height over an attacker
+export type ElevationAdvantage = (
+  defenderElevation: number,
+  attackerElevation: number
+) => number;
+
+// Terrain on a layer above the ground, properties it does not set are left
+// to the layers below
+export interface ILayerCell {
+  terrain: TerrainType;
+  properties: Partial<ITerrainProperties>;
+}
+
+// Layer cell as stored by Map.toJSON
+export interface ISerializedLayerCell extends ILayerCell {
+  x: number;
+  y: number;
+}
+
+// How the layers of a cell combine a property, from the ground up
+export interface ILayerCombineRules {
+  movementCost?: 'top' | 'max' | 'sum' | 'multiply'; // Default: 'top'
+  impassable?: 'top' | 'any'; // Default: 'top'
+  defenseBonus?: 'top' | 'max' | 'sum'; // Default: 'sum'
+  visibilityModifier?: 'top' | 'min' | 'multiply'; // Default: 'multiply'
+}
+
+// Layers of a map, the ground layer holds the cells themselves
+export interface ILayerConfig {
+  order?: string[]; // Bottom to top, default: ground, overlay, structure, decoration
+  combine?: ILayerCombineRules; // 'top' means the highest layer setting the property wins
+}
+
+// One state of a cell feature, e.g. the closed state of a door
+export interface IFeatureStateDefinition {
+  properties?: Partial<ITerrainProperties>; // Applied on top of the cell layers
+  triggers?: string; // Action sent to the linked features when entering the state
+}
+
+// Kind of cell feature, with its states and the actions moving between them
+export interface IFeatureDefinition {
+  states: Record<string, IFeatureStateDefinition>;
+  initialState: string;
+  actions?: Record<string, Record<string, string>>; // Action name to a map of state to next state
+  hitPoints?: number; // Makes the feature destructible through damageFeature
+  destroyedState?: string; // State entered when the hit points run out
+}
+
+// Feature placed on a cell, such as a door or a pressure plate
+export interface ICellFeature {
+  id: string;
+  type: string; // Feature definition name
+  x: number;
+  y: number;
+  state: string;
+  hitPoints?: number; // Left before destruction, for destructible features
+  links?: string[]; // Ids of the features receiving the actions of its states
+}
+
+// Options of Map.addFeature
+export interface ICellFeatureOptions {
+  state?: string; // Default: the initial state of the definition
+  hitPoints?: number; // Default: the hit points of the definition
+  links?: string[];
 }
 
 // Map configuration
 export interface IMapConfig {
   wrapEdges?: boolean; // Whether moving past edges wraps to the other side
+  topology?: TopologyType; // Which edges wrap, overrides wrapEdges when set
   defaultTerrain?: string; // Default terrain type for new cells
   defaultMovementCost?: number; // Default movement cost for terrain
+  stacking?: IStackingPolicy; // Default stacking policy, terrain can override it
+  grid?: IGridConfig; // Default: square grid
+  elevation?: IElevationConfig; // Default: heights only affect line of sight
+  strictTerrain?: 'warn' | 'throw'; // Reaction to terrain missing from the registry, default: fall back silently
+  layers?: ILayerConfig; // Layers above the ground and how they combine
+  features?: Record<string, IFeatureDefinition>; // Feature definitions, added to the built-in door, drawbridge, pressurePlate and destructibleWall
+}
+
+// Cell of a specific map
+export interface IMapPosition {
+  mapId: string;
+  position: IPosition;
+}
+
+// Information given to portal conditions
+export interface IPortalContext {
+  portal: IPortal;
+  unitId?: string; // Unit going through, when known
+}
+
+// Decides whether a portal can be used right now
+export type PortalCondition = (context: IPortalContext) => boolean;
+
+// Link from a cell of one map to a cell of another map (stairs, doors, edges)
+export interface IPortal {
+  id: string;
+  from: IMapPosition;
+  to: IMapPosition;
+  cost?: number; // Cost of going through, default: movement cost of the destination cell
+  bidirectional?: boolean; // Whether it can also be used from 'to' back to 'from', default: false
+  condition?: PortalCondition; // Checked on every use, not serialized
+}
+
+// Portal as stored by World.toJSON, conditions are code and are left out
+export type ISerializedPortal = Omit<IPortal, 'condition'>;
+
+// Map edges that can be linked to another map
+export type MapEdge = 'north' | 'south' | 'east' | 'west';
+
+// Options for linking the edge of a map to the opposite edge of another
+export interface IEdgeLinkOptions {
+  cost?: number;
+  bidirectional?: boolean; // Default: true
+}
+
+// World pathfinding options
+export interface IWorldPathOptions {
+  allowDiagonal?: boolean; // Default: true
+  unitId?: string; // Unit moving, used for occupancy and portal conditions
+}
+
+// Part of a world path on a single map
+export interface IWorldPathSegment {
+  mapId: string;
+  path: IPosition[];
+}
+
+// Portal crossed by a world path
+export interface IPortalTransition {
+  portalId: string;
+  from: IMapPosition;
+  to: IMapPosition;
+  cost: number;
+}
+
+// Successful world pathfinding result, segments alternate with transitions
+export interface IWorldPathFound {
+  found: true;
+  segments: IWorldPathSegment[];
+  transitions: IPortalTransition[];
+  cost: number;
+}
+
+export interface IWorldPathNotFound {
+  found: false;
+  reason: PathFailureReason;
+}
+
+export type WorldPathResult = IWorldPathFound | IWorldPathNotFound;
+
+// Seed of a random generator, strings are hashed to a number
+export type Seed = number | string;
+
+// Noise algorithms available to terrain generation
+export type NoiseType = 'value' | 'perlin' | 'simplex';
+
+// Fractal noise settings for one layer of terrain generation
+export interface INoiseOptions {
+  type?: NoiseType; // Default: 'simplex'
+  scale?: number; // Cells per noise period of the first octave, default: 32
+  octaves?: number; // Layers of detail added together, default: 4
+  persistence?: number; // Amplitude kept by each octave, default: 0.5
+  lacunarity?: number; // Frequency gained by each octave, default: 2
+}
+
+// Terrain picked for cells whose noise values fall in every given [min, max] range
+export interface IBiomeRule {
+  terrain: TerrainType;
+  properties?: Partial<ITerrainProperties>;
+  elevation?: [number, number];
+  moisture?: [number, number];
+  temperature?: [number, number];
+}
+
+// Options for generating terrain from noise
+export interface ITerrainGenerationOptions {
+  seed: Seed; // Same seed and options always give the same terrain
+  elevation?: INoiseOptions;
+  moisture?: INoiseOptions;
+  temperature?: INoiseOptions;
+  biomes?: IBiomeRule[]; // First matching rule wins, default: DEFAULT_BIOMES
+  heightScale?: number; // When set, cell heights are set to elevation × heightScale, rounded
+}
+
+// Noise values used to generate a map, in [0, 1] and indexed [y][x]
+export interface IGeneratedTerrain {
+  elevation: number[][];
+  moisture: number[][];
+  temperature: number[][];
+}
+
+// Axis-aligned rectangle of cells
+export interface IRectangle {
+  x: number; // Left column
+  y: number; // Top row
+  width: number;
+  height: number;
+}
+
+// How dungeon corridors run between two rooms
+export type CorridorStyle =
+  | 'lShaped' // One horizontal and one vertical leg
+  | 'diagonal' // Alternating horizontal and vertical steps
+  | 'winding'; // Several legs through random waypoints
+
+// Terrain painted by a generator
+export interface ITerrainBrush {
+  terrain: TerrainType;
+  properties?: Partial<ITerrainProperties>;
+}
+
+// Options for generating a dungeon
+export interface IDungeonOptions {
+  seed: Seed; // Same seed and options always give the same dungeon
+  roomSize?: { min: number; max: number }; // Room width and height range, default: 4 to 10
+  corridorStyle?: CorridorStyle; // Default: 'lShaped'
+  extraConnections?: number; // Chance to add a loop between neighbouring rooms, default: 0.1
+  doors?: boolean; // Place doors where corridors enter rooms, default: true
+  floor?: ITerrainBrush; // Default: 'floor'
+  wall?: ITerrainBrush; // Default: impassable, opaque 'wall'
+  door?: ITerrainBrush; // Default: 'door'
+}
+
+// Room of a generated dungeon
+export interface IDungeonRoom extends IRectangle {
+  id: number;
+  center: IPosition;
+}
+
+// Corridor carved between two rooms
+export interface IDungeonCorridor {
+  from: number; // Room id
+  to: number; // Room id
+  path: IPosition[];
+  doors: IPosition[];
+}
+
+// Generated dungeon and its layout
+export interface IDungeon {
+  map: Map;
+  rooms: IDungeonRoom[];
+  corridors: IDungeonCorridor[];
+  connections: Record<number, number[]>; // Room ids linked to each room id
+  start: IPosition; // Suggested start cell, in the first room
+  exit: IPosition; // Suggested exit cell, in the room the most connections away from the start
+}
+
+// Limits of a map edit history, the oldest entries are dropped first
+export interface IMapHistoryOptions {
+  maxEntries?: number; // Default: 100
+  maxMemory?: number; // Approximate bytes kept for undo and redo, default: unlimited
+}
+
+// Changes turning one map state into another, compact enough to send over the network
+export interface IMapDiff {
+  mapId: string;
+  base: string; // Checksum of the map state the diff applies to
+  target: string; // Checksum of the map state once the diff is applied
+  size?: { width: number; height: number }; // New size, omitted when unchanged
+  palette: IMapCell[]; // Unique cells referenced by cells
+  cells: number[]; // Flat [x, y, palette index] triples
+  elevation: number[]; // Flat [x, y, height] triples
+  layers?: ILayerDiffCell[]; // Upper layer cells set or cleared, omitted when unchanged
+  features?: IFeatureDiff[]; // Features added, changed or removed, omitted when unchanged
+}
+
+// Upper layer cell set or cleared by a map diff
+export interface ILayerDiffCell {
+  layer: string;
+  x: number;
+  y: number;
+  cell: ILayerCell | null; // Null clears the layer at the cell
+}
+
+// Feature replaced by a map diff
+export interface IFeatureDiff {
+  id: string;
+  feature: ICellFeature | null; // Null removes the feature
+}
+
+// Coordinates of a chunk, counted in chunks from the chunk holding cell (0, 0)
+export interface IChunkCoordinate {
+  chunkX: number;
+  chunkY: number;
+}
+
+// Chunk requested from or handed to a chunk provider
+export interface IChunkRequest extends IChunkCoordinate {
+  mapId: string;
+  x: number; // Left column of the chunk
+  y: number; // Top row of the chunk
+  size: number; // Cells per side
+}
+
+// Source of the cells of a ChunkedMap, e.g. a terrain generator or storage
+export interface IChunkProvider {
+  // Rows of cells for a chunk, or null to fill it with the default terrain
+  load(chunk: IChunkRequest): IMapCell[][] | null;
+  // Store the cells of an edited chunk before it is unloaded
+  save?(chunk: IChunkRequest, cells: IMapCell[][]): void;
+}
+
+// ChunkedMap settings
+export interface IChunkedMapOptions {
+  chunkSize?: number; // Cells per chunk side, default: 32
+  provider?: IChunkProvider;
+  loadRadius?: number; // Chunks loaded around each observer, default: 1
+  unloadRadius?: number; // Chunks farther than this from every observer are unloaded, default: loadRadius + 1
+  config?: Pick<
+    IMapConfig,
+    'defaultTerrain' | 'defaultMovementCost' | 'strictTerrain' | 'grid'
+  >;
+}
+
+// Cell access shared by Map and ChunkedMap, what pathfinding, movement
+// ranges, visibility, areas of effect and ASCII rendering work on
+export interface IGridMap {
+  readonly name: string;
+  readonly width: number; // Infinity along an endless axis
+  readonly height: number; // Infinity along an endless axis
+  readonly topology: Topology;
+  readonly config: IMapConfig;
+  normalizePosition(x: number, y: number): IPosition | null;
+  getCell(x: number, y: number): IMapCell | null;
+  getTerrainProperties(x: number, y: number): ITerrainProperties | null;
+  getMovementCost(x: number, y: number): number;
+  getMinimumMovementCost(): number;
+  isWalkable(x: number, y: number): boolean;
+  canPlaceUnit?(unitId: string, x: number, y: number): boolean; // Left out by maps that hold no units
+  getAdjacentCells(
+    x: number,
+    y: number,
+    includeDiagonals?: boolean
+  ): Array<{ x: number; y: number; cell: IMapCell }>;
+  getElevation(x: number, y: number): number | null;
+  getElevationCost(
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number
+  ): number;
+}
+
+// Region covering a rectangle of cells
+export interface IRectangleRegionShape extends IRectangle {
+  type: 'rectangle';
+}
+
+// Region covering the cells whose center is inside a polygon, points are
+// cell corners so (0, 0), (2, 0), (2, 2), (0, 2) covers 2x2 cells
+export interface IPolygonRegionShape {
+  type: 'polygon';
+  points: IPosition[];
+}
+
+// Region covering an arbitrary set of cells
+export interface ICellSetRegionShape {
+  type: 'cells';
+  cells: IPosition[];
+}
+
+export type RegionShape =
+  IRectangleRegionShape | IPolygonRegionShape | ICellSetRegionShape;
+
+// Named area of a map, such as a capture zone or a spawn area
+export interface IMapRegion {
+  name: string; // Unique on its map
+  shape: RegionShape;
+  tags: string[];
+}
+
+// Cells whose center lies within radius + 0.5 of the origin
+export interface ICircleArea {
+  type: 'circle';
+  radius: number;
+}
+
+// Outer band of a circle, thickness cells wide
+export interface IRingArea {
+  type: 'ring';
+  radius: number;
+  thickness?: number; // Default: 1
+}
+
+// Cells within length of the origin, inside an angle around a direction
+export interface IConeArea {
+  type: 'cone';
+  direction: IPosition; // Vector the cone points along, e.g. { x: 1, y: 0 }
+  angle: number; // Full opening in degrees
+  length: number;
+}
+
+// Straight line from the origin towards a target
+export interface ILineArea {
+  type: 'line';
+  target: IPosition;
+  length?: number; // Makes the line a beam of that many cells, past the target if needed
+  stopAtBlocking?: boolean; // Stop before impassable or opaque cells
+}
+
+// Arms of length cells from the origin, orthogonal or diagonal
+export interface ICrossArea {
+  type: 'cross';
+  length: number;
+  diagonal?: boolean; // Default: false, an X instead of a +
+}
+
+// Cells within radius steps, diagonals included
+export interface ISquareArea {
+  type: 'square';
+  radius: number;
+}
+
+// Area of effect shapes, directed shapes (cone and line) leave out the origin
+export type AreaShape =
+  ICircleArea | IRingArea | IConeArea | ILineArea | ICrossArea | ISquareArea;
+
+// Settings of a flow field
+export interface IFlowFieldOptions {
+  allowDiagonal?: boolean; // Default: true
+  maxCost?: number; // Cells costing more to reach the goals are unreachable, default: unlimited
 }
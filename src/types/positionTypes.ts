@@ -21,14 +21,25 @@ export type TerrainType =
   | 'swamp'
   | 'snow'
   | 'sand'
+  | 'floor'
+  | 'wall'
+  | 'door'
   | string; // Allow custom terrain types
 
 // Terrain properties that can affect units
 export interface ITerrainProperties {
   movementCost: number; // Multiplier for movement cost
   defenseBonus?: number; // Bonus to defense when on this terrain
-  visibilityModifier?: number; // How much this terrain affects visibility
+  visibilityModifier?: number; // Fraction of visibility kept when looking through this terrain
   impassable?: boolean; // By no means can units pass through this terrain
+  opaque?: boolean; // Blocks line of sight entirely, the cell itself stays visible
+  stacking?: IStackingPolicy; // Overrides the map stacking policy on this terrain
+}
+
+// How many units may share a cell
+export interface IStackingPolicy {
+  maxOccupants?: number; // Default: 1 (exclusive)
+  alliesOnly?: boolean; // Units may only share a cell with units of their faction
 }
 
 // Map cell definition
@@ -37,11 +48,54 @@ export interface IMapCell {
   properties: ITerrainProperties;
 }
 
+// Which way hexes point, pointy hexes stack in rows and flat hexes in columns
+export type HexOrientation = 'pointy' | 'flat';
+
+// Which rows (pointy) or columns (flat) are shoved by half a hex in storage
+export type HexOffset = 'odd' | 'even';
+
+// Grid the cells of a map are laid on
+export interface IGridConfig {
+  type: 'square' | 'hex';
+  orientation?: HexOrientation; // Hex grids only, default: 'pointy'
+  offset?: HexOffset; // Hex grids only, default: 'odd'
+}
+
+// Resolved layout of a hex grid
+export interface IHexLayout {
+  orientation: HexOrientation;
+  offset: HexOffset;
+}
+
+// Axial hex coordinates
+export interface IAxialCoordinate {
+  q: number;
+  r: number;
+}
+
+// Cube hex coordinates, q + r + s is always 0
+export interface ICubeCoordinate extends IAxialCoordinate {
+  s: number;
+}
+
+// Which map edges wrap around to the opposite side
+export type TopologyType = 'bounded' | 'wrapX' | 'wrapY' | 'torus';
+
+// Map settings that decide how positions relate to each other
+export interface IMapTopologyConfig {
+  grid?: IGridConfig; // Cells are stored in offset coordinates on hex grids
+  topology?: TopologyType; // Overrides wrapEdges when set
+  wrapEdges?: boolean; // Same as the 'torus' topology
+}
+
+// Distance measures supported by topologies, hex grids always count hex steps
+export type DistanceMetric = 'manhattan' | 'euclidean' | 'chebyshev';
+
 // Map data structure
 export interface IMap {
   width: number;
   height: number;
   name: string;
   cells: IMapCell[][];
+  config?: IMapTopologyConfig;
 }
-
@@ -0,0 +1,115 @@
+/**
+ * Tiled Import Types
+ */
+
+import type { Map } from '../core/Map';
+import type { World } from '../core/World';
+import type {
+  IPosition,
+  ITerrainProperties,
+  TerrainType,
+} from './positionTypes';
+
+// Custom property as stored by Tiled
+export interface ITiledProperty {
+  name: string;
+  type?: string;
+  value: unknown;
+}
+
+export interface ITiledTile {
+  id: number;
+  type?: string; // Tiled < 1.9
+  class?: string; // Tiled >= 1.9
+  properties?: ITiledProperty[];
+}
+
+export interface ITiledTileset {
+  firstgid: number;
+  name?: string;
+  source?: string; // External tilesets are not resolved
+  tiles?: ITiledTile[];
+}
+
+export interface ITiledObjectData {
+  id: number;
+  name?: string;
+  type?: string;
+  class?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: Array<{ x: number; y: number }>;
+  properties?: ITiledProperty[];
+}
+
+export interface ITiledLayer {
+  type: 'tilelayer' | 'objectgroup' | 'group' | 'imagelayer';
+  name: string;
+  width?: number;
+  height?: number;
+  data?: number[] | string;
+  encoding?: 'csv' | 'base64';
+  compression?: string;
+  objects?: ITiledObjectData[];
+  layers?: ITiledLayer[];
+}
+
+// Tiled JSON map (TMJ), TMX files are converted to this structure
+export interface ITiledMapData {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  infinite?: boolean;
+  layers: ITiledLayer[];
+  tilesets: ITiledTileset[];
+  properties?: ITiledProperty[];
+}
+
+// Terrain assigned to a Tiled tile
+export interface ITiledTerrainMapping {
+  terrain: TerrainType;
+  properties?: Partial<ITerrainProperties>;
+}
+
+export interface ITiledImportOptions {
+  name?: string; // Map name, default: the map's "name" property or 'Tiled Map'
+  tileTerrains?: Record<number, TerrainType | ITiledTerrainMapping>; // By global tile id
+  terrainProperty?: string; // Tile property holding the terrain, default: 'terrain'
+  layers?: 'merge' | 'separate'; // One map for all tile layers or one per layer, default: 'merge'
+  strict?: boolean; // Throw instead of reporting unknown tiles
+}
+
+// Object layer entry converted to tile units
+export interface ITiledMapObject {
+  id: number;
+  name: string;
+  type: string;
+  layer: string;
+  shape: 'point' | 'rectangle' | 'ellipse' | 'polygon';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  points: IPosition[]; // Polygon vertices, empty for other shapes
+  properties: Record<string, unknown>;
+}
+
+// Tile id that could not be mapped to a terrain
+export interface ITiledUnknownTile {
+  gid: number;
+  layer: string;
+  count: number;
+  positions: IPosition[];
+}
+
+export interface ITiledImportResult {
+  world: World;
+  maps: Map[];
+  objects: ITiledMapObject[];
+  unknownTiles: ITiledUnknownTile[];
+}
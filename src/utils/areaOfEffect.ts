@@ -0,0 +1,185 @@
+import type { IPosition } from '../types/positionTypes';
+import type {
+  AreaShape,
+  IConeArea,
+  IGridMap,
+  ILineArea,
+} from '../types/mapTypes';
+import type { IUnitPosition } from '@atsu/atago';
+import { getLine } from './visibility';
+
+// Tolerance so cells exactly on the edge of a cone count as inside
+const ANGLE_EPSILON = 1e-9;
+
+/**
+ * Get the cells covered by an area of effect. Cells off the map are left
+ * out, or wrapped when the map wraps. Shapes are measured on the square
+ * grid.
+ * @param origin Center of the shape, or where directed shapes start from
+ * @returns The cells without duplicates, lines in order from the origin and
+ * other shapes row by row
+ */
+export function getAreaCells(
+  map: IGridMap,
+  origin: IPosition,
+  shape: AreaShape
+): IPosition[] {
+  const cells: IPosition[] = [];
+  const seen = new Set<string>();
+
+  for (const { x, y } of getShapeOffsets(map, origin, shape)) {
+    const tile = map.normalizePosition(origin.x + x, origin.y + y);
+    if (!tile || seen.has(`${tile.x},${tile.y}`)) continue;
+    seen.add(`${tile.x},${tile.y}`);
+    cells.push(tile);
+  }
+
+  return shape.type === 'line'
+    ? cells
+    : cells.sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+/**
+ * Keep only the positions on the map inside an area of effect
+ */
+export function getUnitsInArea<T extends IUnitPosition>(
+  map: IGridMap,
+  origin: IPosition,
+  shape: AreaShape,
+  positions: T[]
+): T[] {
+  const cells = new Set(
+    getAreaCells(map, origin, shape).map(({ x, y }) => `${x},${y}`)
+  );
+
+  return positions.filter(pos => {
+    if (pos.mapId !== map.name) return false;
+    const tile = map.normalizePosition(pos.position.x, pos.position.y);
+    return tile !== null && cells.has(`${tile.x},${tile.y}`);
+  });
+}
+
+/**
+ * Offsets from the origin covered by a shape, before wrapping
+ */
+function getShapeOffsets(
+  map: IGridMap,
+  origin: IPosition,
+  shape: AreaShape
+): IPosition[] {
+  switch (shape.type) {
+    case 'circle':
+      return getSquareOffsets(shape.radius + 0.5).filter(
+        offset => getDistance(offset) <= shape.radius + 0.5
+      );
+    case 'ring': {
+      const inner = shape.radius - (shape.thickness ?? 1);
+      return getSquareOffsets(shape.radius + 0.5).filter(offset => {
+        const distance = getDistance(offset);
+        return distance <= shape.radius + 0.5 && distance > inner + 0.5;
+      });
+    }
+    case 'cone':
+      return getConeOffsets(shape);
+    case 'line':
+      return getLineOffsets(map, origin, shape);
+    case 'cross': {
+      const directions = shape.diagonal
+        ? [
+            [1, 1],
+            [1, -1],
+            [-1, 1],
+            [-1, -1],
+          ]
+        : [
+            [1, 0],
+            [-1, 0],
+            [0, 1],
+            [0, -1],
+          ];
+      const offsets: IPosition[] = [{ x: 0, y: 0 }];
+      for (const [dx, dy] of directions) {
+        for (let step = 1; step <= shape.length; step++) {
+          offsets.push({ x: dx! * step, y: dy! * step });
+        }
+      }
+      return offsets;
+    }
+    case 'square':
+      return getSquareOffsets(shape.radius);
+  }
+}
+
+function getConeOffsets(shape: IConeArea): IPosition[] {
+  const { direction, length } = shape;
+  const directionLength = getDistance(direction);
+  if (directionLength === 0) return [];
+
+  const halfAngle = (shape.angle * Math.PI) / 360;
+  return getSquareOffsets(length + 0.5).filter(offset => {
+    const distance = getDistance(offset);
+    if (distance === 0 || distance > length + 0.5) return false;
+
+    const cos =
+      (offset.x * direction.x + offset.y * direction.y) /
+      (distance * directionLength);
+    return (
+      Math.acos(Math.min(1, Math.max(-1, cos))) <= halfAngle + ANGLE_EPSILON
+    );
+  });
+}
+
+/**
+ * Bresenham line towards the target, extended or cut to the beam length,
+ * stopping at the map edge and optionally before blocking cells
+ */
+function getLineOffsets(
+  map: IGridMap,
+  origin: IPosition,
+  shape: ILineArea
+): IPosition[] {
+  const dx = shape.target.x - origin.x;
+  const dy = shape.target.y - origin.y;
+  const steps = Math.max(Math.abs(dx), Math.abs(dy));
+  if (steps === 0) return [];
+
+  // A beam is aimed at a point far enough to reach its full length
+  const length = shape.length ?? steps;
+  const scale = Math.max(1, length / steps);
+  const end = {
+    x: Math.round(dx * scale),
+    y: Math.round(dy * scale),
+  };
+
+  const offsets: IPosition[] = [];
+  for (const offset of getLine({ x: 0, y: 0 }, end).slice(1, length + 1)) {
+    const x = origin.x + offset.x;
+    const y = origin.y + offset.y;
+    if (!map.normalizePosition(x, y)) break;
+
+    const properties = map.getTerrainProperties(x, y);
+    if (
+      shape.stopAtBlocking &&
+      (properties?.impassable || properties?.opaque)
+    ) {
+      break;
+    }
+    offsets.push(offset);
+  }
+  return offsets;
+}
+
+function getSquareOffsets(radius: number): IPosition[] {
+  const offsets: IPosition[] = [];
+  const range = Math.floor(radius);
+  for (let y = -range; y <= range; y++) {
+    for (let x = -range; x <= range; x++) {
+      offsets.push({ x, y });
+    }
+  }
+  return offsets;
+}
+
+function getDistance({ x, y }: IPosition): number {
+  return Math.sqrt(x * x + y * y);
+}
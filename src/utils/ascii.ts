@@ -0,0 +1,103 @@
+import type {
+  AsciiLegend,
+  IAsciiLegendEntry,
+  IAsciiOverlay,
+  IGridMap,
+} from '../types/mapTypes';
+
+const UNKNOWN_TERRAIN_CHAR = '?';
+
+/**
+ * Parse an ASCII drawing into rows of terrain, one character per cell.
+ * Blank leading and trailing lines are ignored, and so is the indentation
+ * of each row unless the legend gives a meaning to spaces.
+ * @throws Error on ragged rows or characters missing from the legend
+ */
+export function parseAscii(
+  text: string,
+  legend: AsciiLegend
+): IAsciiLegendEntry[][] {
+  const keepSpaces = ' ' in legend;
+  const lines = text
+    .split('\n')
+    .map(line => line.replace(/\r$/, ''))
+    .map(line => (keepSpaces ? line : line.trim()));
+
+  while (lines.length > 0 && lines[0]!.trim() === '') lines.shift();
+  while (lines.length > 0 && lines[lines.length - 1]!.trim() === '') {
+    lines.pop();
+  }
+
+  if (lines.length === 0) {
+    throw new Error('ASCII map is empty');
+  }
+
+  const width = [...lines[0]!].length;
+
+  return lines.map((line, y) => {
+    const chars = [...line];
+    if (chars.length !== width) {
+      throw new Error(
+        `ASCII map row ${y} has ${chars.length} characters, expected ${width}`
+      );
+    }
+
+    return chars.map((char, x) => {
+      const entry = legend[char];
+      if (entry === undefined) {
+        throw new Error(
+          `ASCII map character "${char}" at (${x}, ${y}) is not in the legend`
+        );
+      }
+      return typeof entry === 'string' ? { terrain: entry } : entry;
+    });
+  });
+}
+
+/**
+ * Draw a map as ASCII text, one character per cell and one line per row
+ * @param map The map to draw
+ * @param legend Characters for each terrain, the first matching one is used
+ * and unknown terrain is drawn as '?'
+ * @param overlays Characters drawn over the terrain, e.g. units or paths
+ * @throws Error if the map is endless
+ */
+export function renderAscii(
+  map: IGridMap,
+  legend: AsciiLegend,
+  overlays: IAsciiOverlay[] = []
+): string {
+  const charByTerrain: Record<string, string> = {};
+  for (const [char, entry] of Object.entries(legend)) {
+    const terrain = typeof entry === 'string' ? entry : entry.terrain;
+    charByTerrain[terrain] ??= char;
+  }
+
+  if (!Number.isFinite(map.width) || !Number.isFinite(map.height)) {
+    throw new Error(`Map ${map.name} is endless and cannot be drawn whole`);
+  }
+
+  const rows: string[][] = [];
+  for (let y = 0; y < map.height; y++) {
+    const row: string[] = [];
+    for (let x = 0; x < map.width; x++) {
+      const cell = map.getCell(x, y);
+      row.push((cell && charByTerrain[cell.terrain]) ?? UNKNOWN_TERRAIN_CHAR);
+    }
+    rows.push(row);
+  }
+
+  for (const overlay of overlays) {
+    for (const entry of overlay.positions) {
+      if ('mapId' in entry && entry.mapId !== map.name) continue;
+
+      const { x, y } = 'position' in entry ? entry.position : entry;
+      const row = rows[y];
+      if (row && x >= 0 && x < row.length) {
+        row[x] = overlay.char;
+      }
+    }
+  }
+
+  return rows.map(row => row.join('')).join('\n');
+}
@@ -0,0 +1,425 @@
+import type { IPosition } from '../types/positionTypes';
+import type {
+  CorridorStyle,
+  IDungeon,
+  IDungeonCorridor,
+  IDungeonOptions,
+  IDungeonRoom,
+  IMapConfig,
+  IRectangle,
+  ITerrainBrush,
+} from '../types/mapTypes';
+import { Map as GameMap } from '../core/Map';
+import { createSeededRandom, randomInt } from './random';
+
+const DEFAULT_ROOM_SIZE = { min: 4, max: 10 };
+
+// Binary space partition of the dungeon, leaves hold at most one room
+interface IPartition {
+  area: IRectangle;
+  children: [IPartition, IPartition] | null;
+}
+
+/**
+ * Generate a dungeon of rooms joined by corridors. The map is split by
+ * binary space partitioning, every leaf gets a room and sibling partitions
+ * are joined by a corridor, so every room can be reached from every other.
+ * The same seed and options always produce the same dungeon.
+ * @param options Seed, room sizes, corridor style and terrain brushes
+ * @returns The map and its layout: rooms, corridors, the room connection
+ * graph and suggested start and exit cells
+ * @throws Error when the room sizes are invalid or do not fit the map
+ */
+export function generateDungeon(
+  width: number,
+  height: number,
+  options: IDungeonOptions,
+  name?: string,
+  config?: IMapConfig
+): IDungeon {
+  const { min, max } = options.roomSize ?? DEFAULT_ROOM_SIZE;
+  if (
+    !Number.isInteger(min) ||
+    !Number.isInteger(max) ||
+    min < 1 ||
+    max < min
+  ) {
+    throw new Error(
+      `Dungeon room sizes must be integers with 1 <= min <= max, got ${min} to ${max}`
+    );
+  }
+  // Rooms need a wall on every side
+  if (width < min + 2 || height < min + 2) {
+    throw new Error(
+      `Dungeon of ${width}x${height} is too small for rooms of at least ${min}x${min}`
+    );
+  }
+
+  const random = createSeededRandom(options.seed);
+  const floor = options.floor ?? { terrain: 'floor' };
+  const wall = options.wall ?? {
+    terrain: 'wall',
+    properties: { impassable: true, opaque: true },
+  };
+  const door = options.door ?? { terrain: 'door' };
+
+  const map = new GameMap(width, height, name, config);
+  paintArea(map, { x: 0, y: 0, width, height }, wall);
+
+  const root = partition(
+    { x: 0, y: 0, width, height },
+    min + 2,
+    max + 2,
+    random
+  );
+  const rooms: IDungeonRoom[] = [];
+  const links: Array<[number, number]> = [];
+  placeRooms(root, min, max, random, rooms, links);
+
+  for (const room of rooms) {
+    paintArea(map, room, floor);
+  }
+
+  addExtraLinks(rooms, links, options.extraConnections ?? 0.1, random);
+
+  const style = options.corridorStyle ?? 'lShaped';
+  const corridors: IDungeonCorridor[] = links.map(([from, to]) => {
+    const path = getCorridorPath(
+      rooms[from]!.center,
+      rooms[to]!.center,
+      style,
+      random
+    );
+    for (const { x, y } of path) {
+      if (map.getTerrain(x, y) === wall.terrain) {
+        map.setTerrain(x, y, floor.terrain, floor.properties);
+      }
+    }
+    return { from, to, path, doors: [] };
+  });
+
+  if (options.doors ?? true) {
+    placeDoors(map, rooms, corridors, wall, door);
+  }
+
+  const connections: Record<number, number[]> = {};
+  for (const room of rooms) {
+    connections[room.id] = [];
+  }
+  for (const [from, to] of links) {
+    connections[from]!.push(to);
+    connections[to]!.push(from);
+  }
+  for (const ids of Object.values(connections)) {
+    ids.sort((a, b) => a - b);
+  }
+
+  const first = rooms[0]!;
+  const last = rooms[findFarthestRoom(connections)]!;
+  const exit =
+    last === first
+      ? { x: first.x + first.width - 1, y: first.y + first.height - 1 }
+      : last.center;
+
+  return {
+    map,
+    rooms,
+    corridors,
+    connections,
+    start: first.center,
+    exit,
+  };
+}
+
+/**
+ * Split an area until its parts are no larger than the largest room with
+ * its walls, as long as both halves can still hold the smallest room
+ */
+function partition(
+  area: IRectangle,
+  minSize: number,
+  maxSize: number,
+  random: () => number
+): IPartition {
+  const canSplitX = area.width > maxSize && area.width >= minSize * 2;
+  const canSplitY = area.height > maxSize && area.height >= minSize * 2;
+  if (!canSplitX && !canSplitY) {
+    return { area, children: null };
+  }
+
+  const splitX =
+    canSplitX && canSplitY
+      ? area.width > area.height ||
+        (area.width === area.height && random() < 0.5)
+      : canSplitX;
+  const length = splitX ? area.width : area.height;
+  const cut = randomInt(random, minSize, length - minSize);
+
+  const first: IRectangle = splitX
+    ? { ...area, width: cut }
+    : { ...area, height: cut };
+  const second: IRectangle = splitX
+    ? { ...area, x: area.x + cut, width: area.width - cut }
+    : { ...area, y: area.y + cut, height: area.height - cut };
+
+  return {
+    area,
+    children: [
+      partition(first, minSize, maxSize, random),
+      partition(second, minSize, maxSize, random),
+    ],
+  };
+}
+
+/**
+ * Place a room in every leaf and link the closest rooms of sibling partitions
+ * @returns The ids of the rooms in the partition
+ */
+function placeRooms(
+  node: IPartition,
+  min: number,
+  max: number,
+  random: () => number,
+  rooms: IDungeonRoom[],
+  links: Array<[number, number]>
+): number[] {
+  if (!node.children) {
+    const { area } = node;
+    const width = randomInt(random, min, Math.min(max, area.width - 2));
+    const height = randomInt(random, min, Math.min(max, area.height - 2));
+    const x = area.x + 1 + randomInt(random, 0, area.width - 2 - width);
+    const y = area.y + 1 + randomInt(random, 0, area.height - 2 - height);
+    const id = rooms.length;
+
+    rooms.push({
+      id,
+      x,
+      y,
+      width,
+      height,
+      center: {
+        x: x + Math.floor(width / 2),
+        y: y + Math.floor(height / 2),
+      },
+    });
+    return [id];
+  }
+
+  const first = placeRooms(node.children[0], min, max, random, rooms, links);
+  const second = placeRooms(node.children[1], min, max, random, rooms, links);
+
+  let closest: [number, number] = [first[0]!, second[0]!];
+  let closestDistance = Infinity;
+  for (const a of first) {
+    for (const b of second) {
+      const distance = getCenterDistance(rooms[a]!, rooms[b]!);
+      if (distance < closestDistance) {
+        closest = [a, b];
+        closestDistance = distance;
+      }
+    }
+  }
+  links.push(closest);
+
+  return [...first, ...second];
+}
+
+/**
+ * Randomly link rooms to their closest unlinked room, adding loops to the
+ * tree of partition links
+ */
+function addExtraLinks(
+  rooms: IDungeonRoom[],
+  links: Array<[number, number]>,
+  chance: number,
+  random: () => number
+): void {
+  const linked = new Set(links.map(([a, b]) => `${a},${b}`));
+  const isLinked = (a: number, b: number) =>
+    linked.has(`${a},${b}`) || linked.has(`${b},${a}`);
+
+  for (const room of rooms) {
+    if (random() >= chance) continue;
+
+    const candidates = rooms
+      .filter(other => other.id !== room.id && !isLinked(room.id, other.id))
+      .sort((a, b) => getCenterDistance(room, a) - getCenterDistance(room, b));
+    const target = candidates[0];
+    if (!target) continue;
+
+    links.push([room.id, target.id]);
+    linked.add(`${room.id},${target.id}`);
+  }
+}
+
+/**
+ * Cells of a corridor between two points, every step is orthogonal so the
+ * corridor is walkable without diagonal moves
+ */
+function getCorridorPath(
+  from: IPosition,
+  to: IPosition,
+  style: CorridorStyle,
+  random: () => number
+): IPosition[] {
+  switch (style) {
+    case 'diagonal':
+      return getStaircase(from, to);
+    case 'winding': {
+      // Waypoints inside the box spanned by both ends keep the corridor near
+      const waypoints = [0, 1].map(() => ({
+        x: randomInt(random, Math.min(from.x, to.x), Math.max(from.x, to.x)),
+        y: randomInt(random, Math.min(from.y, to.y), Math.max(from.y, to.y)),
+      }));
+      const points = [from, ...waypoints, to];
+      const path: IPosition[] = [{ x: from.x, y: from.y }];
+      for (let i = 1; i < points.length; i++) {
+        path.push(
+          ...getElbow(points[i - 1]!, points[i]!, random() < 0.5).slice(1)
+        );
+      }
+      return path;
+    }
+    case 'lShaped':
+    default:
+      return getElbow(from, to, random() < 0.5);
+  }
+}
+
+/**
+ * Straight legs from one point to the other, turning once
+ */
+function getElbow(
+  from: IPosition,
+  to: IPosition,
+  horizontalFirst: boolean
+): IPosition[] {
+  const path: IPosition[] = [{ x: from.x, y: from.y }];
+  let { x, y } = from;
+
+  const walkX = () => {
+    while (x !== to.x) {
+      x += Math.sign(to.x - x);
+      path.push({ x, y });
+    }
+  };
+  const walkY = () => {
+    while (y !== to.y) {
+      y += Math.sign(to.y - y);
+      path.push({ x, y });
+    }
+  };
+
+  if (horizontalFirst) {
+    walkX();
+    walkY();
+  } else {
+    walkY();
+    walkX();
+  }
+  return path;
+}
+
+/**
+ * Alternate horizontal and vertical steps from one point to the other
+ */
+function getStaircase(from: IPosition, to: IPosition): IPosition[] {
+  const path: IPosition[] = [{ x: from.x, y: from.y }];
+  let { x, y } = from;
+  let horizontal = Math.abs(to.x - x) >= Math.abs(to.y - y);
+
+  while (x !== to.x || y !== to.y) {
+    if ((horizontal && x !== to.x) || y === to.y) {
+      x += Math.sign(to.x - x);
+    } else {
+      y += Math.sign(to.y - y);
+    }
+    path.push({ x, y });
+    horizontal = !horizontal;
+  }
+  return path;
+}
+
+/**
+ * Put a door on the first corridor cell outside each end room, when that
+ * cell is a gap between two walls
+ */
+function placeDoors(
+  map: GameMap,
+  rooms: IDungeonRoom[],
+  corridors: IDungeonCorridor[],
+  wall: ITerrainBrush,
+  door: ITerrainBrush
+): void {
+  const isWall = (x: number, y: number) =>
+    map.getTerrain(x, y) === wall.terrain;
+  const isInRoom = ({ x, y }: IPosition) =>
+    rooms.some(room => containsCell(room, x, y));
+
+  for (const corridor of corridors) {
+    const exits = [
+      corridor.path.find(
+        cell => !containsCell(rooms[corridor.from]!, cell.x, cell.y)
+      ),
+      [...corridor.path]
+        .reverse()
+        .find(cell => !containsCell(rooms[corridor.to]!, cell.x, cell.y)),
+    ];
+
+    for (const cell of exits) {
+      if (!cell || isInRoom(cell)) continue;
+
+      const { x, y } = cell;
+      const isGap =
+        (isWall(x - 1, y) && isWall(x + 1, y)) ||
+        (isWall(x, y - 1) && isWall(x, y + 1));
+      if (!isGap || map.getTerrain(x, y) === door.terrain) continue;
+
+      map.setTerrain(x, y, door.terrain, door.properties);
+      corridor.doors.push({ x, y });
+    }
+  }
+}
+
+/**
+ * Room the most links away from the first room, the first such room on ties
+ */
+function findFarthestRoom(connections: Record<number, number[]>): number {
+  const hops: Record<number, number> = { 0: 0 };
+  const queue = [0];
+  let farthest = 0;
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i]!;
+    if (hops[current]! > hops[farthest]!) farthest = current;
+
+    for (const next of connections[current] ?? []) {
+      if (hops[next] !== undefined) continue;
+      hops[next] = hops[current]! + 1;
+      queue.push(next);
+    }
+  }
+
+  return farthest;
+}
+
+function paintArea(map: GameMap, area: IRectangle, brush: ITerrainBrush) {
+  for (let y = area.y; y < area.y + area.height; y++) {
+    for (let x = area.x; x < area.x + area.width; x++) {
+      map.setTerrain(x, y, brush.terrain, brush.properties);
+    }
+  }
+}
+
+function containsCell(area: IRectangle, x: number, y: number): boolean {
+  return (
+    x >= area.x &&
+    x < area.x + area.width &&
+    y >= area.y &&
+    y < area.y + area.height
+  );
+}
+
+function getCenterDistance(a: IDungeonRoom, b: IDungeonRoom): number {
+  return Math.abs(a.center.x - b.center.x) + Math.abs(a.center.y - b.center.y);
+}
@@ -0,0 +1,204 @@
+import type {
+  IAxialCoordinate,
+  ICubeCoordinate,
+  IGridConfig,
+  IHexLayout,
+  IPosition,
+} from '../types/positionTypes';
+
+// Neighbour offsets in cube coordinates, counter-clockwise from the east
+const CUBE_DIRECTIONS: ICubeCoordinate[] = [
+  { q: 1, r: 0, s: -1 },
+  { q: 1, r: -1, s: 0 },
+  { q: 0, r: -1, s: 1 },
+  { q: -1, r: 0, s: 1 },
+  { q: -1, r: 1, s: 0 },
+  { q: 0, r: 1, s: -1 },
+];
+
+// Nudge applied to line samples so points on a hex edge round consistently
+const LINE_EPSILON = 1e-6;
+
+/**
+ * Get the hex layout of a grid
+ * @returns The layout with its defaults applied, or null for square grids
+ */
+export function getHexLayout(grid?: IGridConfig): IHexLayout | null {
+  if (grid?.type !== 'hex') {
+    return null;
+  }
+
+  return {
+    orientation: grid.orientation ?? 'pointy',
+    offset: grid.offset ?? 'odd',
+  };
+}
+
+/**
+ * Convert axial coordinates to cube coordinates
+ */
+export function axialToCube(axial: IAxialCoordinate): ICubeCoordinate {
+  return { q: axial.q, r: axial.r, s: -axial.q - axial.r };
+}
+
+/**
+ * Convert a stored (offset) map position to cube coordinates
+ */
+export function offsetToCube(
+  position: IPosition,
+  layout: IHexLayout
+): ICubeCoordinate {
+  const { x, y } = position;
+  const shift = layout.offset === 'odd' ? -1 : 1;
+
+  if (layout.orientation === 'pointy') {
+    const q = x - (y + shift * (y & 1)) / 2;
+    return axialToCube({ q, r: y });
+  }
+
+  const r = y - (x + shift * (x & 1)) / 2;
+  return axialToCube({ q: x, r });
+}
+
+/**
+ * Convert cube coordinates to a stored (offset) map position
+ */
+export function cubeToOffset(
+  cube: IAxialCoordinate,
+  layout: IHexLayout
+): IPosition {
+  const shift = layout.offset === 'odd' ? -1 : 1;
+
+  if (layout.orientation === 'pointy') {
+    return { x: cube.q + (cube.r + shift * (cube.r & 1)) / 2, y: cube.r };
+  }
+
+  return { x: cube.q, y: cube.r + (cube.q + shift * (cube.q & 1)) / 2 };
+}
+
+/**
+ * Round fractional cube coordinates to the hex containing them
+ */
+export function roundCube(cube: ICubeCoordinate): ICubeCoordinate {
+  let q = Math.round(cube.q);
+  let r = Math.round(cube.r);
+  let s = Math.round(cube.s);
+
+  // Fix the component with the largest rounding error so q + r + s stays 0
+  const dq = Math.abs(q - cube.q);
+  const dr = Math.abs(r - cube.r);
+  const ds = Math.abs(s - cube.s);
+  if (dq > dr && dq > ds) {
+    q = -r - s;
+  } else if (dr > ds) {
+    r = -q - s;
+  } else {
+    s = -q - r;
+  }
+
+  // Avoid -0 leaking into coordinates
+  return { q: q + 0, r: r + 0, s: s + 0 };
+}
+
+/**
+ * Get the number of hex steps between two positions
+ */
+export function hexDistance(
+  from: IPosition,
+  to: IPosition,
+  layout: IHexLayout
+): number {
+  const a = offsetToCube(from, layout);
+  const b = offsetToCube(to, layout);
+  return Math.max(
+    Math.abs(a.q - b.q),
+    Math.abs(a.r - b.r),
+    Math.abs(a.s - b.s)
+  );
+}
+
+/**
+ * Get the six positions around a hex, which may lie off the map
+ */
+export function getHexNeighbors(
+  position: IPosition,
+  layout: IHexLayout
+): IPosition[] {
+  const cube = offsetToCube(position, layout);
+  return CUBE_DIRECTIONS.map(direction =>
+    cubeToOffset({ q: cube.q + direction.q, r: cube.r + direction.r }, layout)
+  );
+}
+
+/**
+ * Get the positions exactly a number of hex steps away from a center,
+ * walking the ring counter-clockwise
+ */
+export function getHexRing(
+  center: IPosition,
+  radius: number,
+  layout: IHexLayout
+): IPosition[] {
+  if (radius <= 0) {
+    return radius === 0 ? [{ x: center.x, y: center.y }] : [];
+  }
+
+  const origin = offsetToCube(center, layout);
+  const start = CUBE_DIRECTIONS[4]!;
+  let q = origin.q + start.q * radius;
+  let r = origin.r + start.r * radius;
+
+  const ring: IPosition[] = [];
+  for (const direction of CUBE_DIRECTIONS) {
+    for (let step = 0; step < radius; step++) {
+      ring.push(cubeToOffset({ q, r }, layout));
+      q += direction.q;
+      r += direction.r;
+    }
+  }
+
+  return ring;
+}
+
+/**
+ * Get every position within a number of hex steps of a center, ordered
+ * from the center outwards ring by ring
+ */
+export function getHexSpiral(
+  center: IPosition,
+  radius: number,
+  layout: IHexLayout
+): IPosition[] {
+  const spiral: IPosition[] = [];
+  for (let ring = 0; ring <= radius; ring++) {
+    spiral.push(...getHexRing(center, ring, layout));
+  }
+  return spiral;
+}
+
+/**
+ * Get the hexes on a straight line between two positions
+ * @returns The positions from start to end, both included
+ */
+export function getHexLine(
+  from: IPosition,
+  to: IPosition,
+  layout: IHexLayout
+): IPosition[] {
+  const a = offsetToCube(from, layout);
+  const b = offsetToCube(to, layout);
+  const steps = hexDistance(from, to, layout);
+
+  const line: IPosition[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = steps === 0 ? 0 : i / steps;
+    const sample = roundCube({
+      q: a.q + LINE_EPSILON + (b.q - a.q) * t,
+      r: a.r + LINE_EPSILON + (b.r - a.r) * t,
+      s: a.s - 2 * LINE_EPSILON + (b.s - a.s) * t,
+    });
+    line.push(cubeToOffset(sample, layout));
+  }
+
+  return line;
+}
@@ -1 +1,15 @@
 export * from './unitPositions';
+export * from './pathfinding';
+export * from './movementRange';
+export * from './worldPathfinding';
+export * from './visibility';
+export * from './areaOfEffect';
+export * from './mapSerialization';
+export * from './mapDiff';
+export * from './tiled';
+export * from './ascii';
+export * from './hex';
+export * from './random';
+export * from './noise';
+export * from './terrainGeneration';
+export * from './dungeon';
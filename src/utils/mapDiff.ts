@@ -0,0 +1,508 @@
+import type {
+  ICellFeature,
+  IFeatureDiff,
+  ILayerCell,
+  ILayerDiffCell,
+  IMapCell,
+  IMapDiff,
+  MapEvent,
+} from '../types/mapTypes';
+import type { Map as GameMap } from '../core/Map';
+import { MapSerializationError, getCellKey } from './mapSerialization';
+
+/**
+ * Error thrown when a diff is applied to a map that is not in the state the
+ * diff was computed from
+ */
+export class MapPatchConflictError extends Error {
+  /** Checksum the diff expects the map to have */
+  readonly expected: string;
+  /** Checksum the map actually has */
+  readonly actual: string;
+
+  constructor(mapId: string, expected: string, actual: string) {
+    super(
+      `Map ${mapId} is at version ${actual} but the diff applies to version ${expected}`
+    );
+    this.name = 'MapPatchConflictError';
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Get a checksum of the size, terrain, layers, heights and features of a
+ * map. Maps with the same content have the same checksum, whatever their name or
+ * history, so it identifies the version of a map shared between server and
+ * clients.
+ */
+export function getMapChecksum(map: GameMap): string {
+  let hash = hashString(0x811c9dc5, `${map.width}x${map.height}`);
+
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      hash = hashString(hash, getCellKey(map.cells[y]![x]!));
+      for (const { layer, cell } of map.getLayers(x, y).slice(1)) {
+        hash = hashString(hash, `#${layer}:${getCellKey(cell)}`);
+      }
+      const height = map.getElevation(x, y) ?? 0;
+      if (height !== 0) {
+        hash = hashString(hash, `@${x},${y}:${height}`);
+      }
+    }
+  }
+
+  // Sorted so features added in another order give the same checksum
+  const features = map.getFeatures().map(getFeatureKey).sort();
+  for (const feature of features) {
+    hash = hashString(hash, `!${feature}`);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Compute the changes turning one map into another
+ * @param base The map the diff will be applied to
+ * @param target The map to reproduce
+ */
+export function diffMaps(base: GameMap, target: GameMap): IMapDiff {
+  const builder = new DiffBuilder();
+  const layers = target.getLayerNames().slice(1);
+
+  for (let y = 0; y < target.height; y++) {
+    for (let x = 0; x < target.width; x++) {
+      const cell = target.cells[y]![x]!;
+      const isNew = x >= base.width || y >= base.height;
+      const baseCell = isNew ? null : base.cells[y]![x]!;
+      if (!baseCell || getCellKey(baseCell) !== getCellKey(cell)) {
+        builder.setCell(x, y, cell);
+      }
+
+      // Cells added by a resize start at height 0
+      const height = target.getElevation(x, y) ?? 0;
+      const baseHeight = isNew ? 0 : (base.getElevation(x, y) ?? 0);
+      if (height !== baseHeight) {
+        builder.setHeight(x, y, height);
+      }
+
+      for (const layer of layers) {
+        const layerCell = target.getLayerCell(layer, x, y);
+        const baseLayerCell = isNew ? null : base.getLayerCell(layer, x, y);
+        if (getLayerKey(layerCell) !== getLayerKey(baseLayerCell)) {
+          builder.setLayer(layer, x, y, layerCell);
+        }
+      }
+    }
+  }
+
+  const ids = new Set([
+    ...base.getFeatures().map(({ id }) => id),
+    ...target.getFeatures().map(({ id }) => id),
+  ]);
+  for (const id of ids) {
+    const feature = target.getFeature(id);
+    const baseFeature = base.getFeature(id);
+    const key = feature && getFeatureKey(feature);
+    if (key !== (baseFeature && getFeatureKey(baseFeature))) {
+      builder.setFeature(id, feature);
+    }
+  }
+
+  const resized = base.width !== target.width || base.height !== target.height;
+  return builder.build(
+    target.name,
+    getMapChecksum(base),
+    getMapChecksum(target),
+    resized ? { width: target.width, height: target.height } : null
+  );
+}
+
+/**
+ * Compute a diff from the events a map published since it was at a known
+ * version, e.g. everything edited on the server during a tick
+ * @param map The map the events came from, in its current state
+ * @param events Events of the map, oldest first
+ * @param base Checksum of the map before the events, from getMapChecksum
+ */
+export function diffFromEvents(
+  map: GameMap,
+  events: MapEvent[],
+  base: string
+): IMapDiff {
+  const cells: Record<string, { x: number; y: number }> = {};
+  const heights: Record<string, { x: number; y: number }> = {};
+  const layers: Record<string, { layer: string; x: number; y: number }> = {};
+  const features = new Set<string>();
+  let resized = false;
+  // Smallest size the map had, cells beyond it were reset by a resize
+  let kept = { width: Infinity, height: Infinity };
+
+  for (const event of events) {
+    if (event.mapId !== map.name) continue;
+
+    const [x, y] = event.position;
+    switch (event.type) {
+      case 'terrainChanged':
+        cells[`${x},${y}`] = { x, y };
+        break;
+      case 'elevationChanged':
+        heights[`${x},${y}`] = { x, y };
+        break;
+      case 'layerChanged': {
+        const { layer } = event.data;
+        layers[`${layer}:${x},${y}`] = { layer, x, y };
+        break;
+      }
+      case 'featureChanged':
+        features.add(event.data.feature);
+        break;
+      case 'mapChanged': {
+        const { change, before, after } = event.data;
+        if (change !== 'resized' || !before || !after) break;
+        resized = true;
+        kept = {
+          width: Math.min(kept.width, before.width, after.width),
+          height: Math.min(kept.height, before.height, after.height),
+        };
+        break;
+      }
+    }
+  }
+
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      if (x >= kept.width || y >= kept.height) {
+        cells[`${x},${y}`] = { x, y };
+        heights[`${x},${y}`] = { x, y };
+      }
+    }
+  }
+
+  // Current values are sent, cells cut off by a later resize are skipped.
+  // Cells added by a resize have empty layers on every map, so only the
+  // layer cells of events are needed.
+  const builder = new DiffBuilder();
+  for (const { x, y } of Object.values(cells)) {
+    const cell = x < map.width && y < map.height ? map.cells[y]![x] : null;
+    if (cell) builder.setCell(x, y, cell);
+  }
+  for (const { x, y } of Object.values(heights)) {
+    if (x < map.width && y < map.height) {
+      builder.setHeight(x, y, map.getElevation(x, y) ?? 0);
+    }
+  }
+  for (const { layer, x, y } of Object.values(layers)) {
+    if (x < map.width && y < map.height) {
+      builder.setLayer(layer, x, y, map.getLayerCell(layer, x, y));
+    }
+  }
+  // Features cut off by a later resize are gone from every map
+  for (const id of features) {
+    builder.setFeature(id, map.getFeature(id));
+  }
+
+  return builder.build(
+    map.name,
+    base,
+    getMapChecksum(map),
+    resized ? { width: map.width, height: map.height } : null
+  );
+}
+
+/**
+ * Apply a diff to a map, as a single notification to its subscribers
+ * @throws MapPatchConflictError if the map is not at the diff's base version,
+ * the map is left untouched. Diffs received from the network must go through
+ * readMapDiff first, malformed diffs may fail halfway through.
+ */
+export function applyMapDiff(map: GameMap, diff: IMapDiff): void {
+  const actual = getMapChecksum(map);
+  if (actual !== diff.base) {
+    throw new MapPatchConflictError(map.name, diff.base, actual);
+  }
+
+  map.batch(() => {
+    if (diff.size) {
+      map.resize(diff.size.width, diff.size.height);
+    }
+
+    for (let i = 0; i < diff.cells.length; i += 3) {
+      // Cells are written as they are on the source map, registry defaults
+      // already went into them there
+      map.setCell(
+        diff.cells[i]!,
+        diff.cells[i + 1]!,
+        diff.palette[diff.cells[i + 2]!]!
+      );
+    }
+
+    for (let i = 0; i < diff.elevation.length; i += 3) {
+      map.setElevation(
+        diff.elevation[i]!,
+        diff.elevation[i + 1]!,
+        diff.elevation[i + 2]!
+      );
+    }
+
+    for (const { layer, x, y, cell } of diff.layers ?? []) {
+      if (cell) {
+        map.setLayerTerrain(layer, x, y, cell.terrain, cell.properties);
+      } else {
+        map.clearLayer(layer, x, y);
+      }
+    }
+
+    for (const { id, feature } of diff.features ?? []) {
+      map.removeFeature(id);
+      if (feature) {
+        map.addFeature(id, feature.type, feature.x, feature.y, feature);
+      }
+    }
+  });
+}
+
+/**
+ * Validate a diff received from the network
+ * @throws MapSerializationError when the data is not a valid diff
+ */
+export function readMapDiff(data: unknown): IMapDiff {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new MapSerializationError('diff must be an object', 'diff');
+  }
+
+  const diff = data as Record<string, unknown>;
+  for (const key of ['mapId', 'base', 'target']) {
+    if (typeof diff[key] !== 'string') {
+      throw new MapSerializationError(
+        `diff.${key} must be a string`,
+        `diff.${key}`
+      );
+    }
+  }
+
+  const size = diff.size as Record<string, unknown> | undefined;
+  if (
+    size !== undefined &&
+    !(isPositiveInteger(size?.width) && isPositiveInteger(size?.height))
+  ) {
+    throw new MapSerializationError(
+      'diff.size must have a positive integer width and height',
+      'diff.size'
+    );
+  }
+
+  if (!Array.isArray(diff.palette)) {
+    throw new MapSerializationError(
+      'diff.palette must be an array',
+      'diff.palette'
+    );
+  }
+  diff.palette.forEach((cell: unknown, i) => {
+    const entry = cell as Partial<IMapCell> | null;
+    if (
+      typeof entry?.terrain !== 'string' ||
+      typeof entry.properties?.movementCost !== 'number'
+    ) {
+      throw new MapSerializationError(
+        `diff.palette[${i}] must have a terrain and a movementCost`,
+        `diff.palette[${i}]`
+      );
+    }
+  });
+
+  for (const key of ['cells', 'elevation']) {
+    const triples = diff[key];
+    if (
+      !Array.isArray(triples) ||
+      triples.length % 3 !== 0 ||
+      !triples.every(value => typeof value === 'number')
+    ) {
+      throw new MapSerializationError(
+        `diff.${key} must be an array of [x, y, value] number triples`,
+        `diff.${key}`
+      );
+    }
+  }
+
+  for (const key of ['cells', 'elevation']) {
+    (diff[key] as number[]).forEach((value, i) => {
+      if (i % 3 !== 2 && !Number.isInteger(value)) {
+        throw new MapSerializationError(
+          `diff.${key}[${i}] must be an integer coordinate`,
+          `diff.${key}[${i}]`
+        );
+      }
+    });
+  }
+
+  const paletteSize = diff.palette.length;
+  (diff.cells as number[]).forEach((value, i) => {
+    if (
+      i % 3 === 2 &&
+      !(Number.isInteger(value) && value >= 0 && value < paletteSize)
+    ) {
+      throw new MapSerializationError(
+        `diff.cells[${i}] references unknown palette entry ${value}`,
+        `diff.cells[${i}]`
+      );
+    }
+  });
+
+  if (diff.layers !== undefined) {
+    if (!Array.isArray(diff.layers)) {
+      throw new MapSerializationError(
+        'diff.layers must be an array',
+        'diff.layers'
+      );
+    }
+    diff.layers.forEach((entry: unknown, i) => {
+      const change = entry as Partial<ILayerDiffCell> | null;
+      const cell = change?.cell as Partial<ILayerCell> | null | undefined;
+      const isValid =
+        typeof change?.layer === 'string' &&
+        Number.isInteger(change.x) &&
+        Number.isInteger(change.y) &&
+        (cell === null ||
+          (typeof cell?.terrain === 'string' &&
+            typeof cell.properties === 'object' &&
+            cell.properties !== null));
+      if (!isValid) {
+        throw new MapSerializationError(
+          `diff.layers[${i}] must have a layer, an x and y and a cell or null`,
+          `diff.layers[${i}]`
+        );
+      }
+    });
+  }
+
+  if (diff.features !== undefined) {
+    if (!Array.isArray(diff.features)) {
+      throw new MapSerializationError(
+        'diff.features must be an array',
+        'diff.features'
+      );
+    }
+    diff.features.forEach((entry: unknown, i) => {
+      const change = entry as Partial<IFeatureDiff> | null;
+      const feature = change?.feature as Partial<ICellFeature> | null;
+      const isValid =
+        typeof change?.id === 'string' &&
+        (feature === null ||
+          (feature?.id === change.id &&
+            typeof feature.type === 'string' &&
+            typeof feature.state === 'string' &&
+            Number.isInteger(feature.x) &&
+            Number.isInteger(feature.y) &&
+            (feature.hitPoints === undefined ||
+              typeof feature.hitPoints === 'number') &&
+            (feature.links === undefined ||
+              (Array.isArray(feature.links) &&
+                feature.links.every(link => typeof link === 'string')))));
+      if (!isValid) {
+        throw new MapSerializationError(
+          `diff.features[${i}] must have an id and a feature with that id or null`,
+          `diff.features[${i}]`
+        );
+      }
+    });
+  }
+
+  return diff as unknown as IMapDiff;
+}
+
+/**
+ * Collects changed cells and heights into the compact diff format
+ */
+class DiffBuilder {
+  private palette: IMapCell[] = [];
+  private paletteIndex: Record<string, number> = {};
+  private cells: number[] = [];
+  private elevation: number[] = [];
+  private layers: ILayerDiffCell[] = [];
+  private features: IFeatureDiff[] = [];
+
+  setCell(x: number, y: number, cell: IMapCell): void {
+    const key = getCellKey(cell);
+    let index = this.paletteIndex[key];
+    if (index === undefined) {
+      index = this.palette.length;
+      this.paletteIndex[key] = index;
+      this.palette.push({
+        terrain: cell.terrain,
+        properties: { ...cell.properties },
+      });
+    }
+    this.cells.push(x, y, index);
+  }
+
+  setHeight(x: number, y: number, height: number): void {
+    this.elevation.push(x, y, height);
+  }
+
+  setLayer(layer: string, x: number, y: number, cell: ILayerCell | null): void {
+    this.layers.push({
+      layer,
+      x,
+      y,
+      cell: cell
+        ? { terrain: cell.terrain, properties: { ...cell.properties } }
+        : null,
+    });
+  }
+
+  setFeature(id: string, feature: ICellFeature | null): void {
+    this.features.push({
+      id,
+      feature: feature
+        ? {
+            ...feature,
+            ...(feature.links ? { links: [...feature.links] } : {}),
+          }
+        : null,
+    });
+  }
+
+  build(
+    mapId: string,
+    base: string,
+    target: string,
+    size: { width: number; height: number } | null
+  ): IMapDiff {
+    return {
+      mapId,
+      base,
+      target,
+      ...(size ? { size } : {}),
+      palette: this.palette,
+      cells: this.cells,
+      elevation: this.elevation,
+      ...(this.layers.length > 0 ? { layers: this.layers } : {}),
+      ...(this.features.length > 0 ? { features: this.features } : {}),
+    };
+  }
+}
+
+function getLayerKey(cell: ILayerCell | null): string | null {
+  return cell ? getCellKey(cell) : null;
+}
+
+function getFeatureKey(feature: ICellFeature): string {
+  const { id, type, x, y, state, hitPoints, links } = feature;
+  return JSON.stringify([id, type, x, y, state, hitPoints, links]);
+}
+
+/**
+ * Continue an FNV-1a hash with the characters of a string
+ */
+function hashString(hash: number, value: string): number {
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
@@ -0,0 +1,567 @@
+import type {
+  ICellFeature,
+  ILayerCell,
+  IMapCell,
+  IMapConfig,
+  IMapPosition,
+  IMapRegion,
+  ISerializedLayerCell,
+  ISerializedMap,
+  ISerializedPortal,
+  ISerializedWorld,
+  SerializationMigration,
+} from '../types/mapTypes';
+
+/**
+ * Current schema versions written by toJSON
+ */
+export const MAP_SCHEMA_VERSION = 1;
+export const WORLD_SCHEMA_VERSION = 1;
+
+const mapMigrations: Record<number, SerializationMigration> = {};
+const worldMigrations: Record<number, SerializationMigration> = {};
+
+/**
+ * Error thrown when serialized map or world data cannot be loaded
+ */
+export class MapSerializationError extends Error {
+  /** Location of the offending value, e.g. `maps[0].cells[12]` */
+  readonly path: string;
+  /** Offending cell coordinates, when the error concerns a single cell */
+  readonly cell: { x: number; y: number } | null;
+
+  constructor(
+    message: string,
+    path: string,
+    cell: { x: number; y: number } | null = null
+  ) {
+    super(message);
+    this.name = 'MapSerializationError';
+    this.path = path;
+    this.cell = cell;
+  }
+}
+
+/**
+ * Register a migration upgrading serialized maps from a version to the next one
+ */
+export function registerMapMigration(
+  fromVersion: number,
+  migrate: SerializationMigration
+): void {
+  mapMigrations[fromVersion] = migrate;
+}
+
+/**
+ * Register a migration upgrading serialized worlds from a version to the next one
+ */
+export function registerWorldMigration(
+  fromVersion: number,
+  migrate: SerializationMigration
+): void {
+  worldMigrations[fromVersion] = migrate;
+}
+
+/**
+ * Encode a cell grid as a palette of unique cells plus a row-major index grid
+ */
+export function encodeCells(cells: IMapCell[][]): {
+  palette: IMapCell[];
+  cells: number[];
+} {
+  const palette: IMapCell[] = [];
+  const paletteIndex: Record<string, number> = {};
+  const indices: number[] = [];
+
+  for (const row of cells) {
+    for (const cell of row) {
+      const key = getCellKey(cell);
+      let index = paletteIndex[key];
+      if (index === undefined) {
+        index = palette.length;
+        paletteIndex[key] = index;
+        palette.push({
+          terrain: cell.terrain,
+          properties: { ...cell.properties },
+        });
+      }
+      indices.push(index);
+    }
+  }
+
+  return { palette, cells: indices };
+}
+
+/**
+ * Migrate and validate serialized map data
+ * @param data Parsed JSON data
+ * @param path Location of the data, used in error messages
+ * @returns The data in the current schema version
+ * @throws MapSerializationError when the data is invalid
+ */
+export function readSerializedMap(
+  data: unknown,
+  path: string = 'map'
+): ISerializedMap {
+  const migrated = migrate(data, mapMigrations, MAP_SCHEMA_VERSION, path);
+
+  const {
+    name,
+    width,
+    height,
+    config,
+    palette,
+    cells,
+    elevation,
+    layers,
+    features,
+    regions,
+  } = migrated;
+  if (typeof name !== 'string') {
+    throw new MapSerializationError(
+      `${path}.name must be a string`,
+      `${path}.name`
+    );
+  }
+  if (!isPositiveInteger(width)) {
+    throw new MapSerializationError(
+      `${path}.width must be a positive integer`,
+      `${path}.width`
+    );
+  }
+  if (!isPositiveInteger(height)) {
+    throw new MapSerializationError(
+      `${path}.height must be a positive integer`,
+      `${path}.height`
+    );
+  }
+
+  const validConfig = readConfig(config, `${path}.config`);
+  const validPalette = readPalette(palette, `${path}.palette`);
+
+  if (!Array.isArray(cells) || cells.length !== width * height) {
+    throw new MapSerializationError(
+      `${path}.cells must be an array of ${width * height} palette indices`,
+      `${path}.cells`
+    );
+  }
+
+  cells.forEach((index: unknown, i) => {
+    if (
+      typeof index !== 'number' ||
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= validPalette.length
+    ) {
+      const cell = { x: i % width, y: Math.floor(i / width) };
+      throw new MapSerializationError(
+        `${path}: cell (${cell.x}, ${cell.y}) references unknown palette entry ${String(index)}`,
+        `${path}.cells[${i}]`,
+        cell
+      );
+    }
+  });
+
+  if (elevation !== undefined) {
+    if (!Array.isArray(elevation) || elevation.length !== width * height) {
+      throw new MapSerializationError(
+        `${path}.elevation must be an array of ${width * height} heights`,
+        `${path}.elevation`
+      );
+    }
+
+    elevation.forEach((value: unknown, i) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        const cell = { x: i % width, y: Math.floor(i / width) };
+        throw new MapSerializationError(
+          `${path}: cell (${cell.x}, ${cell.y}) has invalid elevation ${String(value)}`,
+          `${path}.elevation[${i}]`,
+          cell
+        );
+      }
+    });
+  }
+
+  return {
+    version: MAP_SCHEMA_VERSION,
+    name,
+    width,
+    height,
+    config: validConfig,
+    palette: validPalette,
+    cells: cells as number[],
+    ...(elevation !== undefined ? { elevation: elevation as number[] } : {}),
+    ...(layers !== undefined
+      ? { layers: readLayers(layers, width, height, `${path}.layers`) }
+      : {}),
+    ...(features !== undefined
+      ? {
+          features: readFeatures(features, width, height, `${path}.features`),
+        }
+      : {}),
+    ...(regions !== undefined
+      ? { regions: readRegions(regions, `${path}.regions`) }
+      : {}),
+  };
+}
+
+/**
+ * Migrate and validate serialized world data, including every map in it
+ * @throws MapSerializationError when the data is invalid
+ */
+export function readSerializedWorld(data: unknown): ISerializedWorld {
+  const migrated = migrate(
+    data,
+    worldMigrations,
+    WORLD_SCHEMA_VERSION,
+    'world'
+  );
+
+  if (!Array.isArray(migrated.maps)) {
+    throw new MapSerializationError(
+      'world.maps must be an array',
+      'world.maps'
+    );
+  }
+
+  const portals = migrated.portals;
+  if (portals !== undefined && !Array.isArray(portals)) {
+    throw new MapSerializationError(
+      'world.portals must be an array',
+      'world.portals'
+    );
+  }
+
+  return {
+    version: WORLD_SCHEMA_VERSION,
+    maps: migrated.maps.map((map: unknown, i) =>
+      readSerializedMap(map, `world.maps[${i}]`)
+    ),
+    ...(portals !== undefined
+      ? {
+          portals: portals.map((portal: unknown, i) =>
+            readPortal(portal, `world.portals[${i}]`)
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Apply registered migrations until the data reaches the current version
+ */
+function migrate(
+  data: unknown,
+  migrations: Record<number, SerializationMigration>,
+  currentVersion: number,
+  path: string
+): Record<string, unknown> {
+  if (!isRecord(data)) {
+    throw new MapSerializationError(`${path} must be an object`, path);
+  }
+
+  let migrated = data;
+  let version = migrated.version;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    throw new MapSerializationError(
+      `${path}.version must be an integer`,
+      `${path}.version`
+    );
+  }
+  if (version > currentVersion) {
+    throw new MapSerializationError(
+      `${path}.version ${version} is newer than the supported version ${currentVersion}`,
+      `${path}.version`
+    );
+  }
+
+  while (version < currentVersion) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new MapSerializationError(
+        `${path}: no migration registered from version ${version}`,
+        `${path}.version`
+      );
+    }
+    version++;
+    migrated = { ...migration(migrated), version };
+  }
+
+  return migrated;
+}
+
+function readConfig(config: unknown, path: string): IMapConfig {
+  if (config === undefined) return {};
+  if (!isRecord(config)) {
+    throw new MapSerializationError(`${path} must be an object`, path);
+  }
+
+  const expectedTypes: Record<string, string> = {
+    wrapEdges: 'boolean',
+    defaultTerrain: 'string',
+    defaultMovementCost: 'number',
+    strictTerrain: 'string',
+    stacking: 'object',
+    grid: 'object',
+    topology: 'string',
+    elevation: 'object',
+    layers: 'object',
+    features: 'object',
+  };
+
+  for (const [key, expectedType] of Object.entries(expectedTypes)) {
+    const value = config[key];
+    if (value !== undefined && typeof value !== expectedType) {
+      throw new MapSerializationError(
+        `${path}.${key} must be a ${expectedType}`,
+        `${path}.${key}`
+      );
+    }
+  }
+
+  return { ...config } as IMapConfig;
+}
+
+function readLayers(
+  layers: unknown,
+  width: number,
+  height: number,
+  path: string
+): Record<string, ISerializedLayerCell[]> {
+  if (!isRecord(layers)) {
+    throw new MapSerializationError(`${path} must be an object`, path);
+  }
+
+  for (const [layer, cells] of Object.entries(layers)) {
+    if (!Array.isArray(cells)) {
+      throw new MapSerializationError(
+        `${path}.${layer} must be an array`,
+        `${path}.${layer}`
+      );
+    }
+
+    cells.forEach((cell: unknown, i) => {
+      const isValid =
+        isRecord(cell) &&
+        Number.isInteger(cell.x) &&
+        Number.isInteger(cell.y) &&
+        (cell.x as number) >= 0 &&
+        (cell.x as number) < width &&
+        (cell.y as number) >= 0 &&
+        (cell.y as number) < height &&
+        typeof cell.terrain === 'string' &&
+        isRecord(cell.properties);
+      if (!isValid) {
+        throw new MapSerializationError(
+          `${path}.${layer}[${i}] must have an x and y on the map, a terrain and properties`,
+          `${path}.${layer}[${i}]`
+        );
+      }
+    });
+  }
+
+  return layers as Record<string, ISerializedLayerCell[]>;
+}
+
+function readFeatures(
+  features: unknown,
+  width: number,
+  height: number,
+  path: string
+): ICellFeature[] {
+  if (!Array.isArray(features)) {
+    throw new MapSerializationError(`${path} must be an array`, path);
+  }
+
+  const ids = new Set<string>();
+  features.forEach((feature: unknown, i) => {
+    const isValid =
+      isRecord(feature) &&
+      ['id', 'type', 'state'].every(key => typeof feature[key] === 'string') &&
+      Number.isInteger(feature.x) &&
+      Number.isInteger(feature.y) &&
+      (feature.x as number) >= 0 &&
+      (feature.x as number) < width &&
+      (feature.y as number) >= 0 &&
+      (feature.y as number) < height &&
+      (feature.hitPoints === undefined ||
+        typeof feature.hitPoints === 'number') &&
+      (feature.links === undefined ||
+        (Array.isArray(feature.links) &&
+          feature.links.every(link => typeof link === 'string')));
+    if (!isValid) {
+      throw new MapSerializationError(
+        `${path}[${i}] must have an id, type, state and an x and y on the map`,
+        `${path}[${i}]`
+      );
+    }
+
+    const id = feature.id as string;
+    if (ids.has(id)) {
+      throw new MapSerializationError(
+        `${path} contains a duplicate feature id ${id}`,
+        `${path}[${i}].id`
+      );
+    }
+    ids.add(id);
+  });
+
+  return features as ICellFeature[];
+}
+
+function readRegions(regions: unknown, path: string): IMapRegion[] {
+  if (!Array.isArray(regions)) {
+    throw new MapSerializationError(`${path} must be an array`, path);
+  }
+
+  const names = new Set<string>();
+  regions.forEach((region: unknown, i) => {
+    if (
+      !isRecord(region) ||
+      typeof region.name !== 'string' ||
+      !Array.isArray(region.tags) ||
+      !region.tags.every(tag => typeof tag === 'string')
+    ) {
+      throw new MapSerializationError(
+        `${path}[${i}] must have a name and an array of tags`,
+        `${path}[${i}]`
+      );
+    }
+
+    const shape = region.shape;
+    const isValidShape =
+      isRecord(shape) &&
+      (shape.type === 'rectangle'
+        ? ['x', 'y', 'width', 'height'].every(key =>
+            Number.isInteger(shape[key])
+          )
+        : (shape.type === 'polygon' || shape.type === 'cells') &&
+          isPositionArray(
+            shape.type === 'polygon' ? shape.points : shape.cells
+          ));
+    if (!isValidShape) {
+      throw new MapSerializationError(
+        `${path}[${i}].shape must be a rectangle, polygon or cells shape`,
+        `${path}[${i}].shape`
+      );
+    }
+
+    if (names.has(region.name)) {
+      throw new MapSerializationError(
+        `${path} contains a duplicate region name ${region.name}`,
+        `${path}[${i}].name`
+      );
+    }
+    names.add(region.name);
+  });
+
+  return regions as IMapRegion[];
+}
+
+function readPortal(portal: unknown, path: string): ISerializedPortal {
+  if (!isRecord(portal) || typeof portal.id !== 'string') {
+    throw new MapSerializationError(
+      `${path}.id must be a string`,
+      `${path}.id`
+    );
+  }
+  if (portal.cost !== undefined && typeof portal.cost !== 'number') {
+    throw new MapSerializationError(
+      `${path}.cost must be a number`,
+      `${path}.cost`
+    );
+  }
+  if (
+    portal.bidirectional !== undefined &&
+    typeof portal.bidirectional !== 'boolean'
+  ) {
+    throw new MapSerializationError(
+      `${path}.bidirectional must be a boolean`,
+      `${path}.bidirectional`
+    );
+  }
+
+  return {
+    ...portal,
+    id: portal.id,
+    from: readMapPosition(portal.from, `${path}.from`),
+    to: readMapPosition(portal.to, `${path}.to`),
+  } as ISerializedPortal;
+}
+
+function readMapPosition(value: unknown, path: string): IMapPosition {
+  if (
+    !isRecord(value) ||
+    typeof value.mapId !== 'string' ||
+    !isRecord(value.position) ||
+    !Number.isInteger(value.position.x) ||
+    !Number.isInteger(value.position.y)
+  ) {
+    throw new MapSerializationError(
+      `${path} must have a mapId and integer x, y coordinates`,
+      path
+    );
+  }
+
+  const { x, y } = value.position as { x: number; y: number };
+  return { mapId: value.mapId, position: { x, y } };
+}
+
+function readPalette(palette: unknown, path: string): IMapCell[] {
+  if (!Array.isArray(palette)) {
+    throw new MapSerializationError(`${path} must be an array`, path);
+  }
+
+  return palette.map((entry: unknown, i) => {
+    const entryPath = `${path}[${i}]`;
+    if (!isRecord(entry) || typeof entry.terrain !== 'string') {
+      throw new MapSerializationError(
+        `${entryPath}.terrain must be a string`,
+        `${entryPath}.terrain`
+      );
+    }
+
+    const properties = entry.properties;
+    if (!isRecord(properties) || typeof properties.movementCost !== 'number') {
+      throw new MapSerializationError(
+        `${entryPath}.properties.movementCost must be a number`,
+        `${entryPath}.properties.movementCost`
+      );
+    }
+
+    return {
+      terrain: entry.terrain,
+      properties: { ...properties, movementCost: properties.movementCost },
+    };
+  });
+}
+
+/**
+ * Stable key for a cell, independent of property insertion order
+ */
+export function getCellKey(cell: IMapCell | ILayerCell): string {
+  const properties = Object.keys(cell.properties)
+    .sort()
+    .map(key => [key, cell.properties[key as keyof IMapCell['properties']]]);
+  return JSON.stringify([cell.terrain, properties]);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isPositionArray(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      position =>
+        isRecord(position) &&
+        typeof position.x === 'number' &&
+        typeof position.y === 'number'
+    )
+  );
+}
@@ -0,0 +1,139 @@
+import type { IPosition } from '../types/positionTypes';
+import type {
+  IGridMap,
+  IMovementRange,
+  IMovementRangeOptions,
+  IReachableTile,
+} from '../types/mapTypes';
+import { PriorityQueue } from './priorityQueue';
+import {
+  getSearchKey,
+  getStepCost,
+  getWalkableNeighbors,
+  isWalkableFor,
+} from './pathfinding';
+
+/**
+ * Get every tile a unit can reach from an origin without exceeding a movement budget
+ * @param map The map to search
+ * @param origin The tile the unit starts from
+ * @param budget The movement points available
+ * @param options Diagonal movement and how other units' tiles are treated
+ * @returns The reachable tiles with their cheapest cost and predecessor
+ */
+export function getMovementRange(
+  map: IGridMap,
+  origin: IPosition,
+  budget: number,
+  options: IMovementRangeOptions = {}
+): IMovementRange {
+  const allowDiagonal = options.allowDiagonal ?? true;
+  const occupiedTiles = options.occupiedTiles ?? 'blocking';
+  const { movingUnitId } = options;
+
+  const start = map.normalizePosition(origin.x, origin.y);
+  if (!start) {
+    return { origin, budget, tiles: [] };
+  }
+
+  const occupied = new Set<number>();
+  for (const occupant of options.occupants ?? []) {
+    if (occupant.mapId !== map.name) continue;
+    if (occupant.unitId === movingUnitId) continue;
+
+    const tile = map.normalizePosition(
+      occupant.position.x,
+      occupant.position.y
+    );
+    if (tile) occupied.add(getSearchKey(map, tile.x, tile.y));
+  }
+
+  // Cells are only stored once reached, the budget bounds the search
+  const startKey = getSearchKey(map, start.x, start.y);
+  const costSoFar = new Map<number, number>([[startKey, 0]]);
+  const cameFrom = new Map<number, IPosition>();
+  const settled: IPosition[] = [];
+  const closed = new Set<number>();
+
+  const open = new PriorityQueue<IPosition>();
+  open.push(start, 0);
+
+  while (!open.isEmpty()) {
+    const current = open.pop()!;
+    const currentKey = getSearchKey(map, current.x, current.y);
+    if (closed.has(currentKey)) continue;
+    closed.add(currentKey);
+    settled.push(current);
+
+    for (const next of getWalkableNeighbors(
+      map,
+      current.x,
+      current.y,
+      allowDiagonal,
+      // Units on the map only block the tiles they stand on
+      occupiedTiles === 'blocking' ? movingUnitId : undefined
+    )) {
+      const nextKey = getSearchKey(map, next.x, next.y);
+      if (closed.has(nextKey)) continue;
+      if (occupied.has(nextKey) && occupiedTiles === 'blocking') continue;
+
+      const newCost =
+        costSoFar.get(currentKey)! +
+        getStepCost(map, current.x, current.y, next.x, next.y);
+      if (newCost > budget || newCost >= (costSoFar.get(nextKey) ?? Infinity)) {
+        continue;
+      }
+
+      costSoFar.set(nextKey, newCost);
+      cameFrom.set(nextKey, current);
+      open.push(next, newCost);
+    }
+  }
+
+  const tiles: IReachableTile[] = settled.map(({ x, y }) => {
+    const key = getSearchKey(map, x, y);
+    const previous = cameFrom.get(key);
+    return {
+      x,
+      y,
+      cost: costSoFar.get(key)!,
+      previous: previous ? { x: previous.x, y: previous.y } : null,
+      canEndMove:
+        key === startKey ||
+        (!occupied.has(key) && isWalkableFor(map, x, y, movingUnitId)),
+    };
+  });
+
+  return { origin: start, budget, tiles };
+}
+
+/**
+ * Rebuild the cheapest route from a movement range's origin to one of its tiles
+ * @returns The tiles from origin to target, or null if the target is not
+ * reachable or cannot be ended on
+ */
+export function getPathInMovementRange(
+  range: IMovementRange,
+  target: IPosition
+): IPosition[] | null {
+  const byKey: Record<string, IReachableTile> = {};
+  for (const tile of range.tiles) {
+    byKey[`${tile.x},${tile.y}`] = tile;
+  }
+
+  const targetTile = byKey[`${target.x},${target.y}`];
+  if (!targetTile || !targetTile.canEndMove) {
+    return null;
+  }
+
+  const path: IPosition[] = [];
+  let tile: IReachableTile | undefined = targetTile;
+  while (tile) {
+    path.push({ x: tile.x, y: tile.y });
+    tile = tile.previous
+      ? byKey[`${tile.previous.x},${tile.previous.y}`]
+      : undefined;
+  }
+
+  return path.reverse();
+}
@@ -0,0 +1,167 @@
+import type { INoiseOptions, NoiseType, Seed } from '../types/mapTypes';
+import { createSeededRandom } from './random';
+
+const GRADIENTS = [
+  [1, 1],
+  [-1, 1],
+  [1, -1],
+  [-1, -1],
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+] as const;
+
+// Skew factors between the square grid and the simplex grid
+const SKEW = (Math.sqrt(3) - 1) / 2;
+const UNSKEW = (3 - Math.sqrt(3)) / 6;
+
+/**
+ * Create a seeded 2D noise function. Values change smoothly with the
+ * coordinates and repeat every 256 units.
+ * @param type Noise algorithm (default: simplex)
+ * @returns A function giving the noise at a point, in [0, 1]
+ */
+export function createNoise2D(
+  seed: Seed,
+  type: NoiseType = 'simplex'
+): (x: number, y: number) => number {
+  const perm = createPermutation(seed);
+
+  switch (type) {
+    case 'value':
+      return (x, y) => valueNoise(perm, x, y);
+    case 'perlin':
+      return (x, y) => clamp01((perlinNoise(perm, x, y) + 1) / 2);
+    case 'simplex':
+    default:
+      return (x, y) => clamp01((simplexNoise(perm, x, y) + 1) / 2);
+  }
+}
+
+/**
+ * Create a seeded fractal noise function adding several octaves of noise,
+ * each one finer and fainter than the previous one
+ * @returns A function giving the noise at a cell, in [0, 1]
+ */
+export function createFractalNoise2D(
+  seed: Seed,
+  options: INoiseOptions = {}
+): (x: number, y: number) => number {
+  const noise = createNoise2D(seed, options.type);
+  const scale = options.scale ?? 32;
+  const octaves = Math.max(1, Math.floor(options.octaves ?? 4));
+  const persistence = options.persistence ?? 0.5;
+  const lacunarity = options.lacunarity ?? 2;
+
+  return (x, y) => {
+    let total = 0;
+    let amplitudeSum = 0;
+    let amplitude = 1;
+    let frequency = 1 / scale;
+
+    for (let octave = 0; octave < octaves; octave++) {
+      // Shift every octave so their lattices do not line up at the origin
+      const shift = octave * 17.31;
+      total += noise(x * frequency + shift, y * frequency + shift) * amplitude;
+      amplitudeSum += amplitude;
+      amplitude *= persistence;
+      frequency *= lacunarity;
+    }
+
+    return amplitudeSum > 0 ? total / amplitudeSum : 0;
+  };
+}
+
+/**
+ * Shuffled 0-255 permutation repeated twice, so lookups never need wrapping
+ */
+function createPermutation(seed: Seed): Uint8Array {
+  const random = createSeededRandom(seed);
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 256; i++) perm[i] = i;
+
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [perm[i], perm[j]] = [perm[j]!, perm[i]!];
+  }
+  for (let i = 0; i < 256; i++) perm[i + 256] = perm[i]!;
+
+  return perm;
+}
+
+function hash(perm: Uint8Array, x: number, y: number): number {
+  return perm[(x & 255) + perm[y & 255]!]!;
+}
+
+function valueNoise(perm: Uint8Array, x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const u = fade(x - x0);
+  const v = fade(y - y0);
+
+  const top = lerp(hash(perm, x0, y0), hash(perm, x0 + 1, y0), u);
+  const bottom = lerp(hash(perm, x0, y0 + 1), hash(perm, x0 + 1, y0 + 1), u);
+  return lerp(top, bottom, v) / 255;
+}
+
+function perlinNoise(perm: Uint8Array, x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const corner = (cx: number, cy: number) =>
+    gradientDot(hash(perm, x0 + cx, y0 + cy), fx - cx, fy - cy);
+
+  const u = fade(fx);
+  const top = lerp(corner(0, 0), corner(1, 0), u);
+  const bottom = lerp(corner(0, 1), corner(1, 1), u);
+  return lerp(top, bottom, fade(fy));
+}
+
+function simplexNoise(perm: Uint8Array, x: number, y: number): number {
+  const skew = (x + y) * SKEW;
+  const i = Math.floor(x + skew);
+  const j = Math.floor(y + skew);
+  const unskew = (i + j) * UNSKEW;
+  const x0 = x - (i - unskew);
+  const y0 = y - (j - unskew);
+
+  // Second corner of the simplex triangle containing the point
+  const i1 = x0 > y0 ? 1 : 0;
+  const j1 = x0 > y0 ? 0 : 1;
+
+  const corners = [
+    [x0, y0, 0, 0],
+    [x0 - i1 + UNSKEW, y0 - j1 + UNSKEW, i1, j1],
+    [x0 - 1 + 2 * UNSKEW, y0 - 1 + 2 * UNSKEW, 1, 1],
+  ] as const;
+
+  let total = 0;
+  for (const [dx, dy, ci, cj] of corners) {
+    const falloff = 0.5 - dx * dx - dy * dy;
+    if (falloff <= 0) continue;
+    const gradient = hash(perm, i + ci, j + cj);
+    total += falloff ** 4 * gradientDot(gradient, dx, dy);
+  }
+
+  return 70 * total;
+}
+
+function gradientDot(hashValue: number, dx: number, dy: number): number {
+  const [gx, gy] = GRADIENTS[hashValue & 7]!;
+  return gx * dx + gy * dy;
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,216 @@
+import type { IPosition } from '../types/positionTypes';
+import type {
+  IGridMap,
+  IPathfindingOptions,
+  PathResult,
+} from '../types/mapTypes';
+import { PriorityQueue } from './priorityQueue';
+
+// Columns numbered per row on maps of endless width, enough for any
+// coordinate a search can reach
+const ENDLESS_ROW_STRIDE = 2 ** 26;
+
+// Default search bound on endless maps, where an unreachable goal would
+// otherwise be searched for ever
+const ENDLESS_COST_FACTOR = 2;
+const ENDLESS_COST_MARGIN = 32;
+
+// Cell reached by a search, with the cheapest way found to it so far
+interface ISearchNode extends IPosition {
+  cost: number;
+  previous: ISearchNode | null;
+  closed: boolean; // Set once its cost is final
+}
+
+/**
+ * Number identifying a cell of a map during a search, on endless maps too
+ */
+export function getSearchKey(map: IGridMap, x: number, y: number): number {
+  return Number.isFinite(map.width)
+    ? y * map.width + x
+    : y * ENDLESS_ROW_STRIDE + x + ENDLESS_ROW_STRIDE / 2;
+}
+
+/**
+ * Check if a unit may stand on a tile, following the map's occupancy
+ * @param unitId The moving unit, leave it out to only check the terrain
+ * @throws Error if a unit is given on a map that holds no units
+ */
+export function isWalkableFor(
+  map: IGridMap,
+  x: number,
+  y: number,
+  unitId?: string
+): boolean {
+  if (!map.isWalkable(x, y)) return false;
+  if (unitId === undefined) return true;
+
+  if (!map.canPlaceUnit) {
+    throw new Error(
+      `Map ${map.name} holds no units to check ${unitId} against`
+    );
+  }
+  return map.canPlaceUnit(unitId, x, y);
+}
+
+/**
+ * Cost of stepping onto a tile, diagonal steps are scaled by the diagonal length.
+ * Hex steps are all the same length. Climbing or descending adds the
+ * elevation cost of the map.
+ */
+export function getStepCost(
+  map: IGridMap,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number
+): number {
+  const cost = map.getMovementCost(toX, toY);
+  const isDiagonal = fromX !== toX && fromY !== toY && !map.topology.hexLayout;
+  const elevationCost = map.getElevationCost(fromX, fromY, toX, toY);
+  return (isDiagonal ? cost * Math.SQRT2 : cost) + elevationCost;
+}
+
+/**
+ * Get the walkable tiles a unit can step to from the given tile.
+ * Diagonal steps are only allowed when both orthogonal tiles are walkable,
+ * so paths never cut the corner of impassable terrain. Hex maps have no
+ * diagonals, all six neighbours are candidates. Steps too steep for the
+ * map's elevation settings are skipped.
+ * @param unitId The moving unit, tiles it cannot share with the map's
+ * occupants are skipped
+ */
+export function getWalkableNeighbors(
+  map: IGridMap,
+  x: number,
+  y: number,
+  allowDiagonal: boolean = true,
+  unitId?: string
+): Array<{ x: number; y: number }> {
+  const isHex = map.topology.hexLayout !== null;
+
+  return map
+    .getAdjacentCells(x, y, allowDiagonal)
+    .filter(({ x: nx, y: ny }) => {
+      if (!isWalkableFor(map, nx, ny, unitId)) return false;
+      // Cliffs too high to climb or drop down
+      if (!Number.isFinite(map.getElevationCost(x, y, nx, ny))) return false;
+      if (isHex || nx === x || ny === y) return true;
+
+      return map.isWalkable(nx, y) && map.isWalkable(x, ny);
+    })
+    .map(({ x: nx, y: ny }) => ({ x: nx, y: ny }));
+}
+
+/**
+ * Find the cheapest path between two tiles of a map using A*.
+ * Impassable terrain is avoided, each step costs the movement cost of the
+ * tile entered and wrapped maps are searched across their edges. Only the
+ * cells reached are stored, so large chunked maps can be searched too.
+ * @param map The map to search, a Map or a ChunkedMap
+ * @param from The starting tile, it only needs to be on the map
+ * @param to The goal tile, it must be walkable
+ * @param options Pathfinding options (default: diagonals allowed, chebyshev
+ * heuristic with diagonals and manhattan without), with unitId the map's
+ * occupancy is respected. Endless maps are searched up to twice the
+ * estimated cost plus 32 steps unless maxCost says otherwise.
+ * @returns The tiles from start to goal and the total cost, or the reason no
+ * path exists
+ */
+export function findPath(
+  map: IGridMap,
+  from: IPosition,
+  to: IPosition,
+  options: IPathfindingOptions = {}
+): PathResult {
+  const allowDiagonal = options.allowDiagonal ?? true;
+  const heuristic =
+    options.heuristic ?? (allowDiagonal ? 'chebyshev' : 'manhattan');
+
+  const start = map.normalizePosition(from.x, from.y);
+  if (!start) {
+    return { found: false, reason: 'invalidStart' };
+  }
+
+  const goal = isWalkableFor(map, to.x, to.y, options.unitId)
+    ? map.normalizePosition(to.x, to.y)
+    : null;
+  if (!goal) {
+    return { found: false, reason: 'invalidGoal' };
+  }
+
+  // Cells are only stored once reached, so endless maps can be searched
+  const nodes = new Map<number, ISearchNode>();
+  const startNode: ISearchNode = {
+    x: start.x,
+    y: start.y,
+    cost: 0,
+    previous: null,
+    closed: false,
+  };
+  nodes.set(getSearchKey(map, start.x, start.y), startNode);
+  const heuristicScale = options.heuristicScale ?? map.getMinimumMovementCost();
+  const isEndless = !Number.isFinite(map.width) || !Number.isFinite(map.height);
+  const maxCost =
+    options.maxCost ??
+    (isEndless
+      ? (ENDLESS_COST_FACTOR * map.topology.distance(start, goal, heuristic) +
+          ENDLESS_COST_MARGIN) *
+        heuristicScale
+      : Infinity);
+
+  const open = new PriorityQueue<ISearchNode>();
+  open.push(startNode, 0);
+
+  while (!open.isEmpty()) {
+    const current = open.pop()!;
+    if (current.x === goal.x && current.y === goal.y) break;
+    if (current.closed) continue;
+    current.closed = true;
+
+    for (const next of getWalkableNeighbors(
+      map,
+      current.x,
+      current.y,
+      allowDiagonal,
+      options.unitId
+    )) {
+      const key = getSearchKey(map, next.x, next.y);
+      const node = nodes.get(key);
+      if (node?.closed) continue;
+
+      const cost =
+        current.cost + getStepCost(map, current.x, current.y, next.x, next.y);
+      if (cost > maxCost || cost >= (node?.cost ?? Infinity)) continue;
+
+      // Nodes are updated in place, outdated queue entries are skipped
+      const reached: ISearchNode = node ?? {
+        x: next.x,
+        y: next.y,
+        cost,
+        previous: current,
+        closed: false,
+      };
+      reached.cost = cost;
+      reached.previous = current;
+      nodes.set(key, reached);
+      // Topology distances take the shorter way around wrapped seams
+      const priority =
+        cost + map.topology.distance(next, goal, heuristic) * heuristicScale;
+      open.push(reached, priority);
+    }
+  }
+
+  const goalNode = nodes.get(getSearchKey(map, goal.x, goal.y));
+  if (!goalNode) {
+    return { found: false, reason: 'unreachable' };
+  }
+
+  const path: IPosition[] = [];
+  for (let node: ISearchNode | null = goalNode; node; node = node.previous) {
+    path.push({ x: node.x, y: node.y });
+  }
+  path.reverse();
+
+  return { found: true, path, cost: goalNode.cost };
+}
@@ -0,0 +1,81 @@
+/**
+ * Binary min-heap keyed by a numeric priority, used by the search utilities
+ */
+export class PriorityQueue<T> {
+  private items: Array<{ value: T; priority: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  isEmpty(): boolean {
+    return this.items.length === 0;
+  }
+
+  /**
+   * Add a value with the given priority
+   */
+  push(value: T, priority: number): void {
+    this.items.push({ value, priority });
+    this.bubbleUp(this.items.length - 1);
+  }
+
+  /**
+   * Remove and return the value with the lowest priority
+   */
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (top === undefined || last === undefined) {
+      return undefined;
+    }
+
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      this.sinkDown(0);
+    }
+
+    return top.value;
+  }
+
+  private bubbleUp(index: number): void {
+    const item = this.items[index]!;
+
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = this.items[parentIndex]!;
+      if (parent.priority <= item.priority) break;
+
+      this.items[index] = parent;
+      index = parentIndex;
+    }
+
+    this.items[index] = item;
+  }
+
+  private sinkDown(index: number): void {
+    const length = this.items.length;
+    const item = this.items[index]!;
+
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      let smallestPriority = item.priority;
+
+      if (left < length && this.items[left]!.priority < smallestPriority) {
+        smallest = left;
+        smallestPriority = this.items[left]!.priority;
+      }
+      if (right < length && this.items[right]!.priority < smallestPriority) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+
+      this.items[index] = this.items[smallest]!;
+      index = smallest;
+    }
+
+    this.items[index] = item;
+  }
+}
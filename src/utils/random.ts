@@ -0,0 +1,45 @@
+import type { Seed } from '../types/mapTypes';
+
+/**
+ * Turn a seed into a 32-bit integer, strings are hashed with FNV-1a
+ */
+export function hashSeed(seed: Seed): number {
+  if (typeof seed === 'number') {
+    return Math.floor(seed) >>> 0;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32). The same seed always
+ * produces the same sequence on every platform.
+ * @returns A function returning numbers in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: Seed): () => number {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Get a random integer in [min, max], both included
+ */
+export function randomInt(
+  random: () => number,
+  min: number,
+  max: number
+): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
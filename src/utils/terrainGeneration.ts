@@ -0,0 +1,90 @@
+import type {
+  IBiomeRule,
+  IGeneratedTerrain,
+  ITerrainGenerationOptions,
+} from '../types/mapTypes';
+import type { Map as GameMap } from '../core/Map';
+import { createFractalNoise2D } from './noise';
+
+/**
+ * Biome table used when generateTerrain is given none: low ground is water
+ * and beaches, high ground mountains and snow, and the land in between is
+ * picked from temperature and moisture
+ */
+export const DEFAULT_BIOMES: IBiomeRule[] = [
+  { terrain: 'water', elevation: [0, 0.35] },
+  { terrain: 'sand', elevation: [0.35, 0.4] },
+  { terrain: 'snow', elevation: [0.78, 1] },
+  { terrain: 'mountain', elevation: [0.68, 1] },
+  { terrain: 'snow', temperature: [0, 0.25] },
+  { terrain: 'desert', temperature: [0.6, 1], moisture: [0, 0.4] },
+  { terrain: 'swamp', elevation: [0.4, 0.5], moisture: [0.6, 1] },
+  { terrain: 'forest', moisture: [0.55, 1] },
+  { terrain: 'grass' },
+];
+
+/**
+ * Fill a map with terrain generated from seeded noise. Elevation, moisture
+ * and temperature are sampled from independent fractal noise layers and
+ * each cell gets the terrain of the first biome rule matching its values.
+ * The same seed and options always produce the same map. Noise does not
+ * tile, so wrapped maps show a seam at their edges.
+ * @returns The noise values of every cell
+ */
+export function generateTerrain(
+  map: GameMap,
+  options: ITerrainGenerationOptions
+): IGeneratedTerrain {
+  const biomes = options.biomes ?? DEFAULT_BIOMES;
+  const seed = String(options.seed);
+  const sample = (layer: keyof IGeneratedTerrain) => {
+    const noise = createFractalNoise2D(`${seed}:${layer}`, options[layer]);
+    return Array.from({ length: map.height }, (_, y) =>
+      Array.from({ length: map.width }, (_, x) => noise(x, y))
+    );
+  };
+
+  const generated: IGeneratedTerrain = {
+    elevation: sample('elevation'),
+    moisture: sample('moisture'),
+    temperature: sample('temperature'),
+  };
+
+  map.batch(() => {
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        const rule = biomes.find(biome =>
+          matchesBiome(biome, {
+            elevation: generated.elevation[y]![x]!,
+            moisture: generated.moisture[y]![x]!,
+            temperature: generated.temperature[y]![x]!,
+          })
+        );
+        if (rule) {
+          map.setTerrain(x, y, rule.terrain, rule.properties);
+        }
+      }
+    }
+
+    const heightScale = options.heightScale;
+    if (heightScale !== undefined) {
+      map.setHeightmap(
+        generated.elevation.map(row =>
+          row.map(value => Math.round(value * heightScale))
+        )
+      );
+    }
+  });
+
+  return generated;
+}
+
+function matchesBiome(
+  rule: IBiomeRule,
+  values: Record<keyof IGeneratedTerrain, number>
+): boolean {
+  return (['elevation', 'moisture', 'temperature'] as const).every(layer => {
+    const range = rule[layer];
+    return !range || (values[layer] >= range[0] && values[layer] <= range[1]);
+  });
+}
@@ -0,0 +1,301 @@
+import { Map as GameMap } from '../core/Map';
+import { World } from '../core/World';
+import type { ITerrainProperties } from '../types/positionTypes';
+import type {
+  ITiledImportOptions,
+  ITiledImportResult,
+  ITiledLayer,
+  ITiledMapData,
+  ITiledMapObject,
+  ITiledObjectData,
+  ITiledProperty,
+  ITiledTerrainMapping,
+  ITiledUnknownTile,
+} from '../types/tiledTypes';
+import { parseTmx } from './tmx';
+
+// Upper bits of a global tile id store flip and rotation flags
+const TILE_ID_MASK = 0x0fffffff;
+const TERRAIN_PROPERTY_KEYS: Array<keyof ITerrainProperties> = [
+  'movementCost',
+  'defenseBonus',
+  'visibilityModifier',
+  'impassable',
+  'opaque',
+];
+
+/**
+ * Error thrown when a Tiled file cannot be imported
+ */
+export class TiledImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TiledImportError';
+  }
+}
+
+/**
+ * Import a Tiled JSON map (TMJ)
+ * @param data The parsed JSON, or its text
+ * @param options How tiles map to terrain and how layers are combined
+ * @returns The imported maps in a world, the objects of object layers and
+ * every tile id that could not be mapped to a terrain
+ * @throws TiledImportError for unsupported files, or unknown tiles in strict mode
+ */
+export function importTiledMap(
+  data: ITiledMapData | string,
+  options: ITiledImportOptions = {}
+): ITiledImportResult {
+  const tiledMap: ITiledMapData =
+    typeof data === 'string' ? (JSON.parse(data) as ITiledMapData) : data;
+  return importTiledData(tiledMap, options);
+}
+
+/**
+ * Import a Tiled XML map (TMX)
+ * @see importTiledMap
+ */
+export function importTiledTmx(
+  xml: string,
+  options: ITiledImportOptions = {}
+): ITiledImportResult {
+  let tiledMap: ITiledMapData;
+  try {
+    tiledMap = parseTmx(xml);
+  } catch (error) {
+    throw new TiledImportError(
+      `Invalid TMX file: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return importTiledData(tiledMap, options);
+}
+
+function importTiledData(
+  tiledMap: ITiledMapData,
+  options: ITiledImportOptions
+): ITiledImportResult {
+  if (tiledMap.infinite) {
+    throw new TiledImportError('Infinite Tiled maps are not supported');
+  }
+
+  const name =
+    options.name ??
+    String(getProperty(tiledMap.properties, 'name') ?? 'Tiled Map');
+  const tileTerrains = buildTileTerrains(tiledMap, options);
+  const tileLayers = flattenLayers(tiledMap.layers, 'tilelayer');
+  const unknownTiles: Record<string, ITiledUnknownTile> = {};
+
+  const maps: GameMap[] = [];
+  const createMap = (mapName: string) => {
+    const map = new GameMap(tiledMap.width, tiledMap.height, mapName);
+    maps.push(map);
+    return map;
+  };
+
+  const mergedMap = options.layers === 'separate' ? null : createMap(name);
+
+  for (const layer of tileLayers) {
+    const map = mergedMap ?? createMap(`${name}/${layer.name}`);
+    const gids = readLayerData(layer);
+    const width = layer.width ?? tiledMap.width;
+
+    gids.forEach((rawGid, index) => {
+      const gid = rawGid & TILE_ID_MASK;
+      if (gid === 0) return; // Empty cell
+
+      const x = index % width;
+      const y = Math.floor(index / width);
+      const mapping = tileTerrains[gid];
+
+      if (!mapping) {
+        const key = `${layer.name}:${gid}`;
+        const unknown = (unknownTiles[key] ??= {
+          gid,
+          layer: layer.name,
+          count: 0,
+          positions: [],
+        });
+        unknown.count++;
+        unknown.positions.push({ x, y });
+        return;
+      }
+
+      map.setTerrain(x, y, mapping.terrain, mapping.properties);
+    });
+  }
+
+  const unknownList = Object.values(unknownTiles);
+  if (options.strict && unknownList.length > 0) {
+    const summary = unknownList
+      .map(
+        tile =>
+          `gid ${tile.gid} in layer "${tile.layer}" (${tile.count} cells, first at ${tile.positions[0]!.x},${tile.positions[0]!.y})`
+      )
+      .join('; ');
+    throw new TiledImportError(`Unknown tiles: ${summary}`);
+  }
+
+  const world = new World();
+  for (const map of maps) {
+    if (!world.addMap(map)) {
+      throw new TiledImportError(
+        `Several tile layers would become map ${map.name}, give them unique names`
+      );
+    }
+  }
+
+  return {
+    world,
+    maps,
+    objects: readObjects(tiledMap),
+    unknownTiles: unknownList,
+  };
+}
+
+/**
+ * Resolve the terrain of every known global tile id, from the explicit
+ * option first and the tileset tile properties otherwise
+ */
+function buildTileTerrains(
+  tiledMap: ITiledMapData,
+  options: ITiledImportOptions
+): Record<number, ITiledTerrainMapping> {
+  const terrainProperty = options.terrainProperty ?? 'terrain';
+  const terrains: Record<number, ITiledTerrainMapping> = {};
+
+  for (const tileset of tiledMap.tilesets) {
+    for (const tile of tileset.tiles ?? []) {
+      const terrain = getProperty(tile.properties, terrainProperty);
+      if (typeof terrain !== 'string') continue;
+
+      const properties: Partial<ITerrainProperties> = {};
+      for (const key of TERRAIN_PROPERTY_KEYS) {
+        const value = getProperty(tile.properties, key);
+        if (value !== undefined) {
+          (properties as Record<string, unknown>)[key] = value;
+        }
+      }
+
+      terrains[tileset.firstgid + tile.id] = Object.keys(properties).length
+        ? { terrain, properties }
+        : { terrain };
+    }
+  }
+
+  for (const [gid, mapping] of Object.entries(options.tileTerrains ?? {})) {
+    terrains[Number(gid)] =
+      typeof mapping === 'string' ? { terrain: mapping } : mapping;
+  }
+
+  return terrains;
+}
+
+/**
+ * Collect layers of a type in drawing order, descending into group layers
+ */
+function flattenLayers(
+  layers: ITiledLayer[],
+  type: ITiledLayer['type']
+): ITiledLayer[] {
+  return layers.flatMap(layer => {
+    if (layer.type === 'group') {
+      return flattenLayers(layer.layers ?? [], type);
+    }
+    return layer.type === type ? [layer] : [];
+  });
+}
+
+function readLayerData(layer: ITiledLayer): number[] {
+  if (Array.isArray(layer.data)) {
+    return layer.data;
+  }
+  if (layer.data === undefined) {
+    return [];
+  }
+  if (layer.encoding !== 'base64' || layer.compression) {
+    throw new TiledImportError(
+      `Layer "${layer.name}" uses unsupported ${layer.compression ?? layer.encoding} data, export it as CSV or uncompressed Base64`
+    );
+  }
+
+  // Base64 data stores each global tile id as a little-endian uint32
+  const bytes = decodeBase64(layer.data);
+  const gids: number[] = [];
+  for (let i = 0; i + 3 < bytes.length; i += 4) {
+    gids.push(
+      (bytes[i]! |
+        (bytes[i + 1]! << 8) |
+        (bytes[i + 2]! << 16) |
+        (bytes[i + 3]! << 24)) >>>
+        0
+    );
+  }
+  return gids;
+}
+
+function decodeBase64(text: string): number[] {
+  const alphabet =
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  const clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes: number[] = [];
+
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    buffer = (buffer << 6) | alphabet.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Convert the objects of every object layer to tile units
+ */
+function readObjects(tiledMap: ITiledMapData): ITiledMapObject[] {
+  const toTileX = (value: number) => value / tiledMap.tilewidth;
+  const toTileY = (value: number) => value / tiledMap.tileheight;
+
+  return flattenLayers(tiledMap.layers, 'objectgroup').flatMap(layer =>
+    (layer.objects ?? []).map((object: ITiledObjectData): ITiledMapObject => {
+      const properties: Record<string, unknown> = {};
+      for (const property of object.properties ?? []) {
+        properties[property.name] = property.value;
+      }
+
+      return {
+        id: object.id,
+        name: object.name ?? '',
+        type: object.class ?? object.type ?? '',
+        layer: layer.name,
+        shape: object.point
+          ? 'point'
+          : object.ellipse
+            ? 'ellipse'
+            : object.polygon
+              ? 'polygon'
+              : 'rectangle',
+        x: toTileX(object.x),
+        y: toTileY(object.y),
+        width: toTileX(object.width ?? 0),
+        height: toTileY(object.height ?? 0),
+        points: (object.polygon ?? []).map(point => ({
+          x: toTileX(object.x + point.x),
+          y: toTileY(object.y + point.y),
+        })),
+        properties,
+      };
+    })
+  );
+}
+
+function getProperty(
+  properties: ITiledProperty[] | undefined,
+  name: string
+): unknown {
+  return properties?.find(property => property.name === name)?.value;
+}
@@ -0,0 +1,271 @@
+import type {
+  ITiledLayer,
+  ITiledMapData,
+  ITiledObjectData,
+  ITiledProperty,
+  ITiledTileset,
+} from '../types/tiledTypes';
+
+interface IXmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: IXmlElement[];
+  text: string;
+}
+
+const XML_TOKEN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const XML_ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parse a Tiled XML map (TMX) into the same structure as a Tiled JSON map
+ * @throws Error when the document is not a TMX map
+ */
+export function parseTmx(xml: string): ITiledMapData {
+  const root = parseXml(xml);
+  if (root.name !== 'map') {
+    throw new Error(`Expected a TMX <map> element, found <${root.name}>`);
+  }
+
+  return {
+    width: readNumber(root, 'width'),
+    height: readNumber(root, 'height'),
+    tilewidth: readNumber(root, 'tilewidth'),
+    tileheight: readNumber(root, 'tileheight'),
+    infinite: root.attributes.infinite === '1',
+    tilesets: getChildren(root, 'tileset').map(readTileset),
+    layers: readLayers(root),
+    properties: readProperties(root),
+  };
+}
+
+/**
+ * Minimal XML reader covering the subset of XML written by Tiled
+ */
+function parseXml(xml: string): IXmlElement {
+  const document: IXmlElement = {
+    name: '#document',
+    attributes: {},
+    children: [],
+    text: '',
+  };
+  const stack: IXmlElement[] = [document];
+
+  for (const match of xml.matchAll(XML_TOKEN)) {
+    const [, cdata, closing, name, attributeText, selfClosing, text] = match;
+    const parent = stack[stack.length - 1]!;
+
+    if (cdata !== undefined) {
+      parent.text += cdata;
+    } else if (text !== undefined) {
+      parent.text += decodeEntities(text);
+    } else if (name !== undefined && closing) {
+      if (parent.name !== name || stack.length === 1) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+    } else if (name !== undefined) {
+      const element: IXmlElement = {
+        name,
+        attributes: readAttributes(attributeText ?? ''),
+        children: [],
+        text: '',
+      };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1]!.name}>`);
+  }
+
+  const root = document.children[0];
+  if (!root) {
+    throw new Error('XML document has no root element');
+  }
+  return root;
+}
+
+function readAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of text.matchAll(
+    XML_ATTRIBUTE
+  )) {
+    attributes[name!] = decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, e) => {
+    const entity = String(e);
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    const named: Record<string, string> = {
+      lt: '<',
+      gt: '>',
+      amp: '&',
+      quot: '"',
+      apos: "'",
+    };
+    return named[entity.toLowerCase()]!;
+  });
+}
+
+function getChildren(element: IXmlElement, name: string): IXmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
+
+function readNumber(
+  element: IXmlElement,
+  attribute: string,
+  fallback?: number
+): number {
+  const value = element.attributes[attribute];
+  if (value === undefined && fallback !== undefined) return fallback;
+
+  const parsed = Number(value);
+  if (value === undefined || Number.isNaN(parsed)) {
+    throw new Error(
+      `<${element.name}> is missing numeric attribute "${attribute}"`
+    );
+  }
+  return parsed;
+}
+
+function readProperties(element: IXmlElement): ITiledProperty[] {
+  const properties: ITiledProperty[] = [];
+
+  for (const group of getChildren(element, 'properties')) {
+    for (const property of getChildren(group, 'property')) {
+      const type = property.attributes.type ?? 'string';
+      const raw = property.attributes.value ?? property.text;
+
+      let value: unknown = raw;
+      if (type === 'int' || type === 'float') value = Number(raw);
+      if (type === 'bool') value = raw === 'true';
+
+      properties.push({ name: property.attributes.name ?? '', type, value });
+    }
+  }
+
+  return properties;
+}
+
+function readTileset(element: IXmlElement): ITiledTileset {
+  const tileset: ITiledTileset = {
+    firstgid: readNumber(element, 'firstgid'),
+    tiles: getChildren(element, 'tile').map(tile => {
+      const type = tile.attributes.class ?? tile.attributes.type;
+      return {
+        id: readNumber(tile, 'id'),
+        ...(type !== undefined ? { type } : {}),
+        properties: readProperties(tile),
+      };
+    }),
+  };
+
+  if (element.attributes.name !== undefined) {
+    tileset.name = element.attributes.name;
+  }
+  if (element.attributes.source !== undefined) {
+    tileset.source = element.attributes.source;
+  }
+  return tileset;
+}
+
+function readLayers(element: IXmlElement): ITiledLayer[] {
+  const layers: ITiledLayer[] = [];
+
+  for (const child of element.children) {
+    const name = child.attributes.name ?? '';
+
+    if (child.name === 'layer') {
+      layers.push({
+        type: 'tilelayer',
+        name,
+        width: readNumber(child, 'width'),
+        height: readNumber(child, 'height'),
+        ...readLayerData(child),
+      });
+    } else if (child.name === 'objectgroup') {
+      layers.push({
+        type: 'objectgroup',
+        name,
+        objects: getChildren(child, 'object').map(readObject),
+      });
+    } else if (child.name === 'group') {
+      layers.push({ type: 'group', name, layers: readLayers(child) });
+    }
+  }
+
+  return layers;
+}
+
+function readLayerData(layer: IXmlElement): Partial<ITiledLayer> {
+  const data = getChildren(layer, 'data')[0];
+  if (!data) return { data: [] };
+
+  const encoding = data.attributes.encoding;
+  if (encoding === 'csv') {
+    return {
+      data: data.text
+        .split(',')
+        .map(value => value.trim())
+        .filter(value => value !== '')
+        .map(Number),
+    };
+  }
+  if (encoding === 'base64') {
+    return {
+      data: data.text.trim(),
+      encoding: 'base64',
+      ...(data.attributes.compression
+        ? { compression: data.attributes.compression }
+        : {}),
+    };
+  }
+
+  // Unencoded data lists one <tile gid="..."/> per cell
+  return {
+    data: getChildren(data, 'tile').map(tile => readNumber(tile, 'gid', 0)),
+  };
+}
+
+function readObject(element: IXmlElement): ITiledObjectData {
+  const object: ITiledObjectData = {
+    id: readNumber(element, 'id', 0),
+    x: readNumber(element, 'x', 0),
+    y: readNumber(element, 'y', 0),
+    width: readNumber(element, 'width', 0),
+    height: readNumber(element, 'height', 0),
+    properties: readProperties(element),
+  };
+
+  const type = element.attributes.class ?? element.attributes.type;
+  if (element.attributes.name !== undefined) {
+    object.name = element.attributes.name;
+  }
+  if (type !== undefined) object.type = type;
+  if (getChildren(element, 'point').length > 0) object.point = true;
+  if (getChildren(element, 'ellipse').length > 0) object.ellipse = true;
+
+  const polygon = getChildren(element, 'polygon')[0];
+  if (polygon) {
+    object.polygon = (polygon.attributes.points ?? '')
+      .trim()
+      .split(/\s+/)
+      .map(pair => {
+        const [x, y] = pair.split(',').map(Number);
+        return { x: x ?? 0, y: y ?? 0 };
+      });
+  }
+
+  return object;
+}
@@ -1,10 +1,28 @@
-import type { IPosition } from '../types/positionTypes';
+import type { DistanceMetric, IPosition } from '../types/positionTypes';
 import { Position } from '../core/Position';
 import { World } from '../core/World';
+import { SpatialIndex } from '../core/SpatialIndex';
+import type { Topology } from '../core/Topology';
 import type { IUnitPosition } from '@atsu/atago';
+import { getHexSpiral } from './hex';
 
 /**
- * Compute a single-tile step from one position toward another, clamped to map bounds.
+ * Get the topology of a map of the world
+ * @returns The topology, or null when the map is unknown
+ */
+function getMapTopology(
+  world: World | undefined,
+  mapId: string
+): Topology | null {
+  return world?.getAllMaps().find(m => m.name === mapId)?.topology ?? null;
+}
+
+/**
+ * Compute a single-tile step from one position toward another, clamped to
+ * map bounds. Wrapped maps step across the seam when the target is closer
+ * that way, hex maps step to the neighbouring hex closest to the target.
+ * Terrain is ignored, Map.createFlowField gives steps around obstacles for
+ * any number of units sharing a destination.
  */
 export function stepTowards(
   world: World,
@@ -13,11 +31,27 @@ export function stepTowards(
   to: IPosition
 ): Position {
   const map = world.getAllMaps().find(m => m.name === mapId);
+  const topology = map?.topology;
   const width = map?.width ?? from.x + 1;
   const height = map?.height ?? from.y + 1;
 
-  const dx = to.x - from.x;
-  const dy = to.y - from.y;
+  if (topology?.hexLayout) {
+    let next = { x: from.x, y: from.y };
+    let nextDistance = topology.distance(from, to);
+    for (const neighbor of topology.getNeighbors(from.x, from.y)) {
+      const distance = topology.distance(neighbor, to);
+      if (distance < nextDistance) {
+        next = neighbor;
+        nextDistance = distance;
+      }
+    }
+    return new Position(next.x, next.y, from.z);
+  }
+
+  // Aim at the copy of the target across the seam when that is closer
+  const target = topology ? topology.getClosestImage(from, to) : to;
+  const dx = target.x - from.x;
+  const dy = target.y - from.y;
 
   // Prefer moving along the axis with the greater distance
   let stepX = 0;
@@ -28,21 +62,29 @@ export function stepTowards(
     stepY = Math.sign(dy);
   }
 
-  const nextX = Math.min(Math.max(from.x + stepX, 0), width - 1);
-  const nextY = Math.min(Math.max(from.y + stepY, 0), height - 1);
+  let nextX = from.x + stepX;
+  let nextY = from.y + stepY;
+  if (!topology?.wrapsX) nextX = Math.min(Math.max(nextX, 0), width - 1);
+  if (!topology?.wrapsY) nextY = Math.min(Math.max(nextY, 0), height - 1);
+  const next = topology?.normalize(nextX, nextY) ?? { x: nextX, y: nextY };
 
-  return new Position(nextX, nextY, from.z);
+  return new Position(next.x, next.y, from.z);
 }
 
 /**
  * Get all position objects at a specific map coordinate
+ * @param positions Array of position objects, or a spatial index of them
  */
 export function getPositionsAtCoordinate<T extends IUnitPosition>(
-  positions: T[],
+  positions: T[] | SpatialIndex<T>,
   mapId: string,
   x: number,
   y: number
 ): T[] {
+  if (positions instanceof SpatialIndex) {
+    return positions.getAt(mapId, x, y);
+  }
+
   return positions.filter(pos => {
     return pos.mapId === mapId && pos.position.x === x && pos.position.y === y;
   });
@@ -50,10 +92,15 @@ export function getPositionsAtCoordinate<T extends IUnitPosition>(
 
 /**
  * Find any positions that have more than one position object at the same coordinate
+ * @param positions Array of position objects, or a spatial index of them
  */
 export function findCollisions<T extends IUnitPosition>(
-  positions: T[]
+  positions: T[] | SpatialIndex<T>
 ): Array<{ mapId: string; x: number; y: number; positions: T[] }> {
+  if (positions instanceof SpatialIndex) {
+    return positions.findCollisions();
+  }
+
   const collisions: Array<{
     mapId: string;
     x: number;
@@ -102,14 +149,19 @@ export function findCollisions<T extends IUnitPosition>(
 
 /**
  * Find the position object at a specific coordinate
+ * @param positions Array of position objects, or a spatial index of them
  * @returns The position object at the specified coordinate, or undefined if no position is found
  */
 export function getPositionAtCoordinate<T extends IUnitPosition>(
-  positions: T[],
+  positions: T[] | SpatialIndex<T>,
   mapId: string,
   x: number,
   y: number
 ): T | undefined {
+  if (positions instanceof SpatialIndex) {
+    return positions.getFirstAt(mapId, x, y);
+  }
+
   return positions.find(pos => {
     return pos.mapId === mapId && pos.position.x === x && pos.position.y === y;
   });
@@ -117,12 +169,17 @@ export function getPositionAtCoordinate<T extends IUnitPosition>(
 
 /**
  * Get all positions on a specific map
+ * @param positions Array of position objects, or a spatial index of them
  * @returns Array of positions on the specified map
  */
 export function getPositionsInMap<T extends IUnitPosition>(
-  positions: T[],
+  positions: T[] | SpatialIndex<T>,
   mapId: string
 ): T[] {
+  if (positions instanceof SpatialIndex) {
+    return positions.getInMap(mapId);
+  }
+
   return positions.filter(pos => {
     return pos.mapId === mapId;
   });
@@ -130,20 +187,51 @@ export function getPositionsInMap<T extends IUnitPosition>(
 
 /**
  * Get all positions within a specific range of a reference position
- * @param positions Array of position objects to search through
- * @param world The world containing the maps
+ * @param positions Array of position objects to search through, or a spatial index of them
+ * @param world The world containing the maps, their topology decides how
+ * distance is measured across wrapped edges and on hex grids
  * @param referencePosition The reference position
  * @param range The maximum distance range
- * @param useManhattanDistance Whether to use Manhattan distance (default: true)
+ * @param useManhattanDistance Whether to use Manhattan distance (default: true),
+ * ignored on hex maps which always count hex steps
  * @returns Array of positions within the specified range
  */
 export function getPositionsWithinRange<T extends IUnitPosition>(
-  positions: T[],
-  _world: World,
+  positions: T[] | SpatialIndex<T>,
+  world: World,
   referencePosition: IUnitPosition,
   range: number,
   useManhattanDistance: boolean = true
 ): T[] {
+  const topology = getMapTopology(world, referencePosition.mapId);
+  if (topology && (topology.hexLayout || topology.type !== 'bounded')) {
+    const metric: DistanceMetric = useManhattanDistance
+      ? 'manhattan'
+      : 'euclidean';
+    const candidates =
+      positions instanceof SpatialIndex
+        ? getIndexedCandidates(positions, topology, referencePosition, range)
+        : positions.filter(
+            pos =>
+              pos.unitId !== referencePosition.unitId &&
+              pos.mapId === referencePosition.mapId
+          );
+
+    return candidates.filter(
+      pos =>
+        topology.distance(referencePosition.position, pos.position, metric) <=
+        range
+    );
+  }
+
+  if (positions instanceof SpatialIndex) {
+    return positions.getWithinRange(
+      referencePosition,
+      range,
+      useManhattanDistance
+    );
+  }
+
   // Check if positions are on the same map
   const sameMapPositions = positions.filter(pos => {
     if (pos.unitId === referencePosition.unitId) return false; // Don't include the reference position itself
@@ -173,23 +261,63 @@ export function getPositionsWithinRange<T extends IUnitPosition>(
   });
 }
 
+/**
+ * Get the indexed positions that may lie within range of a reference
+ * position on a wrapped or hex map, to be filtered by exact distance
+ */
+function getIndexedCandidates<T extends IUnitPosition>(
+  index: SpatialIndex<T>,
+  topology: Topology,
+  referencePosition: IUnitPosition,
+  range: number
+): T[] {
+  // A hex step moves at most one column and one row
+  const reach = topology.hexLayout ? range * 2 : range;
+  const candidates = new Set<T>();
+
+  // Query around every copy of the reference so seams are covered
+  for (const image of topology.getImages(referencePosition.position)) {
+    const found = index.getWithinRange(
+      { ...referencePosition, position: image },
+      reach
+    );
+    for (const pos of found) {
+      candidates.add(pos);
+    }
+  }
+
+  return [...candidates];
+}
+
 /**
  * Calculate the distance between two position objects
  * @param pos1 The first position object
  * @param pos2 The second position object
  * @param useManhattanDistance Whether to use Manhattan distance (default: true)
+ * @param world The world containing the map, when given the map topology is
+ * used to measure across wrapped edges and on hex grids
  * @returns The distance between the two positions, or Infinity if they are on different maps
  */
 export function getDistanceBetweenPositions(
   pos1: { mapId: string; position: IPosition },
   pos2: { mapId: string; position: IPosition },
-  useManhattanDistance: boolean = true
+  useManhattanDistance: boolean = true,
+  world?: World
 ): number {
   // If positions are on different maps, return infinity
   if (pos1.mapId !== pos2.mapId) {
     return Infinity;
   }
 
+  const topology = getMapTopology(world, pos1.mapId);
+  if (topology) {
+    return topology.distance(
+      pos1.position,
+      pos2.position,
+      useManhattanDistance ? 'manhattan' : 'euclidean'
+    );
+  }
+
   // Create Position instances for proper distance calculation
   const pos1Instance = new Position(
     pos1.position.x,
@@ -209,6 +337,7 @@ export function getDistanceBetweenPositions(
 
 /**
  * Find the nearest free tile to the origin that is not occupied.
+ * The search wraps across wrapped edges and walks hex rings on hex maps.
  */
 export function findNearestFreeTile(
   world: World,
@@ -225,17 +354,26 @@ export function findNearestFreeTile(
       .filter(pos => pos.mapId === mapId)
       .map(pos => `${pos.position.x},${pos.position.y}`)
   );
+  const isFree = (x: number, y: number) => {
+    const tile = map.topology.normalize(x, y);
+    return tile && !occupied.has(`${tile.x},${tile.y}`) ? tile : null;
+  };
+
+  const hexLayout = map.topology.hexLayout;
+  if (hexLayout) {
+    for (const { x, y } of getHexSpiral(origin, maxRadius, hexLayout)) {
+      const tile = isFree(x, y);
+      if (tile) return tile;
+    }
+    return null;
+  }
 
   for (let radius = 0; radius <= maxRadius; radius++) {
     for (let dx = -radius; dx <= radius; dx++) {
       for (let dy = -radius; dy <= radius; dy++) {
         if (Math.abs(dx) + Math.abs(dy) > radius) continue;
-        const nx = origin.x + dx;
-        const ny = origin.y + dy;
-        if (nx < 0 || ny < 0 || nx >= map.width || ny >= map.height) continue;
-        if (!occupied.has(`${nx},${ny}`)) {
-          return { x: nx, y: ny };
-        }
+        const tile = isFree(origin.x + dx, origin.y + dy);
+        if (tile) return tile;
       }
     }
   }
@@ -248,18 +386,26 @@ export function findNearestFreeTile(
  * @param pos1 The first position object
  * @param pos2 The second position object
  * @param allowDiagonal Whether to consider diagonal positions as adjacent (default: true)
+ * @param world The world containing the map, when given the map topology is
+ * used to check adjacency across wrapped edges and on hex grids
  * @returns True if the positions are adjacent, false otherwise
  */
 export function arePositionsAdjacent(
   pos1: { mapId: string; position: IPosition },
   pos2: { mapId: string; position: IPosition },
-  allowDiagonal: boolean = true
+  allowDiagonal: boolean = true,
+  world?: World
 ): boolean {
   // If positions are on different maps, they can't be adjacent
   if (pos1.mapId !== pos2.mapId) {
     return false;
   }
 
+  const topology = getMapTopology(world, pos1.mapId);
+  if (topology) {
+    return topology.isAdjacent(pos1.position, pos2.position, allowDiagonal);
+  }
+
   // Calculate the absolute differences
   const dx = Math.abs(pos1.position.x - pos2.position.x);
   const dy = Math.abs(pos1.position.y - pos2.position.y);
@@ -296,45 +442,17 @@ export function getAdjacentPositions(
   try {
     const map = world.getMap(mapId);
 
-    // Define the directions - if allowDiagonal is false, only use cardinal directions
-    const directions = allowDiagonal
-      ? [
-          { dx: -1, dy: 0 }, // left
-          { dx: 1, dy: 0 }, // right
-          { dx: 0, dy: -1 }, // up
-          { dx: 0, dy: 1 }, // down
-          { dx: -1, dy: -1 }, // up-left
-          { dx: -1, dy: 1 }, // down-left
-          { dx: 1, dy: -1 }, // up-right
-          { dx: 1, dy: 1 }, // down-right
-        ]
-      : [
-          { dx: -1, dy: 0 }, // left
-          { dx: 1, dy: 0 }, // right
-          { dx: 0, dy: -1 }, // up
-          { dx: 0, dy: 1 }, // down
-        ];
-
-    const adjacentPositions: Position[] = [];
-
-    for (const { dx, dy } of directions) {
-      const newX = x + dx;
-      const newY = y + dy;
-
-      // Check if the position is within map bounds
-      if (newX >= 0 && newX < map.width && newY >= 0 && newY < map.height) {
-        adjacentPositions.push(new Position(newX, newY));
-      }
-    }
-
-    return adjacentPositions;
+    // The map topology wraps edges and gives hex maps their six neighbours
+    return map.topology
+      .getNeighbors(x, y, allowDiagonal)
+      .map(neighbor => new Position(neighbor.x, neighbor.y));
   } catch {
     return []; // Return empty array if map doesn't exist
   }
 }
 
 /**
- * Check if a position is valid (within map bounds)
+ * Check if a position is valid (within map bounds, or anywhere along wrapped edges)
  * @param world The world containing the maps
  * @param mapId The ID of the map
  * @param x The x coordinate
@@ -349,7 +467,7 @@ export function isValidPosition(
 ): boolean {
   try {
     const map = world.getMap(mapId);
-    return x >= 0 && x < map.width && y >= 0 && y < map.height;
+    return map.topology.contains(x, y);
   } catch {
     return false; // Return false if map doesn't exist
   }
@@ -357,14 +475,14 @@ export function isValidPosition(
 
 /**
  * Get all position objects adjacent to a specific reference position
- * @param positions Array of position objects to search through
+ * @param positions Array of position objects to search through, or a spatial index of them
  * @param world The world containing the maps
  * @param referencePosition The reference position
  * @param allowDiagonal Whether to consider diagonal positions as adjacent (default: true)
  * @returns Array of adjacent position objects
  */
 export function getAdjacentPositionsToPosition<T extends IUnitPosition>(
-  positions: T[],
+  positions: T[] | SpatialIndex<T>,
   world: World,
   referencePosition: IUnitPosition,
   allowDiagonal: boolean = true
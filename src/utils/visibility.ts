@@ -0,0 +1,170 @@
+import type { IPosition } from '../types/positionTypes';
+import type {
+  IGridMap,
+  IVisibilityOptions,
+  IVisibleTile,
+} from '../types/mapTypes';
+import { getHexLine, hexDistance } from './hex';
+
+const DEFAULT_MIN_VISIBILITY = 0.5;
+
+/**
+ * Get the tiles on a straight line between two positions (Bresenham)
+ * @returns The tiles from start to end, both included
+ */
+export function getLine(from: IPosition, to: IPosition): IPosition[] {
+  const line: IPosition[] = [];
+
+  const dx = Math.abs(to.x - from.x);
+  const dy = -Math.abs(to.y - from.y);
+  const stepX = from.x < to.x ? 1 : -1;
+  const stepY = from.y < to.y ? 1 : -1;
+
+  let x = from.x;
+  let y = from.y;
+  let error = dx + dy;
+
+  for (;;) {
+    line.push({ x, y });
+    if (x === to.x && y === to.y) break;
+
+    const doubled = error * 2;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Visibility left after looking through the cells between two positions.
+ * The positions are used as given, callers handle wrapped coordinates.
+ * Cells rising above the sight line, from the viewer's eyes down or up to
+ * the target cell, block the view.
+ */
+function traceVisibility(
+  map: IGridMap,
+  from: IPosition,
+  to: IPosition
+): number {
+  const hexLayout = map.topology.hexLayout;
+  const line = hexLayout ? getHexLine(from, to, hexLayout) : getLine(from, to);
+  let visibility = 1;
+
+  const eyeHeight =
+    (map.getElevation(from.x, from.y) ?? 0) +
+    (map.config.elevation?.eyeHeight ?? 0);
+  const targetHeight = map.getElevation(to.x, to.y) ?? 0;
+
+  // Only the cells between both ends attenuate the view
+  for (let i = 1; i < line.length - 1; i++) {
+    const { x, y } = line[i]!;
+    const properties = map.getTerrainProperties(x, y);
+    if (!properties || properties.opaque) return 0;
+
+    const sightHeight =
+      eyeHeight + ((targetHeight - eyeHeight) * i) / (line.length - 1);
+    if ((map.getElevation(x, y) ?? 0) > sightHeight) return 0;
+
+    const modifier = properties.visibilityModifier ?? 1;
+    visibility *= Math.min(Math.max(modifier, 0), 1);
+    if (visibility <= 0) return 0;
+  }
+
+  return visibility;
+}
+
+/**
+ * Get how much of the view between two positions survives the terrain in between.
+ * Each cell crossed multiplies visibility by its visibilityModifier, opaque
+ * cells block the view entirely.
+ * @returns A value from 0 (blocked) to 1 (clear view)
+ */
+export function getVisibility(
+  map: IGridMap,
+  from: IPosition,
+  to: IPosition
+): number {
+  if (!map.getCell(from.x, from.y) || !map.getCell(to.x, to.y)) {
+    return 0;
+  }
+
+  // Look the shorter way around wrapped seams
+  const target = map.topology.getClosestImage(from, to, 'euclidean');
+
+  return traceVisibility(map, from, target);
+}
+
+/**
+ * Check if one position can see another
+ * @param options Visibility required to see the target (default: 0.5)
+ * @returns True if enough visibility is left when reaching the target
+ */
+export function hasLineOfSight(
+  map: IGridMap,
+  from: IPosition,
+  to: IPosition,
+  options: IVisibilityOptions = {}
+): boolean {
+  const minVisibility = options.minVisibility ?? DEFAULT_MIN_VISIBILITY;
+  const visibility = getVisibility(map, from, to);
+  return visibility > 0 && visibility >= minVisibility;
+}
+
+/**
+ * Get every cell visible from an origin within a circular sight radius,
+ * or within radius hex steps on hex maps.
+ * Each cell is checked with the same rules as hasLineOfSight, looking the
+ * shorter way around wrapped seams, so both always agree.
+ * @param map The map to look at
+ * @param origin The position looking around
+ * @param radius The sight radius in tiles
+ * @param options Visibility required to see a cell (default: 0.5)
+ * @returns The visible cells, including the origin
+ */
+export function getFieldOfView(
+  map: IGridMap,
+  origin: IPosition,
+  radius: number,
+  options: IVisibilityOptions = {}
+): IVisibleTile[] {
+  const minVisibility = options.minVisibility ?? DEFAULT_MIN_VISIBILITY;
+  if (!map.getCell(origin.x, origin.y)) {
+    return [];
+  }
+
+  const visible: IVisibleTile[] = [];
+  const checked = new Set<string>();
+  const hexLayout = map.topology.hexLayout;
+  const range = Math.floor(radius);
+
+  for (let dy = -range; dy <= range; dy++) {
+    for (let dx = -range; dx <= range; dx++) {
+      const tile = map.normalizePosition(origin.x + dx, origin.y + dy);
+      // Small wrapped maps can reach the same cell from several sides
+      if (!tile || checked.has(`${tile.x},${tile.y}`)) continue;
+      checked.add(`${tile.x},${tile.y}`);
+
+      // Only the image hasLineOfSight looks at counts
+      const target = map.topology.getClosestImage(origin, tile, 'euclidean');
+      const outOfRange = hexLayout
+        ? hexDistance(origin, target, hexLayout) > radius
+        : (target.x - origin.x) ** 2 + (target.y - origin.y) ** 2 >
+          radius * radius;
+      if (outOfRange) continue;
+
+      const visibility = traceVisibility(map, origin, target);
+      if (visibility <= 0 || visibility < minVisibility) continue;
+
+      visible.push({ x: tile.x, y: tile.y, visibility });
+    }
+  }
+
+  return visible;
+}
@@ -0,0 +1,211 @@
+import type { IPosition } from '../types/positionTypes';
+import type {
+  IMapPosition,
+  IPortal,
+  IPortalContext,
+  IPortalTransition,
+  IWorldPathOptions,
+  IWorldPathSegment,
+  WorldPathResult,
+} from '../types/mapTypes';
+import type { Map as GameMap } from '../core/Map';
+import type { World } from '../core/World';
+import { PriorityQueue } from './priorityQueue';
+import { getStepCost, getWalkableNeighbors } from './pathfinding';
+
+/**
+ * Find the cheapest path between cells of any maps of a world using
+ * Dijkstra's algorithm. Within a map steps follow the same rules as
+ * findPath, portals connect the maps (or distant cells of the same map) and
+ * cost their own cost, or else the movement cost of the cell they lead to.
+ * Portals whose condition rejects the unit are ignored.
+ * @param from The starting cell, it only needs to be on its map
+ * @param to The goal cell, it must be walkable
+ * @param options Pathfinding options (default: diagonals allowed), with
+ * unitId the occupancy of every map is respected
+ * @returns The path split into one segment per map visited and the portals
+ * crossed between them, or the reason no path exists
+ */
+export function findWorldPath(
+  world: World,
+  from: IMapPosition,
+  to: IMapPosition,
+  options: IWorldPathOptions = {}
+): WorldPathResult {
+  const allowDiagonal = options.allowDiagonal ?? true;
+  const maps = world.getAllMaps();
+
+  // Every cell of every map gets a node index, maps follow each other
+  const offsets: Record<string, number> = {};
+  const widths: Record<string, number> = {};
+  let nodeCount = 0;
+  for (const map of maps) {
+    offsets[map.name] = nodeCount;
+    widths[map.name] = map.width;
+    nodeCount += map.width * map.height;
+  }
+
+  const toNode = (mapId: string, x: number, y: number) =>
+    offsets[mapId]! + y * widths[mapId]! + x;
+  const fromNode = (node: number): { map: GameMap; x: number; y: number } => {
+    let index = maps.length - 1;
+    while (offsets[maps[index]!.name]! > node) index--;
+    const map = maps[index]!;
+    const local = node - offsets[map.name]!;
+    return { map, x: local % map.width, y: Math.floor(local / map.width) };
+  };
+
+  const startMap = maps.find(map => map.name === from.mapId);
+  const start = startMap?.normalizePosition(from.position.x, from.position.y);
+  if (!start) {
+    return { found: false, reason: 'invalidStart' };
+  }
+
+  const goalMap = maps.find(map => map.name === to.mapId);
+  const goal =
+    goalMap && goalMap.isWalkable(to.position.x, to.position.y, options.unitId)
+      ? goalMap.normalizePosition(to.position.x, to.position.y)
+      : null;
+  if (!goal) {
+    return { found: false, reason: 'invalidGoal' };
+  }
+
+  const startNode = toNode(from.mapId, start.x, start.y);
+  const goalNode = toNode(to.mapId, goal.x, goal.y);
+
+  const costSoFar = new Float64Array(nodeCount).fill(Infinity);
+  const cameFrom = new Int32Array(nodeCount).fill(-1);
+  const closed = new Uint8Array(nodeCount);
+  // Portal used to reach a node, when it was not reached by a step
+  const reachedBy: Record<number, string> = {};
+
+  const open = new PriorityQueue<number>();
+  costSoFar[startNode] = 0;
+  open.push(startNode, 0);
+
+  const relax = (
+    current: number,
+    next: number,
+    cost: number,
+    portalId?: string
+  ) => {
+    if (closed[next]) return;
+    const newCost = costSoFar[current]! + cost;
+    if (newCost >= costSoFar[next]!) return;
+
+    costSoFar[next] = newCost;
+    cameFrom[next] = current;
+    if (portalId !== undefined) {
+      reachedBy[next] = portalId;
+    } else {
+      delete reachedBy[next];
+    }
+    open.push(next, newCost);
+  };
+
+  while (!open.isEmpty()) {
+    const current = open.pop()!;
+    if (current === goalNode) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const { map, x, y } = fromNode(current);
+
+    for (const next of getWalkableNeighbors(
+      map,
+      x,
+      y,
+      allowDiagonal,
+      options.unitId
+    )) {
+      relax(
+        current,
+        toNode(map.name, next.x, next.y),
+        getStepCost(map, x, y, next.x, next.y)
+      );
+    }
+
+    for (const portal of world.getPortalsAt(map.name, x, y)) {
+      const exit = getPortalExit(portal, map.name, x, y);
+      if (!exit) continue;
+      if (portal.condition && !portal.condition(getContext(portal, options))) {
+        continue;
+      }
+
+      const exitMap = maps.find(other => other.name === exit.mapId)!;
+      const { x: ex, y: ey } = exit.position;
+      if (!exitMap.isWalkable(ex, ey, options.unitId)) continue;
+
+      const cost = portal.cost ?? exitMap.getMovementCost(ex, ey);
+      relax(current, toNode(exit.mapId, ex, ey), cost, portal.id);
+    }
+  }
+
+  if (!Number.isFinite(costSoFar[goalNode]!)) {
+    return { found: false, reason: 'unreachable' };
+  }
+
+  const nodes: number[] = [];
+  for (let node = goalNode; node !== -1; node = cameFrom[node]!) {
+    nodes.push(node);
+  }
+  nodes.reverse();
+
+  const segments: IWorldPathSegment[] = [];
+  const transitions: IPortalTransition[] = [];
+  let segment: IWorldPathSegment | null = null;
+  let previous: IMapPosition | null = null;
+
+  for (const [i, node] of nodes.entries()) {
+    const { map, x, y } = fromNode(node);
+    const position: IPosition = { x, y };
+    const portalId = reachedBy[node];
+
+    if (portalId !== undefined && previous) {
+      transitions.push({
+        portalId,
+        from: previous,
+        to: { mapId: map.name, position },
+        cost: costSoFar[node]! - costSoFar[nodes[i - 1]!]!,
+      });
+      segment = null;
+    }
+    if (!segment) {
+      segment = { mapId: map.name, path: [] };
+      segments.push(segment);
+    }
+
+    segment.path.push(position);
+    previous = { mapId: map.name, position };
+  }
+
+  return { found: true, segments, transitions, cost: costSoFar[goalNode]! };
+}
+
+/**
+ * Cell a portal leads to when entered from the given cell
+ */
+function getPortalExit(
+  portal: IPortal,
+  mapId: string,
+  x: number,
+  y: number
+): IMapPosition | null {
+  const { from, to } = portal;
+  if (from.mapId === mapId && from.position.x === x && from.position.y === y) {
+    return to;
+  }
+  if (portal.bidirectional) {
+    return from;
+  }
+  return null;
+}
+
+function getContext(
+  portal: IPortal,
+  options: IWorldPathOptions
+): IPortalContext {
+  return options.unitId !== undefined
+    ? { portal, unitId: options.unitId }
+    : { portal };
+}
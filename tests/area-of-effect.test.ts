@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import { getAreaCells, getUnitsInArea } from '../src/utils/areaOfEffect';
+
+const toKeys = (cells: Array<{ x: number; y: number }>) =>
+  cells.map(({ x, y }) => `${x},${y}`);
+
+describe('Area of effect', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(11, 11, 'Arena');
+  });
+
+  it('should cover a euclidean circle', () => {
+    const cells = getAreaCells(
+      map,
+      { x: 5, y: 5 },
+      { type: 'circle', radius: 2 }
+    );
+
+    expect(cells).toHaveLength(21);
+    expect(toKeys(cells)).toContain('5,5');
+    expect(toKeys(cells)).toContain('7,6');
+    // Corners of the square are too far
+    expect(toKeys(cells)).not.toContain('7,7');
+  });
+
+  it('should cover a square and a ring', () => {
+    const origin = { x: 5, y: 5 };
+
+    expect(
+      getAreaCells(map, origin, { type: 'square', radius: 1 })
+    ).toHaveLength(9);
+    const ring = getAreaCells(map, origin, { type: 'ring', radius: 2 });
+    expect(ring).toHaveLength(12);
+    expect(toKeys(ring)).not.toContain('5,5');
+    expect(toKeys(ring)).not.toContain('6,6');
+  });
+
+  it('should cover a cone around its direction', () => {
+    const cells = getAreaCells(
+      map,
+      { x: 5, y: 5 },
+      { type: 'cone', direction: { x: 1, y: 0 }, angle: 90, length: 3 }
+    );
+
+    expect(toKeys(cells)).not.toContain('5,5');
+    expect(toKeys(cells)).toEqual(
+      expect.arrayContaining(['6,5', '6,4', '6,6', '8,5', '7,7'])
+    );
+    expect(toKeys(cells)).not.toContain('4,5');
+    expect(toKeys(cells)).not.toContain('6,7');
+  });
+
+  it('should cover a cross, orthogonal or diagonal', () => {
+    const origin = { x: 5, y: 5 };
+
+    const plus = getAreaCells(map, origin, { type: 'cross', length: 2 });
+    expect(plus).toHaveLength(9);
+    expect(toKeys(plus)).toContain('5,3');
+
+    const x = getAreaCells(map, origin, {
+      type: 'cross',
+      length: 1,
+      diagonal: true,
+    });
+    expect(toKeys(x)).toEqual(['4,4', '6,4', '5,5', '4,6', '6,6']);
+  });
+
+  it('should follow a Bresenham line in order', () => {
+    const cells = getAreaCells(
+      map,
+      { x: 0, y: 0 },
+      { type: 'line', target: { x: 4, y: 2 } }
+    );
+
+    expect(cells).toEqual([
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 3, y: 2 },
+      { x: 4, y: 2 },
+    ]);
+  });
+
+  it('should extend beams past their target and stop at the edge', () => {
+    const beam = getAreaCells(
+      map,
+      { x: 5, y: 5 },
+      { type: 'line', target: { x: 6, y: 5 }, length: 3 }
+    );
+    expect(toKeys(beam)).toEqual(['6,5', '7,5', '8,5']);
+
+    const long = getAreaCells(
+      map,
+      { x: 5, y: 5 },
+      { type: 'line', target: { x: 6, y: 5 }, length: 20 }
+    );
+    expect(long).toHaveLength(5);
+  });
+
+  it('should stop beams before blocking terrain', () => {
+    map.setTerrain(8, 5, 'wall');
+    const shape = {
+      type: 'line' as const,
+      target: { x: 10, y: 5 },
+      stopAtBlocking: true,
+    };
+
+    expect(toKeys(getAreaCells(map, { x: 5, y: 5 }, shape))).toEqual([
+      '6,5',
+      '7,5',
+    ]);
+
+    map.addFeature('gate', 'door', 6, 5);
+    expect(getAreaCells(map, { x: 5, y: 5 }, shape)).toEqual([]);
+  });
+
+  it('should clip shapes to the map', () => {
+    const cells = getAreaCells(
+      map,
+      { x: 0, y: 0 },
+      { type: 'square', radius: 1 }
+    );
+
+    expect(toKeys(cells)).toEqual(['0,0', '1,0', '0,1', '1,1']);
+  });
+
+  it('should wrap shapes across wrapping edges', () => {
+    const globe = new Map(11, 11, 'Globe', { wrapEdges: true });
+    const cells = getAreaCells(
+      globe,
+      { x: 0, y: 0 },
+      { type: 'square', radius: 1 }
+    );
+
+    expect(cells).toHaveLength(9);
+    expect(toKeys(cells)).toContain('10,10');
+  });
+
+  it('should find the units inside an area', () => {
+    const units = [
+      { unitId: 'hit', mapId: 'Arena', position: { x: 6, y: 5 } },
+      { unitId: 'missed', mapId: 'Arena', position: { x: 9, y: 9 } },
+      { unitId: 'elsewhere', mapId: 'Other', position: { x: 5, y: 5 } },
+    ];
+
+    const hit = getUnitsInArea(
+      map,
+      { x: 5, y: 5 },
+      { type: 'circle', radius: 2 },
+      units
+    );
+    expect(hit.map(unit => unit.unitId)).toEqual(['hit']);
+  });
+
+  it('should skip diagonals in nearby cells by orthogonal distance', () => {
+    const cells = map.getNearbyCells(5, 5, 2, false);
+
+    expect(cells).toHaveLength(12);
+    expect(toKeys(cells)).toContain('6,6');
+    expect(toKeys(cells)).not.toContain('7,6');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { Map } from '../src/core/Map';
+import { findPath } from '../src/utils/pathfinding';
+import { getFieldOfView } from '../src/utils/visibility';
+import type { AsciiLegend } from '../src/types/mapTypes';
+
+const legend: AsciiLegend = {
+  '.': 'grass',
+  '~': 'water',
+  '^': 'mountain',
+  '#': { terrain: 'wall', properties: { impassable: true, opaque: true } },
+};
+
+describe('ASCII maps', () => {
+  it('should build a map from an indented drawing', () => {
+    const map = Map.fromAscii(
+      `
+      ..~.
+      .#^.
+      `,
+      legend,
+      'Fixture'
+    );
+
+    expect(map.name).toBe('Fixture');
+    expect(map.width).toBe(4);
+    expect(map.height).toBe(2);
+    expect(map.getTerrain(2, 0)).toBe('water');
+    expect(map.getTerrain(2, 1)).toBe('mountain');
+    expect(map.isWalkable(1, 1)).toBe(false);
+    expect(map.getTerrainProperties(1, 1)?.opaque).toBe(true);
+  });
+
+  it('should point at invalid characters and ragged rows', () => {
+    expect(() => Map.fromAscii('..\n.x', legend)).toThrow(
+      'ASCII map character "x" at (1, 1) is not in the legend'
+    );
+    expect(() => Map.fromAscii('...\n..', legend)).toThrow(
+      'ASCII map row 1 has 2 characters, expected 3'
+    );
+    expect(() => Map.fromAscii('\n  \n', legend)).toThrow('ASCII map is empty');
+  });
+
+  it('should keep spaces when the legend uses them', () => {
+    const map = Map.fromAscii(' .\n. ', { ' ': 'water', '.': 'grass' });
+    expect(map.getTerrain(0, 0)).toBe('water');
+    expect(map.getTerrain(1, 1)).toBe('water');
+  });
+
+  it('should round-trip through toAscii', () => {
+    const drawing = ['..~.', '.#^.', '....'].join('\n');
+    const map = Map.fromAscii(drawing, legend);
+
+    expect(map.toAscii(legend)).toBe(drawing);
+  });
+
+  it('should draw unknown terrain as a question mark', () => {
+    const map = new Map(2, 1);
+    map.setTerrain(1, 0, 'lava');
+
+    expect(map.toAscii(legend)).toBe('.?');
+  });
+
+  it('should draw overlays for paths, units and fields of view', () => {
+    const map = Map.fromAscii(
+      `
+      .....
+      .###.
+      .....
+      `,
+      legend,
+      'Overlay Map'
+    );
+
+    const path = findPath(map, { x: 0, y: 1 }, { x: 4, y: 1 });
+    const fov = getFieldOfView(map, { x: 2, y: 0 }, 1);
+    const units = [
+      { unitId: 'hero', mapId: 'Overlay Map', position: { x: 0, y: 1 } },
+      { unitId: 'ghost', mapId: 'Other Map', position: { x: 4, y: 2 } },
+    ];
+
+    expect(path.found).toBe(true);
+    if (!path.found) return;
+
+    expect(
+      map.toAscii(legend, [
+        { char: '*', positions: fov },
+        { char: 'o', positions: path.path },
+        { char: '@', positions: units },
+      ])
+    ).toBe(['ooooo', '@#*#o', '.....'].join('\n'));
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Map } from '../src/core/Map';
+import { hasLineOfSight } from '../src/utils/visibility';
+
+describe('Cell features', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(5, 5, 'Castle');
+  });
+
+  it('should block movement and sight with a closed door', () => {
+    expect(map.addFeature('gate', 'door', 2, 2)).toBe(true);
+
+    expect(map.getFeature('gate')).toEqual({
+      id: 'gate',
+      type: 'door',
+      x: 2,
+      y: 2,
+      state: 'closed',
+    });
+    expect(map.isWalkable(2, 2)).toBe(false);
+    expect(hasLineOfSight(map, { x: 0, y: 2 }, { x: 4, y: 2 })).toBe(false);
+
+    expect(map.triggerFeature('gate', 'open')).toBe(true);
+    expect(map.isWalkable(2, 2)).toBe(true);
+    expect(hasLineOfSight(map, { x: 0, y: 2 }, { x: 4, y: 2 })).toBe(true);
+  });
+
+  it('should trigger the features of a position', () => {
+    map.addFeature('left', 'door', 1, 1);
+    map.addFeature('right', 'door', 3, 1);
+
+    expect(map.triggerFeature({ x: 1, y: 1 }, 'toggle')).toBe(true);
+    expect(map.getFeature('left')?.state).toBe('open');
+    expect(map.getFeature('right')?.state).toBe('closed');
+  });
+
+  it('should ignore actions without a transition from the current state', () => {
+    map.addFeature('gate', 'door', 0, 0);
+
+    expect(map.triggerFeature('gate', 'close')).toBe(false);
+    expect(map.triggerFeature('gate', 'press')).toBe(false);
+    expect(map.triggerFeature('missing', 'open')).toBe(false);
+  });
+
+  it('should lower a drawbridge over water', () => {
+    for (let y = 0; y < 5; y++) {
+      map.setTerrain(2, y, 'water');
+    }
+    map.addFeature('bridge', 'drawbridge', 2, 2);
+    expect(map.isWalkable(2, 2)).toBe(false);
+
+    map.triggerFeature('bridge', 'lower');
+    expect(map.isWalkable(2, 2)).toBe(true);
+    expect(map.getMovementCost(2, 2)).toBe(1);
+
+    map.triggerFeature('bridge', 'raise');
+    expect(map.isWalkable(2, 2)).toBe(false);
+  });
+
+  it('should open linked doors with a pressure plate', () => {
+    map.addFeature('gate', 'door', 4, 4);
+    map.addFeature('plate', 'pressurePlate', 0, 0, { links: ['gate'] });
+
+    map.triggerFeature({ x: 0, y: 0 }, 'press');
+    expect(map.getFeature('gate')?.state).toBe('open');
+
+    map.triggerFeature({ x: 0, y: 0 }, 'release');
+    expect(map.getFeature('gate')?.state).toBe('closed');
+  });
+
+  it('should stop features that trigger each other', () => {
+    const map = new Map(3, 3, 'Loop', {
+      features: {
+        lever: {
+          initialState: 'off',
+          states: { off: { triggers: 'flip' }, on: { triggers: 'flip' } },
+          actions: { flip: { off: 'on', on: 'off' } },
+        },
+      },
+    });
+    map.addFeature('a', 'lever', 0, 0, { links: ['b'] });
+    map.addFeature('b', 'lever', 1, 0, { links: ['a'] });
+
+    expect(map.triggerFeature('a', 'flip')).toBe(true);
+    expect(map.getFeature('a')?.state).toBe('on');
+    expect(map.getFeature('b')?.state).toBe('on');
+  });
+
+  it('should destroy walls that run out of hit points', () => {
+    map.addFeature('wall', 'destructibleWall', 1, 1, { hitPoints: 5 });
+    expect(map.isWalkable(1, 1)).toBe(false);
+
+    map.damageFeature('wall', 3);
+    expect(map.getFeature('wall')).toMatchObject({
+      hitPoints: 2,
+      state: 'intact',
+    });
+
+    map.damageFeature({ x: 1, y: 1 }, 4);
+    expect(map.getFeature('wall')).toMatchObject({
+      hitPoints: 0,
+      state: 'destroyed',
+    });
+    expect(map.isWalkable(1, 1)).toBe(true);
+    expect(map.getMovementCost(1, 1)).toBe(1.5);
+    expect(map.damageFeature('wall', 1)).toBe(false);
+  });
+
+  it('should not damage features without hit points', () => {
+    map.addFeature('gate', 'door', 0, 0);
+
+    expect(map.damageFeature('gate', 10)).toBe(false);
+    expect(map.getFeature('gate')?.hitPoints).toBeUndefined();
+  });
+
+  it('should publish feature changes as one notification', () => {
+    map.addFeature('gate', 'door', 4, 4);
+    map.addFeature('plate', 'pressurePlate', 0, 0, { links: ['gate'] });
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    map.triggerFeature('plate', 'press');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const events = listener.mock.calls[0]![0];
+    expect(
+      events.map((event: { position: number[] }) => event.position)
+    ).toEqual([
+      [0, 0],
+      [4, 4],
+    ]);
+    expect(events[1].data).toMatchObject({
+      feature: 'gate',
+      before: { state: 'closed' },
+      after: { state: 'open' },
+    });
+  });
+
+  it('should set states directly and reject unknown ones', () => {
+    map.addFeature('gate', 'door', 0, 0, { state: 'open' });
+    expect(map.isWalkable(0, 0)).toBe(true);
+
+    expect(map.setFeatureState('gate', 'closed')).toBe(true);
+    expect(map.setFeatureState('gate', 'closed')).toBe(false);
+    expect(() => map.setFeatureState('gate', 'locked')).toThrow(
+      'Feature type door has no state locked'
+    );
+  });
+
+  it('should reject unknown types, taken ids and positions off the map', () => {
+    expect(() => map.addFeature('trap', 'spikes', 0, 0)).toThrow(
+      'Feature type spikes is not defined for map Castle'
+    );
+    expect(map.addFeature('gate', 'door', 0, 0)).toBe(true);
+    expect(map.addFeature('gate', 'door', 1, 0)).toBe(false);
+    expect(map.addFeature('far', 'door', 9, 9)).toBe(false);
+    expect(map.getFeatures()).toHaveLength(1);
+  });
+
+  it('should remove features', () => {
+    map.addFeature('gate', 'door', 2, 2);
+
+    expect(map.removeFeature('gate')).toBe(true);
+    expect(map.removeFeature('gate')).toBe(false);
+    expect(map.getFeaturesAt(2, 2)).toEqual([]);
+    expect(map.isWalkable(2, 2)).toBe(true);
+  });
+
+  it('should keep features through serialization, cloning and resizes', () => {
+    map.addFeature('gate', 'door', 1, 1, { state: 'open' });
+    map.addFeature('wall', 'destructibleWall', 4, 4, { hitPoints: 2 });
+
+    const loaded = Map.fromJSON(JSON.parse(JSON.stringify(map.toJSON())));
+    const clone = map.clone();
+    for (const copy of [loaded, clone]) {
+      expect(copy.getFeatures()).toEqual(map.getFeatures());
+      expect(copy.isWalkable(4, 4)).toBe(false);
+    }
+
+    map.resize(3, 3);
+    expect(map.getFeatures().map(({ id }) => id)).toEqual(['gate']);
+  });
+
+  it('should reject invalid serialized features', () => {
+    map.addFeature('gate', 'door', 1, 1);
+    const data = map.toJSON();
+
+    expect(() =>
+      Map.fromJSON({
+        ...data,
+        features: [...data.features!, data.features![0]],
+      })
+    ).toThrow('map.features contains a duplicate feature id gate');
+    expect(() =>
+      Map.fromJSON({ ...data, features: [{ id: 'gate', type: 'door' }] })
+    ).toThrow('map.features[0] must have an id, type, state');
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Map } from '../src/core/Map';
+import { MapHistory } from '../src/core/MapHistory';
+import { findPath } from '../src/utils/pathfinding';
+
+describe('Cell layers', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(5, 5, 'Layered');
+  });
+
+  it('should list the default layers, ground first', () => {
+    expect(map.getLayerNames()).toEqual([
+      'ground',
+      'overlay',
+      'structure',
+      'decoration',
+    ]);
+  });
+
+  it('should let a bridge make water walkable', () => {
+    map.setTerrain(2, 2, 'water');
+    expect(map.isWalkable(2, 2)).toBe(false);
+
+    map.setLayerTerrain('structure', 2, 2, 'bridge', {
+      impassable: false,
+      movementCost: 1,
+    });
+
+    expect(map.getTerrain(2, 2)).toBe('water');
+    expect(map.isWalkable(2, 2)).toBe(true);
+    expect(map.getMovementCost(2, 2)).toBe(1);
+    expect(map.canPlaceUnit('scout', 2, 2)).toBe(true);
+  });
+
+  it('should route paths over bridges', () => {
+    for (let y = 0; y < 5; y++) {
+      map.setTerrain(2, y, 'water');
+    }
+    expect(findPath(map, { x: 0, y: 2 }, { x: 4, y: 2 }).found).toBe(false);
+
+    map.setLayerTerrain('structure', 2, 4, 'bridge', { impassable: false });
+    const result = findPath(map, { x: 0, y: 2 }, { x: 4, y: 2 });
+    expect(result.found && result.path).toContainEqual({ x: 2, y: 4 });
+  });
+
+  it('should use the road cost through a forest', () => {
+    map.setTerrain(1, 1, 'forest');
+    map.setLayerTerrain('overlay', 1, 1, 'road');
+
+    expect(map.getMovementCost(1, 1)).toBe(0.8);
+    // Forest cover still hides the road
+    expect(map.getTerrainProperties(1, 1)?.visibilityModifier).toBe(0.7);
+  });
+
+  it('should block movement with a building on grass', () => {
+    map.setLayerTerrain('structure', 3, 3, 'wall');
+
+    expect(map.isWalkable(3, 3)).toBe(false);
+    expect(map.placeUnit('scout', 3, 3)).toEqual({
+      success: false,
+      reason: 'impassable',
+    });
+  });
+
+  it('should ignore decorations without properties', () => {
+    map.setLayerTerrain('decoration', 0, 0, 'flowers');
+
+    expect(map.getTerrainProperties(0, 0)).toEqual({ movementCost: 1 });
+    expect(map.getLayers(0, 0).map(({ layer }) => layer)).toEqual([
+      'ground',
+      'decoration',
+    ]);
+  });
+
+  it('should combine properties with the configured rules', () => {
+    const rules = new Map(3, 3, 'Rules', {
+      layers: {
+        combine: {
+          movementCost: 'sum',
+          impassable: 'any',
+          defenseBonus: 'max',
+          visibilityModifier: 'min',
+        },
+      },
+    });
+    rules.setTerrain(0, 0, 'water', { defenseBonus: 1 });
+    rules.setLayerTerrain('overlay', 0, 0, 'reeds', {
+      movementCost: 0.5,
+      defenseBonus: 3,
+      visibilityModifier: 0.5,
+      impassable: false,
+    });
+    rules.setLayerTerrain('decoration', 0, 0, 'mist', {
+      visibilityModifier: 0.8,
+    });
+
+    expect(rules.getTerrainProperties(0, 0)).toMatchObject({
+      movementCost: 2.5,
+      impassable: true,
+      defenseBonus: 3,
+      visibilityModifier: 0.5,
+    });
+  });
+
+  it('should sum defense bonuses and multiply visibility by default', () => {
+    map.setTerrain(1, 1, 'forest', { defenseBonus: 1 });
+    map.setLayerTerrain('structure', 1, 1, 'fort', {
+      defenseBonus: 2,
+      visibilityModifier: 0.5,
+    });
+
+    expect(map.getDefenseBonus(1, 1)).toBe(3);
+    expect(map.getTerrainProperties(1, 1)?.visibilityModifier).toBe(0.35);
+  });
+
+  it('should follow the configured layer order', () => {
+    const ordered = new Map(3, 3, 'Ordered', {
+      layers: { order: ['ground', 'roof', 'floor'] },
+    });
+    ordered.setLayerTerrain('floor', 0, 0, 'tiles', { movementCost: 1 });
+    ordered.setLayerTerrain('roof', 0, 0, 'beams', { movementCost: 4 });
+
+    expect(ordered.getMovementCost(0, 0)).toBe(1);
+    expect(() => ordered.setLayerTerrain('overlay', 0, 0, 'road')).toThrow(
+      'Layer overlay is not configured for map Ordered'
+    );
+  });
+
+  it('should clear layers and publish layer events', () => {
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    map.setLayerTerrain('overlay', 1, 0, 'road');
+    expect(map.clearLayer('overlay', 1, 0)).toBe(true);
+    expect(map.clearLayer('overlay', 1, 0)).toBe(false);
+
+    expect(map.getLayerCell('overlay', 1, 0)).toBeNull();
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1]![0][0]).toMatchObject({
+      type: 'layerChanged',
+      position: [1, 0],
+      data: { layer: 'overlay', after: null },
+    });
+  });
+
+  it('should write the ground layer through setTerrain', () => {
+    map.setLayerTerrain('ground', 0, 0, 'sand');
+
+    expect(map.getTerrain(0, 0)).toBe('sand');
+    expect(map.getLayerCell('ground', 0, 0)?.terrain).toBe('sand');
+    expect(() => map.clearLayer('ground', 0, 0)).toThrow();
+  });
+
+  it('should keep layers through serialization and cloning', () => {
+    map.setTerrain(2, 2, 'water');
+    map.setLayerTerrain('structure', 2, 2, 'bridge', { impassable: false });
+
+    const loaded = Map.fromJSON(JSON.parse(JSON.stringify(map.toJSON())));
+    const clone = map.clone();
+
+    for (const copy of [loaded, clone]) {
+      expect(copy.getLayerCell('structure', 2, 2)).toEqual(
+        map.getLayerCell('structure', 2, 2)
+      );
+      expect(copy.isWalkable(2, 2)).toBe(true);
+    }
+    expect(new Map(2, 2).toJSON().layers).toBeUndefined();
+  });
+
+  it('should reject invalid serialized layers', () => {
+    const data = {
+      ...map.toJSON(),
+      layers: { overlay: [{ x: 9, y: 0, terrain: 'road', properties: {} }] },
+    };
+
+    expect(() => Map.fromJSON(data)).toThrow(
+      'map.layers.overlay[0] must have an x and y on the map'
+    );
+  });
+
+  it('should drop layers cut off by a resize', () => {
+    map.setLayerTerrain('overlay', 4, 4, 'road');
+    map.resize(3, 3);
+    map.resize(5, 5);
+
+    expect(map.getLayers(4, 4)).toHaveLength(1);
+  });
+
+  it('should undo and redo layer edits, including resizes', () => {
+    const history = new MapHistory(map);
+    map.setLayerTerrain('structure', 4, 4, 'wall');
+    map.clearLayer('structure', 4, 4);
+    expect(history.getUndoNames()).toEqual(['clearLayer', 'setLayerTerrain']);
+
+    history.undo();
+    expect(map.getLayerCell('structure', 4, 4)?.terrain).toBe('wall');
+
+    map.resize(3, 3);
+    history.undo();
+    expect(map.isWalkable(4, 4)).toBe(false);
+
+    history.undo();
+    expect(map.getLayerCell('structure', 4, 4)).toBeNull();
+    history.redo();
+    expect(map.getLayerCell('structure', 4, 4)?.terrain).toBe('wall');
+  });
+});
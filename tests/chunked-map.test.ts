@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChunkedMap } from '../src/core/ChunkedMap';
+import { findPath } from '../src/utils/pathfinding';
+import { getMovementRange } from '../src/utils/movementRange';
+import { getFieldOfView } from '../src/utils/visibility';
+import { getAreaCells } from '../src/utils/areaOfEffect';
+import type { IChunkProvider, IMapCell, MapEvent } from '../src/types/mapTypes';
+
+const water: IMapCell = { terrain: 'water', properties: { movementCost: 2 } };
+
+describe('ChunkedMap', () => {
+  let map: ChunkedMap;
+
+  beforeEach(() => {
+    map = new ChunkedMap(4096, 4096, 'Overworld', { chunkSize: 16 });
+  });
+
+  it('should create chunks on first access only', () => {
+    expect(map.getLoadedChunks()).toEqual([]);
+
+    expect(map.getTerrain(100, 40)).toBe('grass');
+    expect(map.getLoadedChunks()).toEqual([{ chunkX: 6, chunkY: 2 }]);
+    expect(map.getCell(4096, 0)).toBeNull();
+    expect(map.getLoadedChunks()).toHaveLength(1);
+  });
+
+  it('should edit cells like a Map', () => {
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    expect(map.setTerrain(17, 3, 'water')).toBe(true);
+    expect(map.setTerrain(-1, 3, 'water')).toBe(false);
+
+    expect(map.getTerrain(17, 3)).toBe('water');
+    expect(map.isWalkable(17, 3)).toBe(false);
+    expect(map.getMovementCost(18, 3)).toBe(1);
+    expect(map.getAdjacentCells(0, 0, false)).toHaveLength(2);
+
+    const events: MapEvent[] = listener.mock.calls.flatMap(call => call[0]);
+    expect(events.map(event => event.type)).toEqual([
+      'chunkLoaded',
+      'terrainChanged',
+      'chunkLoaded',
+    ]);
+    expect(events[0]).toMatchObject({
+      position: [16, 0],
+      data: { chunkX: 1, chunkY: 0, saved: false },
+    });
+  });
+
+  it('should fill chunks from a provider', () => {
+    const provider: IChunkProvider = {
+      load: ({ chunkX, size }) =>
+        chunkX < 0
+          ? Array.from({ length: size }, () => Array(size).fill(water))
+          : null,
+    };
+    const endless = new ChunkedMap(Infinity, Infinity, 'Endless', {
+      chunkSize: 8,
+      provider,
+    });
+
+    expect(endless.getTerrain(-5, -1000)).toBe('water');
+    expect(endless.getTerrain(5, 1000)).toBe('grass');
+    expect(endless.getChunkCoordinate(-5, -1000)).toEqual({
+      chunkX: -1,
+      chunkY: -125,
+    });
+
+    const broken = new ChunkedMap(64, 64, 'Broken', {
+      chunkSize: 8,
+      provider: { load: () => [[water]] },
+    });
+    expect(() => broken.getCell(0, 0)).toThrow(
+      'Chunk (0, 0) of map Broken must be 8x8 cells'
+    );
+  });
+
+  it('should stream chunks around observers', () => {
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    map.updateObservers([{ x: 40, y: 40 }]);
+    expect(map.getLoadedChunks()).toHaveLength(9);
+    expect(map.isChunkLoaded(1, 1)).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // Still within the unload radius of the observer
+    map.updateObservers([{ x: 56, y: 40 }]);
+    expect(map.isChunkLoaded(1, 1)).toBe(true);
+
+    map.updateObservers([{ x: 400, y: 400 }]);
+    expect(map.isChunkLoaded(1, 1)).toBe(false);
+    expect(map.getLoadedChunks()).toHaveLength(9);
+  });
+
+  it('should save edited chunks before unloading them', () => {
+    const stored: Record<string, IMapCell[][]> = {};
+    const provider: IChunkProvider = {
+      load: ({ chunkX, chunkY }) => stored[`${chunkX},${chunkY}`] ?? null,
+      save: ({ chunkX, chunkY }, cells) => {
+        stored[`${chunkX},${chunkY}`] = cells;
+      },
+    };
+    const saved = new ChunkedMap(256, 256, 'Saved', {
+      chunkSize: 16,
+      provider,
+    });
+
+    saved.setTerrain(3, 3, 'forest');
+    expect(saved.unloadChunk(0, 0)).toBe(true);
+    expect(stored['0,0']?.[3]?.[3]?.terrain).toBe('forest');
+    expect(saved.getTerrain(3, 3)).toBe('forest');
+  });
+
+  it('should keep edited chunks it cannot save', () => {
+    map.setTerrain(3, 3, 'forest');
+    map.getCell(40, 40);
+
+    expect(map.unloadChunk(0, 0)).toBe(false);
+    expect(map.unloadChunk(2, 2)).toBe(true);
+    map.updateObservers([{ x: 1000, y: 1000 }]);
+    expect(map.getTerrain(3, 3)).toBe('forest');
+  });
+
+  it('should work with the grid algorithms of Map', () => {
+    for (let y = 0; y < 10; y++) {
+      map.setTerrain(2000, 2000 + y, 'wall');
+    }
+
+    const path = findPath(map, { x: 1998, y: 2001 }, { x: 2002, y: 2001 });
+    expect(path.found && path.path).toContainEqual({ x: 2000, y: 1999 });
+    expect(map.getLoadedChunks().length).toBeLessThan(10);
+
+    const range = getMovementRange(map, { x: 0, y: 0 }, 2, {
+      allowDiagonal: false,
+    });
+    expect(range.tiles).toHaveLength(6);
+
+    const visible = getFieldOfView(map, { x: 1998, y: 2005 }, 4);
+    expect(visible).toContainEqual({ x: 1999, y: 2005, visibility: 1 });
+    expect(visible.some(tile => tile.x > 2000)).toBe(false);
+
+    expect(
+      getAreaCells(map, { x: 0, y: 0 }, { type: 'square', radius: 1 })
+    ).toHaveLength(4);
+  });
+
+  it('should search endless maps within a maximum cost', () => {
+    const endless = new ChunkedMap(Infinity, Infinity, 'Endless', {
+      chunkSize: 8,
+    });
+    for (const [x, y] of [
+      [-1, 0],
+      [1, 0],
+      [0, -1],
+      [0, 1],
+      [-1, -1],
+      [1, 1],
+      [-1, 1],
+      [1, -1],
+    ]) {
+      endless.setTerrain(x!, y!, 'water');
+    }
+
+    expect(findPath(endless, { x: -20, y: -20 }, { x: 20, y: 20 })).toEqual(
+      expect.objectContaining({ found: true })
+    );
+    expect(
+      findPath(endless, { x: 5, y: 5 }, { x: 0, y: 0 }, { maxCost: 20 })
+    ).toEqual({ found: false, reason: 'unreachable' });
+    // Without a maximum cost the search stops at a default bound
+    expect(findPath(endless, { x: 5, y: 5 }, { x: 0, y: 0 })).toEqual({
+      found: false,
+      reason: 'unreachable',
+    });
+    expect(endless.getLoadedChunks().length).toBeLessThan(200);
+  });
+
+  it('should refuse unit checks and follow hex grids', () => {
+    expect(() =>
+      findPath(map, { x: 0, y: 0 }, { x: 3, y: 3 }, { unitId: 'scout' })
+    ).toThrow('Map Overworld holds no units to check scout against');
+
+    const hex = new ChunkedMap(64, 64, 'Hexes', {
+      config: { grid: { type: 'hex', orientation: 'pointy' } },
+    });
+    expect(hex.getAdjacentCells(10, 10)).toHaveLength(6);
+    expect(findPath(hex, { x: 10, y: 10 }, { x: 10, y: 14 })).toEqual(
+      expect.objectContaining({ found: true, cost: 4 })
+    );
+  });
+
+  it('should track the lowest movement cost of loaded cells', () => {
+    expect(map.getMinimumMovementCost()).toBe(1);
+    map.setTerrain(5, 5, 'road');
+    expect(map.getMinimumMovementCost()).toBeCloseTo(0.8);
+  });
+
+  it('should draw bounded maps as ASCII', () => {
+    const small = new ChunkedMap(3, 2, 'Small', { chunkSize: 2 });
+    small.setTerrain(1, 1, 'water');
+
+    expect(small.toAscii({ '.': 'grass', '~': 'water' })).toBe('...\n.~.');
+    const endless = new ChunkedMap(Infinity, 4, 'Endless');
+    expect(() => endless.toAscii({ '.': 'grass' })).toThrow(
+      'Map Endless is endless and cannot be drawn whole'
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { generateDungeon } from '../src/utils/dungeon';
+import { findPath } from '../src/utils/pathfinding';
+import { hasLineOfSight } from '../src/utils/visibility';
+import type { IDungeon } from '../src/types/mapTypes';
+
+const legend = { '#': 'wall', '.': 'floor', '+': 'door' };
+
+const isInside = (dungeon: IDungeon, x: number, y: number) =>
+  dungeon.rooms.some(
+    room =>
+      x >= room.x &&
+      x < room.x + room.width &&
+      y >= room.y &&
+      y < room.y + room.height
+  );
+
+describe('generateDungeon', () => {
+  it('should produce the same dungeon for the same seed', () => {
+    const a = generateDungeon(48, 32, { seed: 'crypt' });
+    const b = generateDungeon(48, 32, { seed: 'crypt' });
+    const c = generateDungeon(48, 32, { seed: 'tomb' });
+
+    expect(a.map.toAscii(legend)).toBe(b.map.toAscii(legend));
+    expect(a.rooms).toEqual(b.rooms);
+    expect(a.map.toAscii(legend)).not.toBe(c.map.toAscii(legend));
+  });
+
+  it('should keep rooms within the size range and surrounded by walls', () => {
+    const dungeon = generateDungeon(60, 40, {
+      seed: 5,
+      roomSize: { min: 3, max: 6 },
+    });
+
+    expect(dungeon.rooms.length).toBeGreaterThan(4);
+    for (const room of dungeon.rooms) {
+      expect(room.width).toBeGreaterThanOrEqual(3);
+      expect(room.width).toBeLessThanOrEqual(6);
+      expect(room.height).toBeGreaterThanOrEqual(3);
+      expect(room.height).toBeLessThanOrEqual(6);
+      expect(dungeon.map.getTerrain(room.center.x, room.center.y)).toBe(
+        'floor'
+      );
+    }
+
+    for (let x = 0; x < 60; x++) {
+      expect(dungeon.map.getTerrain(x, 0)).toBe('wall');
+      expect(dungeon.map.isWalkable(x, 39)).toBe(false);
+    }
+    expect(hasLineOfSight(dungeon.map, { x: 0, y: 0 }, { x: 2, y: 0 })).toBe(
+      false
+    );
+  });
+
+  it.each(['lShaped', 'diagonal', 'winding'] as const)(
+    'should connect every room with %s corridors',
+    corridorStyle => {
+      const dungeon = generateDungeon(64, 40, { seed: 11, corridorStyle });
+
+      for (const room of dungeon.rooms) {
+        const result = findPath(dungeon.map, dungeon.start, room.center, {
+          allowDiagonal: false,
+        });
+        expect(result.found).toBe(true);
+      }
+      expect(findPath(dungeon.map, dungeon.start, dungeon.exit).found).toBe(
+        true
+      );
+    }
+  );
+
+  it('should describe the connection graph of its corridors', () => {
+    const dungeon = generateDungeon(64, 40, { seed: 2, extraConnections: 1 });
+
+    // A spanning tree needs one corridor per room but the first
+    expect(dungeon.corridors.length).toBeGreaterThanOrEqual(
+      dungeon.rooms.length
+    );
+    for (const { from, to } of dungeon.corridors) {
+      expect(dungeon.connections[from]).toContain(to);
+      expect(dungeon.connections[to]).toContain(from);
+    }
+    expect(dungeon.start).toEqual(dungeon.rooms[0]!.center);
+    expect(dungeon.exit).not.toEqual(dungeon.start);
+  });
+
+  it('should place doors between walls where corridors leave rooms', () => {
+    const dungeon = generateDungeon(64, 40, { seed: 8 });
+    const doors = dungeon.corridors.flatMap(corridor => corridor.doors);
+
+    expect(doors.length).toBeGreaterThan(0);
+    for (const { x, y } of doors) {
+      expect(dungeon.map.getTerrain(x, y)).toBe('door');
+      expect(dungeon.map.isWalkable(x, y)).toBe(true);
+      expect(isInside(dungeon, x, y)).toBe(false);
+    }
+
+    const doorless = generateDungeon(64, 40, { seed: 8, doors: false });
+    expect(doorless.map.toAscii(legend)).not.toContain('+');
+  });
+
+  it('should paint custom terrain brushes', () => {
+    const dungeon = generateDungeon(30, 20, {
+      seed: 1,
+      floor: { terrain: 'road' },
+      wall: { terrain: 'mountain', properties: { impassable: true } },
+    });
+    const { center } = dungeon.rooms[0]!;
+
+    expect(dungeon.map.getTerrain(center.x, center.y)).toBe('road');
+    expect(dungeon.map.getTerrain(0, 0)).toBe('mountain');
+    expect(dungeon.map.isWalkable(0, 0)).toBe(false);
+  });
+
+  it('should reject room sizes that do not fit', () => {
+    expect(() =>
+      generateDungeon(5, 5, { seed: 1, roomSize: { min: 4, max: 6 } })
+    ).toThrow('Dungeon of 5x5 is too small for rooms of at least 4x4');
+    expect(() =>
+      generateDungeon(20, 20, { seed: 1, roomSize: { min: 6, max: 4 } })
+    ).toThrow('Dungeon room sizes must be integers');
+  });
+});
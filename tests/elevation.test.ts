@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Map } from '../src/core/Map';
+import { findPath, getStepCost } from '../src/utils/pathfinding';
+import { hasLineOfSight } from '../src/utils/visibility';
+
+describe('Map elevation', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(5, 5, 'Hills', {
+      elevation: { uphillCost: 1, maxClimb: 2 },
+    });
+  });
+
+  it('should start flat and store heights per cell', () => {
+    expect(map.getElevation(2, 2)).toBe(0);
+    expect(map.getElevation(9, 9)).toBeNull();
+
+    expect(map.setElevation(2, 2, 3)).toBe(true);
+    expect(map.setElevation(9, 9, 3)).toBe(false);
+    expect(map.getElevation(2, 2)).toBe(3);
+  });
+
+  it('should publish elevation changes', () => {
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    map.setHeightmap([
+      [0, 0, 0, 0, 0],
+      [0, 1, 1, 1, 0],
+      [0, 1, 2, 1, 0],
+      [0, 1, 1, 1, 0],
+      [0, 0, 0, 0, 0],
+    ]);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0]![0]).toContainEqual({
+      type: 'elevationChanged',
+      mapId: 'Hills',
+      position: [2, 2],
+      data: { before: 0, after: 2 },
+    });
+    expect(() => map.setHeightmap([[1]])).toThrow('Heightmap must be 5x5');
+  });
+
+  it('should make climbing cost more and block steep steps', () => {
+    map.setElevation(1, 0, 1);
+    map.setElevation(2, 0, 4);
+
+    expect(map.getElevationCost(0, 0, 1, 0)).toBe(1);
+    expect(map.getElevationCost(1, 0, 0, 0)).toBe(0);
+    expect(map.getElevationCost(1, 0, 2, 0)).toBe(Infinity);
+    expect(getStepCost(map, 0, 0, 1, 0)).toBe(2);
+  });
+
+  it('should route around cliffs', () => {
+    // A wall of cliffs with a single ramp at the bottom
+    for (let y = 0; y < 4; y++) {
+      map.setElevation(2, y, 5);
+    }
+
+    const result = findPath(
+      map,
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { allowDiagonal: false }
+    );
+
+    expect(result.found).toBe(true);
+    if (result.found) {
+      expect(result.path).toContainEqual({ x: 2, y: 4 });
+      expect(
+        result.path.every(({ x, y }) => map.getElevation(x, y) === 0)
+      ).toBe(true);
+    }
+  });
+
+  it('should grant a defense bonus for higher ground', () => {
+    map = new Map(5, 5, 'Keep', { elevation: { defenseBonusPerLevel: 0.1 } });
+    map.setTerrain(2, 2, 'forest', { defenseBonus: 0.2 });
+    map.setElevation(2, 2, 2);
+
+    expect(map.getDefenseBonus(2, 2)).toBeCloseTo(0.2);
+    expect(map.getDefenseBonus(2, 2, { x: 0, y: 0 })).toBeCloseTo(0.4);
+    expect(map.getDefenseBonus(0, 0, { x: 2, y: 2 })).toBe(0);
+
+    map.setElevationAdvantage((defender, attacker) =>
+      defender > attacker ? 1 : 0
+    );
+    expect(map.getDefenseBonus(2, 2, { x: 0, y: 0 })).toBeCloseTo(1.2);
+  });
+
+  it('should block sight behind higher ground', () => {
+    map.setElevation(2, 0, 2);
+
+    expect(hasLineOfSight(map, { x: 0, y: 0 }, { x: 4, y: 0 })).toBe(false);
+
+    // From the top of a tower the hill no longer hides the target
+    map.setElevation(0, 0, 5);
+    expect(hasLineOfSight(map, { x: 0, y: 0 }, { x: 4, y: 0 })).toBe(true);
+  });
+
+  it('should keep heights through resize, clone and serialization', () => {
+    map.setElevation(1, 1, 2);
+    map.setElevation(4, 4, 3);
+
+    map.resize(3, 3);
+    expect(map.getElevation(1, 1)).toBe(2);
+
+    const copy = map.clone('Copy');
+    expect(copy.getElevation(1, 1)).toBe(2);
+
+    const data = map.toJSON();
+    expect(data.elevation).toHaveLength(9);
+    expect(Map.fromJSON(data).getElevation(1, 1)).toBe(2);
+    expect(new Map(3, 3).toJSON().elevation).toBeUndefined();
+    expect(() => Map.fromJSON({ ...data, elevation: [0, 0, 'high'] })).toThrow(
+      'map.elevation must be an array of 9 heights'
+    );
+  });
+});
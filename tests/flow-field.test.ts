@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import { FlowField } from '../src/core/FlowField';
+import { findPath } from '../src/utils/pathfinding';
+
+describe('FlowField', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(6, 6, 'Battlefield');
+  });
+
+  it('should integrate movement costs from the goal', () => {
+    const field = map.createFlowField([{ x: 0, y: 0 }], {
+      allowDiagonal: false,
+    });
+
+    expect(field).toBeInstanceOf(FlowField);
+    expect(field.getCost(0, 0)).toBe(0);
+    expect(field.getCost(3, 2)).toBe(5);
+    expect(field.getNextStep(0, 0)).toBeNull();
+    expect(field.getCost(9, 9)).toBe(Infinity);
+  });
+
+  it('should lead to the nearest of several goals', () => {
+    const field = map.createFlowField([
+      { x: 0, y: 0 },
+      { x: 5, y: 5 },
+    ]);
+
+    expect(field.getNextStep(1, 1)).toEqual({ x: 0, y: 0 });
+    expect(field.getNextStep(4, 4)).toEqual({ x: 5, y: 5 });
+    expect(field.getDirection(4, 4)).toEqual({ x: 1, y: 1 });
+  });
+
+  it('should match the cost of the shortest path', () => {
+    map.setTerrain(2, 1, 'mountain');
+    map.setTerrain(2, 2, 'water');
+    map.setTerrain(2, 3, 'forest');
+    const goal = { x: 5, y: 2 };
+    const field = map.createFlowField([goal]);
+
+    const path = findPath(map, { x: 0, y: 2 }, goal);
+    expect(path.found && path.cost).toBeCloseTo(field.getCost(0, 2));
+
+    // Following the steps reaches the goal
+    let position = { x: 0, y: 2 };
+    for (let steps = 0; steps < 20; steps++) {
+      const next = field.getNextStep(position.x, position.y);
+      if (!next) break;
+      position = next;
+    }
+    expect(position).toEqual(goal);
+  });
+
+  it('should leave unreachable cells without a direction', () => {
+    for (let y = 0; y < 6; y++) {
+      map.setTerrain(3, y, 'water');
+    }
+    const field = map.createFlowField([{ x: 5, y: 0 }]);
+
+    expect(field.getCost(0, 0)).toBe(Infinity);
+    expect(field.getDirection(0, 0)).toBeNull();
+    expect(field.getNextStep(4, 1)).toEqual({ x: 5, y: 0 });
+  });
+
+  it('should limit the field to the maximum cost', () => {
+    const field = map.createFlowField([{ x: 0, y: 0 }], {
+      allowDiagonal: false,
+      maxCost: 2,
+    });
+
+    expect(field.getCost(1, 1)).toBe(2);
+    expect(field.getCost(2, 1)).toBe(Infinity);
+  });
+
+  it('should be recomputed after the map changes', () => {
+    const field = map.createFlowField([{ x: 5, y: 0 }]);
+    expect(field.getNextStep(4, 0)).toEqual({ x: 5, y: 0 });
+    expect(field.isValid()).toBe(true);
+
+    map.setTerrain(4, 0, 'water');
+    expect(field.isValid()).toBe(false);
+    expect(field.getCost(4, 0)).toBe(Infinity);
+
+    map.addFeature('gate', 'door', 4, 1);
+    expect(field.getNextStep(3, 1)).not.toEqual({ x: 4, y: 1 });
+
+    map.triggerFeature('gate', 'open');
+    expect(field.getNextStep(3, 1)).toEqual({ x: 4, y: 1 });
+  });
+
+  it('should follow resizes and stop following once disposed', () => {
+    const field = map.createFlowField([{ x: 0, y: 0 }]);
+
+    map.resize(8, 8);
+    expect(field.getCost(7, 7)).toBeCloseTo(7 * Math.SQRT2);
+
+    field.dispose();
+    map.setTerrain(1, 1, 'water');
+    expect(field.isValid()).toBe(true);
+    field.invalidate();
+    expect(field.getCost(1, 1)).toBe(Infinity);
+  });
+
+  it('should let units drop down cliffs they cannot climb', () => {
+    const ridge = new Map(3, 1, 'Ridge', { elevation: { maxClimb: 1 } });
+    ridge.setElevation(2, 0, 5);
+
+    const down = ridge.createFlowField([{ x: 0, y: 0 }]);
+    const path = findPath(ridge, { x: 2, y: 0 }, { x: 0, y: 0 });
+    expect(path.found && path.cost).toBe(down.getCost(2, 0));
+    expect(down.getNextStep(2, 0)).toEqual({ x: 1, y: 0 });
+
+    const up = ridge.createFlowField([{ x: 2, y: 0 }]);
+    expect(up.getCost(0, 0)).toBe(Infinity);
+    expect(up.getNextStep(1, 0)).toBeNull();
+  });
+
+  it('should point across wrapped edges', () => {
+    const globe = new Map(6, 6, 'Globe', { wrapEdges: true });
+    const field = globe.createFlowField([{ x: 0, y: 0 }]);
+
+    expect(field.getNextStep(5, 0)).toEqual({ x: 0, y: 0 });
+    expect(field.getDirection(5, 0)).toEqual({ x: 1, y: 0 });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import { FogOfWar } from '../src/core/FogOfWar';
+
+describe('FogOfWar', () => {
+  let map: Map;
+  let fog: FogOfWar;
+
+  const scout = (x: number, y: number, mapId: string = 'Fog Map') => ({
+    unitId: `scout-${x}-${y}`,
+    mapId,
+    position: { x, y },
+  });
+
+  beforeEach(() => {
+    map = new Map(10, 10, 'Fog Map');
+    fog = new FogOfWar(map);
+  });
+
+  it('should start with every cell unexplored', () => {
+    expect(fog.getState('red', 0, 0)).toBe('unexplored');
+    expect(fog.isVisible('red', 0, 0)).toBe(false);
+    expect(fog.isExplored('red', 0, 0)).toBe(false);
+  });
+
+  it('should reveal cells around observers', () => {
+    const diff = fog.update('red', [{ unit: scout(2, 2), sightRange: 1 }]);
+
+    expect(diff.factionId).toBe('red');
+    expect(diff.changes.length).toBe(5); // Origin plus 4 orthogonal cells
+    expect(fog.isVisible('red', 2, 2)).toBe(true);
+    expect(fog.isVisible('red', 3, 2)).toBe(true);
+    expect(fog.isVisible('red', 5, 5)).toBe(false);
+
+    // Other factions are not affected
+    expect(fog.isVisible('blue', 2, 2)).toBe(false);
+  });
+
+  it('should keep cells explored after observers leave', () => {
+    fog.update('red', [{ unit: scout(2, 2), sightRange: 1 }]);
+    const diff = fog.update('red', [{ unit: scout(7, 7), sightRange: 1 }]);
+
+    expect(fog.getState('red', 2, 2)).toBe('explored');
+    expect(fog.getState('red', 7, 7)).toBe('visible');
+    expect(diff.changes).toContainEqual({
+      x: 2,
+      y: 2,
+      previous: 'visible',
+      state: 'explored',
+    });
+    expect(diff.changes).toContainEqual({
+      x: 7,
+      y: 7,
+      previous: 'unexplored',
+      state: 'visible',
+    });
+  });
+
+  it('should produce an empty diff when nothing changed', () => {
+    const observers = [{ unit: scout(4, 4), sightRange: 2 }];
+    fog.update('red', observers);
+
+    expect(fog.update('red', observers).changes).toEqual([]);
+  });
+
+  it('should respect terrain blocking the view', () => {
+    map.setTerrain(3, 2, 'wall', { opaque: true });
+
+    fog.update('red', [{ unit: scout(2, 2), sightRange: 3 }]);
+
+    expect(fog.isVisible('red', 3, 2)).toBe(true);
+    expect(fog.isVisible('red', 4, 2)).toBe(false);
+  });
+
+  it('should ignore observers on other maps', () => {
+    const diff = fog.update('red', [
+      { unit: scout(2, 2, 'Other Map'), sightRange: 3 },
+    ]);
+    expect(diff.changes).toEqual([]);
+  });
+
+  it('should filter unit positions to those a faction can see', () => {
+    fog.update('red', [{ unit: scout(2, 2), sightRange: 2 }]);
+
+    const units = [
+      { unitId: 'near', mapId: 'Fog Map', position: { x: 3, y: 2 } },
+      { unitId: 'far', mapId: 'Fog Map', position: { x: 9, y: 9 } },
+      { unitId: 'elsewhere', mapId: 'Other Map', position: { x: 3, y: 2 } },
+    ];
+
+    expect(fog.filterVisiblePositions('red', units).map(u => u.unitId)).toEqual(
+      ['near']
+    );
+  });
+
+  it('should provide a snapshot and reset factions', () => {
+    fog.update('red', [{ unit: scout(0, 0), sightRange: 1 }]);
+
+    expect(fog.getFactions()).toEqual(['red']);
+    expect(fog.getSnapshot('red').changes.length).toBe(3);
+
+    expect(fog.resetFaction('red')).toBe(true);
+    expect(fog.resetFaction('red')).toBe(false);
+    expect(fog.getState('red', 0, 0)).toBe('unexplored');
+  });
+
+  it('should keep explored cells when the map is resized', () => {
+    fog.update('red', [{ unit: scout(1, 1), sightRange: 1 }]);
+
+    map.resize(12, 12);
+    expect(fog.getState('red', 1, 1)).toBe('visible');
+    expect(fog.getState('red', 11, 11)).toBe('unexplored');
+
+    fog.update('red', [{ unit: scout(11, 11), sightRange: 0 }]);
+    expect(fog.isVisible('red', 11, 11)).toBe(true);
+  });
+
+  it('should follow resizes made in the same batch', () => {
+    map.batch(() => {
+      map.resize(12, 12);
+      fog.update('red', [{ unit: scout(11, 1), sightRange: 0 }]);
+    });
+
+    expect(fog.isVisible('red', 11, 1)).toBe(true);
+    expect(fog.getState('red', 1, 2)).toBe('unexplored');
+  });
+});
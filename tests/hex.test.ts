@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import { Position } from '../src/core/Position';
+import { World } from '../src/core/World';
+import {
+  cubeToOffset,
+  getHexLayout,
+  getHexLine,
+  getHexNeighbors,
+  getHexRing,
+  getHexSpiral,
+  hexDistance,
+  offsetToCube,
+} from '../src/utils/hex';
+import { findPath } from '../src/utils/pathfinding';
+import {
+  arePositionsAdjacent,
+  getAdjacentPositions,
+  getDistanceBetweenPositions,
+} from '../src/utils/unitPositions';
+import type { IHexLayout } from '../src/types/positionTypes';
+
+const sortPositions = (positions: Array<{ x: number; y: number }>) =>
+  positions
+    .map(({ x, y }) => ({ x, y }))
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+
+describe('Hex grids', () => {
+  const pointyOdd: IHexLayout = { orientation: 'pointy', offset: 'odd' };
+  const flatEven: IHexLayout = { orientation: 'flat', offset: 'even' };
+
+  it('should resolve the hex layout with defaults', () => {
+    expect(getHexLayout()).toBeNull();
+    expect(getHexLayout({ type: 'square' })).toBeNull();
+    expect(getHexLayout({ type: 'hex' })).toEqual(pointyOdd);
+  });
+
+  it('should convert between offset and cube coordinates', () => {
+    for (const layout of [
+      pointyOdd,
+      flatEven,
+      { orientation: 'pointy', offset: 'even' } as IHexLayout,
+      { orientation: 'flat', offset: 'odd' } as IHexLayout,
+    ]) {
+      for (let y = -3; y <= 3; y++) {
+        for (let x = -3; x <= 3; x++) {
+          const cube = offsetToCube({ x, y }, layout);
+          expect(cube.q + cube.r + cube.s).toBe(0);
+          expect(cubeToOffset(cube, layout)).toEqual({ x, y });
+        }
+      }
+    }
+  });
+
+  it('should find the six neighbours of odd and even rows', () => {
+    expect(sortPositions(getHexNeighbors({ x: 2, y: 2 }, pointyOdd))).toEqual([
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 1, y: 2 },
+      { x: 3, y: 2 },
+      { x: 1, y: 3 },
+      { x: 2, y: 3 },
+    ]);
+    expect(sortPositions(getHexNeighbors({ x: 2, y: 1 }, pointyOdd))).toEqual([
+      { x: 2, y: 0 },
+      { x: 3, y: 0 },
+      { x: 1, y: 1 },
+      { x: 3, y: 1 },
+      { x: 2, y: 2 },
+      { x: 3, y: 2 },
+    ]);
+  });
+
+  it('should measure hex distance', () => {
+    expect(hexDistance({ x: 0, y: 0 }, { x: 0, y: 0 }, pointyOdd)).toBe(0);
+    expect(hexDistance({ x: 2, y: 2 }, { x: 1, y: 1 }, pointyOdd)).toBe(1);
+    expect(hexDistance({ x: 0, y: 0 }, { x: 3, y: 0 }, pointyOdd)).toBe(3);
+    expect(hexDistance({ x: 0, y: 0 }, { x: 2, y: 4 }, pointyOdd)).toBe(4);
+    expect(hexDistance({ x: 0, y: 0 }, { x: 4, y: 2 }, flatEven)).toBe(4);
+  });
+
+  it('should build rings and spirals', () => {
+    const center = { x: 5, y: 5 };
+
+    expect(getHexRing(center, 0, pointyOdd)).toEqual([center]);
+    expect(getHexRing(center, 2, pointyOdd)).toHaveLength(12);
+    expect(
+      getHexRing(center, 2, pointyOdd).every(
+        position => hexDistance(center, position, pointyOdd) === 2
+      )
+    ).toBe(true);
+
+    const spiral = getHexSpiral(center, 2, flatEven);
+    expect(spiral).toHaveLength(19);
+    expect(spiral[0]).toEqual(center);
+    expect(new Set(spiral.map(({ x, y }) => `${x},${y}`)).size).toBe(19);
+  });
+
+  it('should draw connected hex lines', () => {
+    const line = getHexLine({ x: 0, y: 0 }, { x: 4, y: 3 }, pointyOdd);
+
+    expect(line[0]).toEqual({ x: 0, y: 0 });
+    expect(line[line.length - 1]).toEqual({ x: 4, y: 3 });
+    expect(line).toHaveLength(
+      hexDistance({ x: 0, y: 0 }, { x: 4, y: 3 }, pointyOdd) + 1
+    );
+    for (let i = 1; i < line.length; i++) {
+      expect(hexDistance(line[i - 1]!, line[i]!, pointyOdd)).toBe(1);
+    }
+  });
+
+  describe('on maps', () => {
+    let map: Map;
+    let world: World;
+
+    beforeEach(() => {
+      map = new Map(6, 6, 'Hex Map', { grid: { type: 'hex' } });
+      world = new World();
+      world.addMap(map);
+    });
+
+    it('should return six adjacent cells and hex ranges', () => {
+      expect(map.getAdjacentCells(2, 2)).toHaveLength(6);
+      expect(map.getAdjacentCells(0, 0)).toHaveLength(2);
+      expect(map.getNearbyCells(3, 3, 1)).toHaveLength(6);
+      expect(map.getNearbyCells(3, 3, 2)).toHaveLength(18);
+    });
+
+    it('should answer adjacency and distance queries with hex rules', () => {
+      const a = { mapId: 'Hex Map', position: { x: 2, y: 2 } };
+      const b = { mapId: 'Hex Map', position: { x: 1, y: 3 } };
+      const c = { mapId: 'Hex Map', position: { x: 3, y: 3 } };
+
+      expect(arePositionsAdjacent(a, b, true, world)).toBe(true);
+      expect(arePositionsAdjacent(a, c, true, world)).toBe(false);
+      expect(getDistanceBetweenPositions(a, c, true, world)).toBe(2);
+      expect(getAdjacentPositions(world, 'Hex Map', 2, 2)).toHaveLength(6);
+
+      const position = new Position(2, 2);
+      expect(
+        position.isAdjacentTo(new Position(1, 3), true, map.config.grid)
+      ).toBe(true);
+      expect(position.getAdjacentPositions(position, map)).toHaveLength(6);
+    });
+
+    it('should find paths with uniform hex steps', () => {
+      const result = findPath(map, { x: 0, y: 0 }, { x: 2, y: 4 });
+
+      expect(result.found).toBe(true);
+      if (result.found) {
+        expect(result.path).toHaveLength(5);
+        expect(result.cost).toBe(4);
+      }
+    });
+  });
+});
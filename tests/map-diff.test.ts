@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import {
+  MapPatchConflictError,
+  applyMapDiff,
+  diffFromEvents,
+  diffMaps,
+  getMapChecksum,
+  readMapDiff,
+} from '../src/utils/mapDiff';
+import { MapSerializationError } from '../src/utils/mapSerialization';
+import type { MapEvent } from '../src/types/mapTypes';
+
+describe('Map diff', () => {
+  let server: Map;
+  let client: Map;
+
+  beforeEach(() => {
+    server = new Map(6, 6, 'Arena');
+    client = Map.fromJSON(server.toJSON());
+  });
+
+  it('should give equal maps the same checksum', () => {
+    expect(getMapChecksum(client)).toBe(getMapChecksum(server));
+
+    server.setTerrain(1, 1, 'water');
+    expect(getMapChecksum(client)).not.toBe(getMapChecksum(server));
+
+    server.setTerrain(1, 1, 'grass');
+    server.setElevation(2, 2, 1);
+    expect(getMapChecksum(client)).not.toBe(getMapChecksum(server));
+  });
+
+  it('should only contain changed cells', () => {
+    const before = server.clone();
+    server.setTerrain(1, 1, 'water');
+    server.setTerrain(2, 1, 'water');
+    server.setTerrain(3, 3, 'forest', { movementCost: 2 });
+    server.setElevation(0, 0, 3);
+
+    const diff = diffMaps(before, server);
+
+    expect(diff.palette).toHaveLength(2);
+    expect(diff.cells).toEqual([1, 1, 0, 2, 1, 0, 3, 3, 1]);
+    expect(diff.elevation).toEqual([0, 0, 3]);
+    expect(diff.size).toBeUndefined();
+    expect(diff.base).toBe(getMapChecksum(before));
+  });
+
+  it('should patch another map to the same state', () => {
+    const before = server.clone();
+    server.setTerrain(5, 5, 'swamp');
+    server.resize(8, 4);
+    server.setTerrain(7, 0, 'snow');
+
+    const diff = readMapDiff(
+      JSON.parse(JSON.stringify(diffMaps(before, server)))
+    );
+    applyMapDiff(client, diff);
+
+    expect(client.width).toBe(8);
+    expect(client.getTerrain(7, 0)).toBe('snow');
+    expect(getMapChecksum(client)).toBe(diff.target);
+  });
+
+  it('should patch default cells without the registry defaults', () => {
+    const lake = new Map(3, 3, 'Lake', { defaultTerrain: 'water' });
+    const copy = Map.fromJSON(lake.toJSON());
+    const before = lake.clone();
+    lake.resize(5, 5);
+
+    const diff = diffMaps(before, lake);
+    applyMapDiff(copy, readMapDiff(JSON.parse(JSON.stringify(diff))));
+
+    expect(getMapChecksum(copy)).toBe(diff.target);
+    expect(copy.getCell(4, 4)).toEqual(lake.getCell(4, 4));
+  });
+
+  it('should build diffs from recorded events', () => {
+    const base = getMapChecksum(server);
+    const events: MapEvent[] = [];
+    server.subscribe(batch => events.push(...batch));
+
+    server.setTerrain(0, 0, 'water');
+    server.setTerrain(0, 0, 'sand');
+    server.setElevation(4, 4, 2);
+    server.setTerrain(5, 5, 'snow');
+    server.resize(5, 5);
+    server.resize(6, 6);
+
+    const diff = diffFromEvents(server, events, base);
+    applyMapDiff(client, diff);
+
+    expect(client.getTerrain(0, 0)).toBe('sand');
+    expect(client.getTerrain(5, 5)).toBe('grass');
+    expect(getMapChecksum(client)).toBe(getMapChecksum(server));
+  });
+
+  it('should sync layer cells', () => {
+    server.setLayerTerrain('overlay', 1, 1, 'road');
+    client.setLayerTerrain('overlay', 1, 1, 'road');
+    expect(getMapChecksum(client)).toBe(getMapChecksum(server));
+
+    const before = server.clone();
+    const base = getMapChecksum(server);
+    const events: MapEvent[] = [];
+    server.subscribe(batch => events.push(...batch));
+
+    server.setLayerTerrain('structure', 2, 2, 'bridge', {
+      impassable: false,
+    });
+    server.clearLayer('overlay', 1, 1);
+    expect(getMapChecksum(server)).not.toBe(base);
+
+    const diff = diffMaps(before, server);
+    expect(diff.layers).toHaveLength(2);
+    expect(diffFromEvents(server, events, base).layers).toEqual(
+      expect.arrayContaining(diff.layers!)
+    );
+
+    applyMapDiff(client, readMapDiff(JSON.parse(JSON.stringify(diff))));
+    expect(client.getLayerCell('structure', 2, 2)?.terrain).toBe('bridge');
+    expect(client.getLayerCell('overlay', 1, 1)).toBeNull();
+    expect(getMapChecksum(client)).toBe(getMapChecksum(server));
+    expect(diffMaps(server, client).layers).toBeUndefined();
+  });
+
+  it('should sync features', () => {
+    server.addFeature('gate', 'door', 2, 2);
+    server.addFeature('rubble', 'destructibleWall', 4, 4);
+    client.addFeature('rubble', 'destructibleWall', 4, 4);
+    client.addFeature('gate', 'door', 2, 2);
+    expect(getMapChecksum(client)).toBe(getMapChecksum(server));
+
+    const before = server.clone();
+    const base = getMapChecksum(server);
+    const events: MapEvent[] = [];
+    server.subscribe(batch => events.push(...batch));
+
+    server.triggerFeature('gate', 'open');
+    server.removeFeature('rubble');
+    expect(getMapChecksum(server)).not.toBe(base);
+
+    const diff = diffMaps(before, server);
+    expect(diff.features).toHaveLength(2);
+    expect(diffFromEvents(server, events, base).features).toEqual(
+      diff.features
+    );
+
+    applyMapDiff(client, readMapDiff(JSON.parse(JSON.stringify(diff))));
+    expect(client.getFeature('gate')?.state).toBe('open');
+    expect(client.getFeature('rubble')).toBeNull();
+    expect(getMapChecksum(client)).toBe(getMapChecksum(server));
+  });
+
+  it('should refuse diffs made for another version', () => {
+    const before = server.clone();
+    server.setTerrain(1, 1, 'water');
+    const diff = diffMaps(before, server);
+
+    client.setTerrain(4, 4, 'desert');
+    expect(() => applyMapDiff(client, diff)).toThrow(MapPatchConflictError);
+    expect(client.getTerrain(1, 1)).toBe('grass');
+  });
+
+  it('should reject malformed diffs', () => {
+    const diff = diffMaps(server, server);
+
+    expect(() => readMapDiff({ ...diff, cells: [1, 2] })).toThrow(
+      'diff.cells must be an array of [x, y, value] number triples'
+    );
+    expect(() => readMapDiff({ ...diff, cells: [0, 0, 4] })).toThrow(
+      MapSerializationError
+    );
+    expect(() => readMapDiff({ ...diff, cells: [0, 0, -1] })).toThrow(
+      'diff.cells[2] references unknown palette entry -1'
+    );
+    expect(() => readMapDiff({ ...diff, elevation: [0.5, 0, 1] })).toThrow(
+      'diff.elevation[0] must be an integer coordinate'
+    );
+    expect(() => readMapDiff({ ...diff, base: 1 })).toThrow(
+      'diff.base must be a string'
+    );
+    expect(() =>
+      readMapDiff({ ...diff, layers: [{ layer: 'overlay', x: 0, y: 0 }] })
+    ).toThrow(
+      'diff.layers[0] must have a layer, an x and y and a cell or null'
+    );
+    expect(() =>
+      readMapDiff({ ...diff, features: [{ id: 'gate', feature: { id: 1 } }] })
+    ).toThrow(MapSerializationError);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Map } from '../src/core/Map';
+import { World } from '../src/core/World';
+import type { MapEvent } from '../src/types/mapTypes';
+
+describe('Map events', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(5, 5, 'Event Map');
+  });
+
+  it('should publish terrain changes with before and after cells', () => {
+    const received: MapEvent[][] = [];
+    map.subscribe(events => received.push(events));
+
+    map.setTerrain(2, 3, 'water');
+
+    expect(received.length).toBe(1);
+    const [event] = received[0]!;
+    expect(event?.type).toBe('terrainChanged');
+    expect(event?.mapId).toBe('Event Map');
+    expect(event?.position).toEqual([2, 3]);
+    if (event?.type !== 'terrainChanged') return;
+    expect(event.data.before.terrain).toBe('grass');
+    expect(event.data.after.terrain).toBe('water');
+  });
+
+  it('should report wrapped coordinates on wrapped maps', () => {
+    const wrapped = new Map(5, 5, 'Wrapped', { wrapEdges: true });
+    const listener = vi.fn();
+    wrapped.subscribe(listener);
+
+    wrapped.setTerrain(-1, 6, 'sand');
+
+    expect(listener.mock.calls[0]![0][0].position).toEqual([4, 1]);
+  });
+
+  it('should not publish anything for rejected edits', () => {
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    map.setTerrain(10, 10, 'water');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should publish resize events with the previous and new size', () => {
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    map.resize(8, 6);
+
+    expect(listener).toHaveBeenCalledWith([
+      {
+        type: 'mapChanged',
+        mapId: 'Event Map',
+        position: [0, 0],
+        data: {
+          change: 'resized',
+          before: { width: 5, height: 5 },
+          after: { width: 8, height: 6 },
+        },
+      },
+    ]);
+  });
+
+  it('should batch bulk edits into a single notification', () => {
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    map.batch(() => {
+      map.setTerrain(0, 0, 'water');
+      map.batch(() => {
+        map.setTerrain(1, 0, 'water');
+      });
+      map.setTerrain(2, 0, 'water');
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0]![0].length).toBe(3);
+  });
+
+  it('should stop notifying after unsubscribing', () => {
+    const listener = vi.fn();
+    const unsubscribe = map.subscribe(listener);
+    const other = vi.fn();
+    map.subscribe(other);
+
+    unsubscribe();
+    expect(map.unsubscribe(other)).toBe(true);
+    expect(map.unsubscribe(other)).toBe(false);
+    map.setTerrain(0, 0, 'water');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(other).not.toHaveBeenCalled();
+  });
+});
+
+describe('World events', () => {
+  let world: World;
+  let map: Map;
+
+  beforeEach(() => {
+    world = new World();
+    map = new Map(4, 3, 'World Map');
+  });
+
+  it('should publish map additions and removals', () => {
+    const received: MapEvent[] = [];
+    world.subscribe(events => received.push(...events));
+
+    world.addMap(map);
+    world.removeMap('World Map');
+
+    expect(received.map(event => event.type)).toEqual([
+      'mapChanged',
+      'mapChanged',
+    ]);
+    expect(received[0]?.data).toEqual({
+      change: 'added',
+      before: null,
+      after: { width: 4, height: 3 },
+    });
+    expect(received[1]?.data).toEqual({
+      change: 'removed',
+      before: { width: 4, height: 3 },
+      after: null,
+    });
+  });
+
+  it('should not publish when adding a duplicate map', () => {
+    world.addMap(map);
+    const listener = vi.fn();
+    world.subscribe(listener);
+
+    world.addMap(new Map(2, 2, 'World Map'));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should forward events of maps in the world until removed', () => {
+    world.addMap(map);
+    const listener = vi.fn();
+    world.subscribe(listener);
+
+    map.setTerrain(1, 1, 'forest');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0]![0][0].type).toBe('terrainChanged');
+
+    world.removeMap('World Map');
+    listener.mockClear();
+    map.setTerrain(1, 1, 'grass');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should publish one notification when clearing the world', () => {
+    world.addMap(map);
+    world.addMap(new Map(2, 2, 'Second Map'));
+    const listener = vi.fn();
+    world.subscribe(listener);
+
+    world.clear();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const events = listener.mock.calls[0]![0] as MapEvent[];
+    expect(events.map(event => event.mapId)).toEqual([
+      'World Map',
+      'Second Map',
+    ]);
+    expect(events.every(event => event.type === 'mapChanged')).toBe(true);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Map } from '../src/core/Map';
+import { MapHistory } from '../src/core/MapHistory';
+
+describe('MapHistory', () => {
+  let map: Map;
+  let history: MapHistory;
+
+  beforeEach(() => {
+    map = new Map(4, 4, 'Editor');
+    history = new MapHistory(map);
+  });
+
+  it('should undo and redo terrain edits', () => {
+    map.setTerrain(1, 1, 'water');
+    map.setTerrain(2, 2, 'forest');
+
+    expect(history.getUndoNames()).toEqual(['setTerrain', 'setTerrain']);
+    expect(history.undo()).toBe(true);
+    expect(map.getTerrain(2, 2)).toBe('grass');
+    expect(map.getTerrain(1, 1)).toBe('water');
+
+    expect(history.redo()).toBe(true);
+    expect(map.getTerrain(2, 2)).toBe('forest');
+    expect(history.redo()).toBe(false);
+  });
+
+  it('should restore custom properties', () => {
+    // Properties unknown to the library are kept as they are
+    const tollRoad = { movementCost: 0.5, tollGate: true };
+    map.setTerrain(0, 0, 'road', tollRoad);
+    map.setTerrain(0, 0, 'mountain', { movementCost: 5 });
+
+    history.undo();
+    expect(map.getCell(0, 0)).toEqual({
+      terrain: 'road',
+      properties: tollRoad,
+    });
+  });
+
+  it('should undo batched edits as one entry', () => {
+    map.batch(() => {
+      map.setTerrain(0, 0, 'water');
+      map.setTerrain(1, 0, 'water');
+    });
+    map.setHeightmap([
+      [1, 1, 1, 1],
+      [1, 2, 2, 1],
+      [1, 2, 2, 1],
+      [1, 1, 1, 1],
+    ]);
+
+    expect(history.getUndoNames()).toEqual(['setHeightmap', 'batch']);
+
+    history.undo();
+    expect(map.getElevation(1, 1)).toBe(0);
+    history.undo();
+    expect(map.getTerrain(0, 0)).toBe('grass');
+    expect(map.getTerrain(1, 0)).toBe('grass');
+  });
+
+  it('should group edits into named transactions', () => {
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    history.transact('Flood', () => {
+      map.setTerrain(0, 0, 'water');
+      map.setTerrain(0, 1, 'water');
+    });
+    history.beginTransaction('Brush stroke');
+    map.setTerrain(3, 3, 'sand');
+    map.setTerrain(3, 2, 'sand');
+    history.commitTransaction();
+
+    expect(history.getUndoNames()).toEqual(['Brush stroke', 'Flood']);
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    history.undo();
+    expect(map.getTerrain(3, 3)).toBe('grass');
+    expect(map.getTerrain(3, 2)).toBe('grass');
+    // Undoing publishes a single notification
+    expect(listener).toHaveBeenCalledTimes(4);
+    expect(history.getRedoNames()).toEqual(['Brush stroke']);
+  });
+
+  it('should roll back an open transaction', () => {
+    history.beginTransaction('Preview');
+    map.setTerrain(1, 1, 'swamp');
+    expect(() => history.beginTransaction('Other')).toThrow(
+      'Transaction Preview is still open'
+    );
+
+    expect(history.rollbackTransaction()).toBe(true);
+    expect(map.getTerrain(1, 1)).toBe('grass');
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should restore default cells exactly as they were', () => {
+    const lake = new Map(3, 3, 'Lake', { defaultTerrain: 'water' });
+    const lakeHistory = new MapHistory(lake);
+    const original = lake.getCell(1, 1);
+
+    lake.setTerrain(1, 1, 'grass');
+    lake.resize(1, 1);
+    lakeHistory.undo();
+    lakeHistory.undo();
+
+    expect(lake.getCell(1, 1)).toEqual(original);
+    expect(lake.getCell(2, 2)).toEqual(original);
+    expect(lake.isWalkable(1, 1)).toBe(true);
+  });
+
+  it('should undo resizes, restoring cut off cells', () => {
+    map.setTerrain(3, 3, 'snow');
+    map.setElevation(3, 3, 4);
+    map.resize(2, 2);
+
+    history.undo();
+    expect(map.width).toBe(4);
+    expect(map.getTerrain(3, 3)).toBe('snow');
+    expect(map.getElevation(3, 3)).toBe(4);
+
+    history.redo();
+    expect(map.width).toBe(2);
+    expect(map.getTerrain(3, 3)).toBeNull();
+
+    map.resize(5, 5);
+    map.setTerrain(4, 4, 'desert');
+    history.undo();
+    history.undo();
+    expect(map.width).toBe(2);
+  });
+
+  it('should restore cells cut off by batched resizes', () => {
+    map.setTerrain(3, 3, 'water');
+    map.setElevation(3, 3, 2);
+    map.batch(() => {
+      map.resize(2, 2);
+      map.resize(4, 4);
+    });
+    history.transact('Crop', () => {
+      map.resize(3, 3);
+      map.resize(5, 5);
+      map.setTerrain(4, 4, 'snow');
+    });
+    expect(map.getTerrain(3, 3)).toBe('grass');
+
+    history.undo();
+    expect(map.width).toBe(4);
+    expect(map.getTerrain(3, 3)).toBe('grass');
+
+    history.undo();
+    expect(map.getTerrain(3, 3)).toBe('water');
+    expect(map.getElevation(3, 3)).toBe(2);
+
+    history.redo();
+    history.redo();
+    expect(map.getTerrain(4, 4)).toBe('snow');
+    expect(map.getTerrain(3, 3)).toBe('grass');
+  });
+
+  it('should undo feature changes and restore features cut off', () => {
+    map.addFeature('gate', 'door', 1, 1);
+    map.addFeature('wall', 'destructibleWall', 3, 3);
+    map.triggerFeature('gate', 'open');
+    map.damageFeature('wall', 4);
+
+    expect(history.getUndoNames().slice(0, 2)).toEqual([
+      'damageFeature',
+      'setFeatureState',
+    ]);
+    history.undo();
+    history.undo();
+    expect(map.getFeature('gate')?.state).toBe('closed');
+    expect(map.getFeature('wall')?.hitPoints).toBe(10);
+
+    map.damageFeature('wall', 10);
+    map.resize(2, 2);
+    expect(map.getFeature('wall')).toBeNull();
+
+    history.undo();
+    expect(map.getFeature('wall')).toMatchObject({
+      state: 'destroyed',
+      hitPoints: 0,
+    });
+    history.undo();
+    expect(map.getFeature('wall')).toMatchObject({
+      state: 'intact',
+      hitPoints: 10,
+    });
+    history.undo();
+    history.undo();
+    expect(map.getFeatures()).toEqual([]);
+  });
+
+  it('should clear redo entries after a new edit', () => {
+    map.setTerrain(0, 0, 'water');
+    history.undo();
+    map.setTerrain(1, 1, 'forest');
+
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should not record undo and redo made inside a batch', () => {
+    map.setTerrain(0, 0, 'water');
+    map.setTerrain(1, 1, 'forest');
+
+    map.batch(() => {
+      history.undo();
+    });
+    expect(history.getUndoNames()).toEqual(['setTerrain']);
+    expect(history.canRedo()).toBe(true);
+
+    map.batch(() => {
+      history.redo();
+    });
+    expect(map.getTerrain(1, 1)).toBe('forest');
+    expect(history.getUndoNames()).toHaveLength(2);
+
+    map.setTerrain(2, 2, 'snow');
+    expect(history.getUndoNames()).toHaveLength(3);
+  });
+
+  it('should drop the oldest entries beyond its limits', () => {
+    const capped = new MapHistory(map, { maxEntries: 2 });
+    map.setTerrain(0, 0, 'water');
+    map.setTerrain(1, 0, 'water');
+    map.setTerrain(2, 0, 'water');
+    expect(capped.getUndoNames()).toHaveLength(2);
+
+    const small = new MapHistory(map, { maxMemory: 1 });
+    map.setTerrain(0, 1, 'water');
+    map.setTerrain(1, 1, 'water');
+    expect(small.getUndoNames()).toHaveLength(1);
+    expect(small.memoryUsage).toBeGreaterThan(0);
+
+    // Undone entries count until a new edit drops them
+    const usage = history.memoryUsage;
+    history.undo();
+    expect(history.memoryUsage).toBe(usage);
+    history.clear();
+    expect(history.memoryUsage).toBe(0);
+  });
+
+  it('should stop recording once disposed', () => {
+    history.dispose();
+    map.setTerrain(0, 0, 'water');
+
+    expect(history.canUndo()).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import { World } from '../src/core/World';
+import {
+  MAP_SCHEMA_VERSION,
+  MapSerializationError,
+  registerMapMigration,
+} from '../src/utils/mapSerialization';
+
+describe('Map serialization', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(4, 3, 'Saved Map', { wrapEdges: true });
+    map.setTerrain(1, 1, 'water');
+    map.setTerrain(2, 1, 'water');
+    map.setTerrain(3, 2, 'forest', { defenseBonus: 2 });
+  });
+
+  it('should encode cells as a palette and an index grid', () => {
+    const data = map.toJSON();
+
+    expect(data.version).toBe(MAP_SCHEMA_VERSION);
+    expect(data.name).toBe('Saved Map');
+    expect(data.config.wrapEdges).toBe(true);
+    expect(data.cells.length).toBe(12);
+    // grass, water and customised forest
+    expect(data.palette.length).toBe(3);
+    expect(data.cells[5]).toBe(data.cells[6]);
+  });
+
+  it('should round-trip through JSON', () => {
+    const restored = Map.fromJSON(JSON.parse(JSON.stringify(map)));
+
+    expect(restored.name).toBe('Saved Map');
+    expect(restored.width).toBe(4);
+    expect(restored.height).toBe(3);
+    expect(restored.config.wrapEdges).toBe(true);
+    expect(restored.getTerrain(1, 1)).toBe('water');
+    expect(restored.isWalkable(2, 1)).toBe(false);
+    expect(restored.getTerrainProperties(3, 2)?.defenseBonus).toBe(2);
+
+    // Cells sharing a palette entry must not share property objects
+    restored.getTerrainProperties(1, 1)!.movementCost = 9;
+    expect(restored.getMovementCost(2, 1)).toBe(2);
+  });
+
+  it('should point at the offending cell when validation fails', () => {
+    const data = map.toJSON();
+    data.cells[6] = 42;
+
+    try {
+      Map.fromJSON(data);
+      expect.fail('Expected fromJSON to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MapSerializationError);
+      const serializationError = error as MapSerializationError;
+      expect(serializationError.cell).toEqual({ x: 2, y: 1 });
+      expect(serializationError.path).toBe('map.cells[6]');
+      expect(serializationError.message).toContain('(2, 1)');
+    }
+  });
+
+  it('should reject malformed data', () => {
+    expect(() => Map.fromJSON(null)).toThrow(MapSerializationError);
+    expect(() => Map.fromJSON({ ...map.toJSON(), width: -1 })).toThrow(
+      'map.width must be a positive integer'
+    );
+    expect(() => Map.fromJSON({ ...map.toJSON(), cells: [0] })).toThrow(
+      MapSerializationError
+    );
+    expect(() =>
+      Map.fromJSON({ ...map.toJSON(), config: { wrapEdges: 'yes' } })
+    ).toThrow('map.config.wrapEdges must be a boolean');
+  });
+
+  it('should reject versions it cannot read', () => {
+    expect(() =>
+      Map.fromJSON({ ...map.toJSON(), version: MAP_SCHEMA_VERSION + 1 })
+    ).toThrow('newer than the supported version');
+    expect(() => Map.fromJSON({ ...map.toJSON(), version: -5 })).toThrow(
+      'no migration registered from version -5'
+    );
+  });
+
+  describe('migrations', () => {
+    it('should upgrade older versions through registered migrations', () => {
+      // Version 0 stored the terrain of each cell in a plain grid
+      registerMapMigration(0, data => {
+        const grid = data.terrain as string[][];
+        const terrains = [...new Set(grid.flat())];
+        return {
+          name: data.name,
+          width: grid[0]!.length,
+          height: grid.length,
+          config: {},
+          palette: terrains.map(terrain => ({
+            terrain,
+            properties: { movementCost: 1 },
+          })),
+          cells: grid.flat().map(terrain => terrains.indexOf(terrain)),
+        };
+      });
+
+      const restored = Map.fromJSON({
+        version: 0,
+        name: 'Legacy',
+        terrain: [
+          ['grass', 'road'],
+          ['road', 'grass'],
+        ],
+      });
+
+      expect(restored.width).toBe(2);
+      expect(restored.getTerrain(1, 0)).toBe('road');
+    });
+  });
+});
+
+describe('World serialization', () => {
+  it('should round-trip every map', () => {
+    const world = new World();
+    const overworld = new Map(5, 5, 'Overworld');
+    overworld.setTerrain(0, 0, 'mountain');
+    world.addMap(overworld);
+    world.addMap(new Map(2, 2, 'Town'));
+
+    const restored = World.fromJSON(JSON.parse(JSON.stringify(world)));
+
+    expect(restored.getAllMaps().map(map => map.name)).toEqual([
+      'Overworld',
+      'Town',
+    ]);
+    expect(restored.getMap('Overworld').getTerrain(0, 0)).toBe('mountain');
+  });
+
+  it('should report errors inside nested maps with their path', () => {
+    const world = new World();
+    world.addMap(new Map(2, 2, 'First'));
+    world.addMap(new Map(2, 2, 'Second'));
+    const data = world.toJSON();
+    data.maps[1]!.cells[3] = 7;
+
+    expect(() => World.fromJSON(data)).toThrow(
+      'world.maps[1]: cell (1, 1) references unknown palette entry 7'
+    );
+  });
+
+  it('should reject duplicate map names', () => {
+    const map = new Map(2, 2, 'Twin').toJSON();
+    expect(() => World.fromJSON({ version: 1, maps: [map, map] })).toThrow(
+      'duplicate map name "Twin"'
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import {
+  getMovementRange,
+  getPathInMovementRange,
+} from '../src/utils/movementRange';
+
+describe('Movement range', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(10, 10, 'Range Map');
+  });
+
+  it('should include every tile within the budget on open terrain', () => {
+    const range = getMovementRange(map, { x: 5, y: 5 }, 2, {
+      allowDiagonal: false,
+    });
+
+    // Diamond of radius 2 has 13 tiles
+    expect(range.tiles.length).toBe(13);
+    expect(range.tiles[0]).toEqual({
+      x: 5,
+      y: 5,
+      cost: 0,
+      previous: null,
+      canEndMove: true,
+    });
+    expect(range.tiles.every(tile => tile.cost <= 2)).toBe(true);
+  });
+
+  it('should spend more of the budget on expensive terrain', () => {
+    map.setTerrain(6, 5, 'mountain'); // Cost 3
+
+    const range = getMovementRange(map, { x: 5, y: 5 }, 2, {
+      allowDiagonal: false,
+    });
+    const coords = range.tiles.map(tile => ({ x: tile.x, y: tile.y }));
+
+    expect(coords).not.toContainEqual({ x: 6, y: 5 });
+    expect(coords).toContainEqual({ x: 4, y: 5 });
+  });
+
+  it('should not enter impassable terrain', () => {
+    map.setTerrain(6, 5, 'water');
+
+    const range = getMovementRange(map, { x: 5, y: 5 }, 4, {
+      allowDiagonal: false,
+    });
+    const coords = range.tiles.map(tile => ({ x: tile.x, y: tile.y }));
+
+    expect(coords).not.toContainEqual({ x: 6, y: 5 });
+    expect(coords).toContainEqual({ x: 7, y: 5 }); // Around the water
+  });
+
+  it('should treat other units as blocking by default', () => {
+    const occupants = [
+      { unitId: 'self', mapId: 'Range Map', position: { x: 0, y: 0 } },
+      { unitId: 'enemy', mapId: 'Range Map', position: { x: 1, y: 0 } },
+    ];
+
+    const range = getMovementRange(map, { x: 0, y: 0 }, 2, {
+      allowDiagonal: false,
+      occupants,
+      movingUnitId: 'self',
+    });
+    const coords = range.tiles.map(tile => ({ x: tile.x, y: tile.y }));
+
+    expect(coords).toContainEqual({ x: 0, y: 0 });
+    expect(coords).not.toContainEqual({ x: 1, y: 0 });
+    expect(coords).not.toContainEqual({ x: 2, y: 0 });
+  });
+
+  it('should allow passing through occupied tiles without ending there', () => {
+    const occupants = [
+      { unitId: 'ally', mapId: 'Range Map', position: { x: 1, y: 0 } },
+      { unitId: 'other', mapId: 'Other Map', position: { x: 0, y: 1 } },
+    ];
+
+    const range = getMovementRange(map, { x: 0, y: 0 }, 2, {
+      allowDiagonal: false,
+      occupants,
+      occupiedTiles: 'passThrough',
+    });
+
+    const passed = range.tiles.find(tile => tile.x === 1 && tile.y === 0);
+    expect(passed?.canEndMove).toBe(false);
+    expect(getPathInMovementRange(range, { x: 1, y: 0 })).toBeNull();
+
+    // Units on other maps do not affect this one
+    const otherMapTile = range.tiles.find(tile => tile.x === 0 && tile.y === 1);
+    expect(otherMapTile?.canEndMove).toBe(true);
+
+    expect(getPathInMovementRange(range, { x: 2, y: 0 })).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+    ]);
+  });
+
+  it('should let units pass through map occupants they cannot share with', () => {
+    map.placeUnit('self', 0, 0, 'red');
+    map.placeUnit('enemy', 1, 0, 'blue');
+
+    const blocked = getMovementRange(map, { x: 0, y: 0 }, 2, {
+      allowDiagonal: false,
+      movingUnitId: 'self',
+    });
+    const coords = blocked.tiles.map(tile => ({ x: tile.x, y: tile.y }));
+    expect(coords).not.toContainEqual({ x: 2, y: 0 });
+
+    const range = getMovementRange(map, { x: 0, y: 0 }, 2, {
+      allowDiagonal: false,
+      movingUnitId: 'self',
+      occupiedTiles: 'passThrough',
+    });
+
+    const passed = range.tiles.find(tile => tile.x === 1 && tile.y === 0);
+    expect(passed?.canEndMove).toBe(false);
+    expect(getPathInMovementRange(range, { x: 2, y: 0 })).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+    ]);
+  });
+
+  it('should return null when rebuilding a path to an unreachable tile', () => {
+    const range = getMovementRange(map, { x: 0, y: 0 }, 1);
+    expect(getPathInMovementRange(range, { x: 5, y: 5 })).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Map } from '../src/core/Map';
+import { findPath } from '../src/utils/pathfinding';
+import type { MapEvent } from '../src/types/mapTypes';
+
+describe('Map occupancy', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(5, 5, 'Occupancy Map');
+  });
+
+  it('should place, move and remove units', () => {
+    expect(map.placeUnit('knight', 1, 1)).toEqual({ success: true });
+    expect(map.getUnitPosition('knight')).toEqual({
+      unitId: 'knight',
+      x: 1,
+      y: 1,
+    });
+
+    expect(map.moveUnit('knight', 2, 1)).toEqual({ success: true });
+    expect(map.isOccupied(1, 1)).toBe(false);
+    expect(map.getOccupants(2, 1).map(unit => unit.unitId)).toEqual(['knight']);
+
+    expect(map.removeUnit('knight')).toBe(true);
+    expect(map.removeUnit('knight')).toBe(false);
+    expect(map.getUnits()).toEqual([]);
+  });
+
+  it('should reject illegal placements with a reason', () => {
+    map.setTerrain(0, 0, 'water');
+    map.placeUnit('knight', 1, 1);
+
+    expect(map.placeUnit('archer', 9, 9)).toEqual({
+      success: false,
+      reason: 'outOfBounds',
+    });
+    expect(map.placeUnit('archer', 0, 0)).toEqual({
+      success: false,
+      reason: 'impassable',
+    });
+    expect(map.placeUnit('archer', 1, 1)).toEqual({
+      success: false,
+      reason: 'occupied',
+    });
+    expect(map.placeUnit('knight', 2, 2)).toEqual({
+      success: false,
+      reason: 'alreadyPlaced',
+    });
+    expect(map.moveUnit('archer', 2, 2)).toEqual({
+      success: false,
+      reason: 'notPlaced',
+    });
+  });
+
+  it('should allow up to the map stacking limit', () => {
+    map = new Map(5, 5, 'Stack Map', { stacking: { maxOccupants: 2 } });
+
+    expect(map.placeUnit('a', 1, 1).success).toBe(true);
+    expect(map.placeUnit('b', 1, 1).success).toBe(true);
+    expect(map.placeUnit('c', 1, 1)).toEqual({
+      success: false,
+      reason: 'occupied',
+    });
+  });
+
+  it('should let terrain override the map stacking policy', () => {
+    map.setTerrain(2, 2, 'road', { stacking: { maxOccupants: 3 } });
+
+    map.placeUnit('a', 2, 2);
+    map.placeUnit('b', 2, 2);
+    expect(map.placeUnit('c', 2, 2).success).toBe(true);
+    expect(map.getOccupants(2, 2)).toHaveLength(3);
+  });
+
+  it('should only stack allies when the policy requires it', () => {
+    map = new Map(5, 5, 'Allies Map', {
+      stacking: { maxOccupants: 4, alliesOnly: true },
+    });
+
+    map.placeUnit('red1', 1, 1, 'red');
+    expect(map.placeUnit('red2', 1, 1, 'red').success).toBe(true);
+    expect(map.placeUnit('blue1', 1, 1, 'blue')).toEqual({
+      success: false,
+      reason: 'hostileOccupant',
+    });
+    expect(map.placeUnit('neutral', 1, 1)).toEqual({
+      success: false,
+      reason: 'hostileOccupant',
+    });
+  });
+
+  it('should not count a moving unit against its own cell', () => {
+    map.placeUnit('knight', 1, 1);
+
+    expect(map.canPlaceUnit('knight', 1, 1)).toBe(true);
+    expect(map.moveUnit('knight', 1, 1).success).toBe(true);
+  });
+
+  it('should take occupancy into account when checking walkability', () => {
+    map.placeUnit('knight', 2, 2, 'red');
+
+    expect(map.isWalkable(2, 2)).toBe(true);
+    expect(map.isWalkable(2, 2, 'knight')).toBe(true);
+    expect(map.isWalkable(2, 2, 'archer')).toBe(false);
+  });
+
+  it('should route around occupied cells when a unit id is given', () => {
+    map = Map.fromAscii(
+      `
+      ...
+      .#.
+      ...
+      `,
+      { '.': 'grass', '#': 'water' }
+    );
+    map.placeUnit('blocker', 1, 0);
+    map.placeUnit('mover', 0, 0);
+
+    const free = findPath(map, { x: 0, y: 0 }, { x: 2, y: 0 });
+    const blocked = findPath(
+      map,
+      { x: 0, y: 0 },
+      { x: 2, y: 0 },
+      { allowDiagonal: false, unitId: 'mover' }
+    );
+
+    expect(free.found && free.path).toHaveLength(3);
+    expect(blocked.found && blocked.path).toHaveLength(7);
+  });
+
+  it('should drop units left outside the map after shrinking', () => {
+    map.placeUnit('inside', 1, 1);
+    map.placeUnit('outside', 4, 4);
+
+    map.resize(3, 3);
+
+    expect(map.getUnits().map(unit => unit.unitId)).toEqual(['inside']);
+  });
+
+  it('should publish unit changes, including units cut off by a resize', () => {
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    map.placeUnit('scout', 1, 1, 'red');
+    map.moveUnit('scout', 4, 4);
+    map.placeUnit('scout', 2, 2);
+    map.resize(3, 3);
+
+    const events: MapEvent[] = listener.mock.calls.flatMap(call => call[0]);
+    const scout = { unitId: 'scout', faction: 'red' };
+    expect(events.filter(event => event.type === 'unitChanged')).toEqual([
+      {
+        type: 'unitChanged',
+        mapId: 'Occupancy Map',
+        position: [1, 1],
+        data: {
+          unitId: 'scout',
+          before: null,
+          after: { ...scout, x: 1, y: 1 },
+        },
+      },
+      {
+        type: 'unitChanged',
+        mapId: 'Occupancy Map',
+        position: [4, 4],
+        data: {
+          unitId: 'scout',
+          before: { ...scout, x: 1, y: 1 },
+          after: { ...scout, x: 4, y: 4 },
+        },
+      },
+      {
+        type: 'unitChanged',
+        mapId: 'Occupancy Map',
+        position: [4, 4],
+        data: {
+          unitId: 'scout',
+          before: { ...scout, x: 4, y: 4 },
+          after: null,
+        },
+      },
+    ]);
+    // The resize and the units it cut off arrive together
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should copy occupancy to clones', () => {
+    map.placeUnit('knight', 1, 1, 'red');
+
+    const copy = map.clone('Copy');
+    copy.moveUnit('knight', 3, 3);
+
+    expect(copy.getUnitPosition('knight')).toEqual({
+      unitId: 'knight',
+      x: 3,
+      y: 3,
+      faction: 'red',
+    });
+    expect(map.getUnitPosition('knight')?.x).toBe(1);
+  });
+});
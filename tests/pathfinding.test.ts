@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import { findPath } from '../src/utils/pathfinding';
+
+describe('Pathfinding', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(10, 10, 'Path Map');
+  });
+
+  it('should return a single-tile path when start and goal match', () => {
+    const result = findPath(map, { x: 2, y: 2 }, { x: 2, y: 2 });
+    expect(result).toEqual({ found: true, path: [{ x: 2, y: 2 }], cost: 0 });
+  });
+
+  it('should find a straight path on open terrain', () => {
+    const result = findPath(
+      map,
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { allowDiagonal: false }
+    );
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    expect(result.path.length).toBe(5);
+    expect(result.path[0]).toEqual({ x: 0, y: 0 });
+    expect(result.path[4]).toEqual({ x: 4, y: 0 });
+    expect(result.cost).toBe(4);
+  });
+
+  it('should route around impassable terrain', () => {
+    // Wall of water along x = 5 with a gap at y = 9
+    for (let y = 0; y < 9; y++) {
+      map.setTerrain(5, y, 'water');
+    }
+
+    const result = findPath(
+      map,
+      { x: 0, y: 0 },
+      { x: 9, y: 0 },
+      { allowDiagonal: false }
+    );
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    expect(result.path).toContainEqual({ x: 5, y: 9 });
+    expect(result.path.every(step => map.isWalkable(step.x, step.y))).toBe(
+      true
+    );
+  });
+
+  it('should prefer cheaper terrain when it lowers total cost', () => {
+    // Swamp straight ahead, road detour one row down
+    for (let x = 1; x < 4; x++) {
+      map.setTerrain(x, 0, 'swamp');
+      map.setTerrain(x, 1, 'road');
+    }
+
+    const result = findPath(
+      map,
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { allowDiagonal: false }
+    );
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    expect(result.path).toContainEqual({ x: 2, y: 1 });
+    expect(result.cost).toBeCloseTo(1 + 0.8 * 3 + 1 + 1);
+  });
+
+  it('should keep the lowest movement cost until the map changes', () => {
+    expect(map.getMinimumMovementCost()).toBe(1);
+
+    map.batch(() => {
+      map.setTerrain(3, 3, 'road');
+      expect(map.getMinimumMovementCost()).toBeCloseTo(0.8);
+    });
+    map.setTerrain(3, 3, 'grass');
+    expect(map.getMinimumMovementCost()).toBe(1);
+  });
+
+  it('should accept a heuristic scale from the caller', () => {
+    for (let x = 1; x < 4; x++) {
+      map.setTerrain(x, 1, 'road');
+    }
+
+    const result = findPath(
+      map,
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { allowDiagonal: false, heuristicScale: 0 }
+    );
+    expect(result.found && result.cost).toBeCloseTo(4);
+  });
+
+  it('should not cut corners of impassable terrain', () => {
+    map.setTerrain(1, 0, 'water');
+
+    const result = findPath(map, { x: 0, y: 0 }, { x: 1, y: 1 });
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    expect(result.path).toEqual([
+      { x: 0, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+    ]);
+  });
+
+  it('should report an unreachable goal', () => {
+    map.setTerrain(8, 9, 'water');
+    map.setTerrain(9, 8, 'water');
+    map.setTerrain(8, 8, 'water');
+
+    const result = findPath(map, { x: 0, y: 0 }, { x: 9, y: 9 });
+    expect(result).toEqual({ found: false, reason: 'unreachable' });
+  });
+
+  it('should reject invalid start and goal tiles', () => {
+    map.setTerrain(3, 3, 'water');
+
+    expect(findPath(map, { x: -1, y: 0 }, { x: 1, y: 1 })).toEqual({
+      found: false,
+      reason: 'invalidStart',
+    });
+    expect(findPath(map, { x: 0, y: 0 }, { x: 3, y: 3 })).toEqual({
+      found: false,
+      reason: 'invalidGoal',
+    });
+  });
+
+  it('should path across the seam of a wrapped map', () => {
+    const wrapped = new Map(10, 5, 'Wrapped Map', { wrapEdges: true });
+
+    const result = findPath(
+      wrapped,
+      { x: 0, y: 2 },
+      { x: 9, y: 2 },
+      { allowDiagonal: false }
+    );
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+    expect(result.path).toEqual([
+      { x: 0, y: 2 },
+      { x: 9, y: 2 },
+    ]);
+    expect(result.cost).toBe(1);
+  });
+});
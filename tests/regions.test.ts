@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+
+describe('Map regions', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(10, 10, 'Valley');
+  });
+
+  it('should find the regions containing a cell', () => {
+    map.addRegion(
+      'town',
+      { type: 'rectangle', x: 1, y: 1, width: 3, height: 2 },
+      ['safe']
+    );
+    map.addRegion('spawn', { type: 'cells', cells: [{ x: 2, y: 2 }] }, [
+      'spawn',
+    ]);
+
+    expect(map.getRegionsAt(2, 2).map(({ name }) => name)).toEqual([
+      'town',
+      'spawn',
+    ]);
+    expect(map.getRegionsAt(2, 2, 'spawn').map(({ name }) => name)).toEqual([
+      'spawn',
+    ]);
+    expect(map.getRegionsAt(4, 1)).toEqual([]);
+    expect(map.isInRegion('town', 3, 2)).toBe(true);
+    expect(map.isInRegion('town', 3, 3)).toBe(false);
+  });
+
+  it('should list the cells of a rectangle', () => {
+    map.addRegion('camp', {
+      type: 'rectangle',
+      x: 8,
+      y: 8,
+      width: 4,
+      height: 1,
+    });
+
+    // Cells off the map are left out
+    expect(map.getRegionCells('camp')).toEqual([
+      { x: 8, y: 8 },
+      { x: 9, y: 8 },
+    ]);
+  });
+
+  it('should cover the cells whose center is inside a polygon', () => {
+    map.addRegion('capture', {
+      type: 'polygon',
+      points: [
+        { x: 0, y: 0 },
+        { x: 4, y: 0 },
+        { x: 0, y: 4 },
+      ],
+    });
+
+    expect(map.getRegionCells('capture')).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 0, y: 2 },
+    ]);
+  });
+
+  it('should wrap regions across wrapping edges', () => {
+    const wrapped = new Map(10, 10, 'Globe', { wrapEdges: true });
+    wrapped.addRegion('seam', {
+      type: 'rectangle',
+      x: 9,
+      y: 0,
+      width: 2,
+      height: 1,
+    });
+
+    expect(wrapped.getRegionCells('seam')).toEqual([
+      { x: 0, y: 0 },
+      { x: 9, y: 0 },
+    ]);
+    expect(wrapped.isInRegion('seam', 10, 0)).toBe(true);
+  });
+
+  it('should filter unit positions inside a region', () => {
+    map.addRegion('zone', {
+      type: 'rectangle',
+      x: 0,
+      y: 0,
+      width: 5,
+      height: 5,
+    });
+    const units = [
+      { unitId: 'inside', mapId: 'Valley', position: { x: 4, y: 4 } },
+      { unitId: 'outside', mapId: 'Valley', position: { x: 5, y: 4 } },
+      { unitId: 'elsewhere', mapId: 'Other', position: { x: 1, y: 1 } },
+    ];
+
+    expect(map.getPositionsInRegion('zone', units).map(u => u.unitId)).toEqual([
+      'inside',
+    ]);
+    expect(map.getPositionsInRegion('missing', units)).toEqual([]);
+  });
+
+  it('should look regions up by name and tag', () => {
+    map.addRegion('north', { type: 'cells', cells: [{ x: 0, y: 0 }] }, [
+      'spawn',
+    ]);
+    map.addRegion('south', { type: 'cells', cells: [{ x: 0, y: 9 }] });
+
+    expect(map.getNamedRegion('north')?.tags).toEqual(['spawn']);
+    expect(map.getNamedRegions().map(({ name }) => name)).toEqual([
+      'north',
+      'south',
+    ]);
+    expect(map.getNamedRegions('spawn').map(({ name }) => name)).toEqual([
+      'north',
+    ]);
+  });
+
+  it('should reject taken names and invalid shapes', () => {
+    const shape = { type: 'cells' as const, cells: [{ x: 1, y: 1 }] };
+    expect(map.addRegion('gate', shape)).toBe(true);
+    expect(map.addRegion('gate', shape)).toBe(false);
+
+    expect(() =>
+      map.addRegion('thin', {
+        type: 'rectangle',
+        x: 0,
+        y: 0,
+        width: 0,
+        height: 2,
+      })
+    ).toThrow('Region thin must be a rectangle');
+    expect(() =>
+      map.addRegion('line', {
+        type: 'polygon',
+        points: [
+          { x: 0, y: 0 },
+          { x: 2, y: 2 },
+        ],
+      })
+    ).toThrow('Region line must be a polygon of at least 3 points');
+    expect(() =>
+      map.addRegion('endless', {
+        type: 'polygon',
+        points: [
+          { x: 0, y: 0 },
+          { x: Infinity, y: 0 },
+          { x: 0, y: 2 },
+        ],
+      })
+    ).toThrow('Region endless must only hold finite points');
+  });
+
+  it('should only index the cells of huge shapes that lie on the map', () => {
+    map.addRegion('sky', {
+      type: 'rectangle',
+      x: -1e6,
+      y: -1e6,
+      width: 2e6,
+      height: 2e6,
+    });
+    map.addRegion('sea', {
+      type: 'polygon',
+      points: [
+        { x: -1e6, y: -1e6 },
+        { x: 1e6, y: -1e6 },
+        { x: 1e6, y: 1e6 },
+        { x: -1e6, y: 1e6 },
+      ],
+    });
+
+    expect(map.getRegionCells('sky')).toHaveLength(map.width * map.height);
+    expect(map.getRegionCells('sea')).toHaveLength(map.width * map.height);
+
+    const wrapped = new Map(10, 10, 'Globe', { wrapEdges: true });
+    wrapped.addRegion('belt', {
+      type: 'rectangle',
+      x: -1e6,
+      y: 2,
+      width: 2e6,
+      height: 1,
+    });
+    expect(wrapped.getRegionCells('belt')).toHaveLength(10);
+
+    // Huge polygons on a torus only cost one lap per row
+    wrapped.addRegion('ocean', {
+      type: 'polygon',
+      points: [
+        { x: -1e5, y: 0 },
+        { x: 1e5, y: 0 },
+        { x: 0, y: 1e3 },
+      ],
+    });
+    expect(wrapped.getRegionCells('ocean')).toHaveLength(100);
+  });
+
+  it('should remove regions', () => {
+    map.addRegion('gate', { type: 'cells', cells: [{ x: 1, y: 1 }] });
+
+    expect(map.removeRegion('gate')).toBe(true);
+    expect(map.removeRegion('gate')).toBe(false);
+    expect(map.getRegionsAt(1, 1)).toEqual([]);
+  });
+
+  it('should follow resizes', () => {
+    map.addRegion('east', {
+      type: 'rectangle',
+      x: 6,
+      y: 0,
+      width: 4,
+      height: 1,
+    });
+
+    map.resize(7, 10);
+    expect(map.getRegionCells('east')).toEqual([{ x: 6, y: 0 }]);
+
+    map.resize(10, 10);
+    expect(map.getRegionCells('east')).toHaveLength(4);
+  });
+
+  it('should keep regions through serialization and cloning', () => {
+    map.addRegion(
+      'town',
+      { type: 'rectangle', x: 1, y: 1, width: 2, height: 2 },
+      ['safe']
+    );
+    map.addRegion('lake', {
+      type: 'polygon',
+      points: [
+        { x: 5, y: 5 },
+        { x: 8, y: 5 },
+        { x: 8, y: 8 },
+      ],
+    });
+
+    const loaded = Map.fromJSON(JSON.parse(JSON.stringify(map.toJSON())));
+    const clone = map.clone();
+    for (const copy of [loaded, clone]) {
+      expect(copy.getNamedRegions()).toEqual(map.getNamedRegions());
+      expect(copy.getRegionCells('lake')).toEqual(map.getRegionCells('lake'));
+    }
+    expect(new Map(2, 2).toJSON().regions).toBeUndefined();
+  });
+
+  it('should reject invalid serialized regions', () => {
+    const data = {
+      ...map.toJSON(),
+      regions: [{ name: 'broken', tags: [], shape: { type: 'circle' } }],
+    };
+
+    expect(() => Map.fromJSON(data)).toThrow(
+      'map.regions[0].shape must be a rectangle, polygon or cells shape'
+    );
+  });
+});
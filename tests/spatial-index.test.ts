@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SpatialIndex } from '../src/core/SpatialIndex';
+import { World } from '../src/core/World';
+import { Map } from '../src/core/Map';
+import {
+  findCollisions,
+  getAdjacentPositionsToPosition,
+  getPositionAtCoordinate,
+  getPositionsAtCoordinate,
+  getPositionsInMap,
+  getPositionsWithinRange,
+} from '../src/utils/unitPositions';
+
+interface ITestUnit {
+  unitId: string;
+  mapId: string;
+  position: { x: number; y: number; z?: number };
+}
+
+const unit = (
+  unitId: string,
+  x: number,
+  y: number,
+  mapId: string = 'Field'
+): ITestUnit => ({ unitId, mapId, position: { x, y } });
+
+describe('SpatialIndex', () => {
+  let world: World;
+  let units: ITestUnit[];
+  let index: SpatialIndex<ITestUnit>;
+
+  beforeEach(() => {
+    world = new World();
+    world.addMap(new Map(40, 40, 'Field'));
+    world.addMap(new Map(40, 40, 'Cave'));
+
+    units = [
+      unit('a', 5, 5),
+      unit('b', 6, 5),
+      unit('c', 5, 6),
+      unit('d', 5, 5),
+      unit('e', 20, 20),
+      unit('f', 5, 5, 'Cave'),
+      unit('g', 9, 5),
+    ];
+    index = new SpatialIndex(units, 4);
+  });
+
+  it('should look up positions by coordinate', () => {
+    expect(index.size).toBe(7);
+    expect(index.getAt('Field', 5, 5).map(u => u.unitId)).toEqual(['a', 'd']);
+    expect(index.getFirstAt('Field', 5, 5)?.unitId).toBe('a');
+    expect(index.getFirstAt('Field', 0, 0)).toBeUndefined();
+    expect(index.getInMap('Cave').map(u => u.unitId)).toEqual(['f']);
+  });
+
+  it('should move and remove positions incrementally', () => {
+    const moved = units[0]!;
+    moved.position = { x: 30, y: 30 };
+    index.move(moved);
+
+    expect(index.getAt('Field', 5, 5).map(u => u.unitId)).toEqual(['d']);
+    expect(index.getFirstAt('Field', 30, 30)).toBe(moved);
+    expect(index.findCollisions()).toEqual([]);
+
+    moved.mapId = 'Cave';
+    index.move(moved);
+    expect(index.getInMap('Cave').length).toBe(2);
+
+    expect(index.remove('d')).toBe(true);
+    expect(index.remove(units[3]!)).toBe(false);
+    expect(index.has('d')).toBe(false);
+    expect(index.size).toBe(6);
+
+    index.clear();
+    expect(index.size).toBe(0);
+    expect(index.getInMap('Field')).toEqual([]);
+  });
+
+  it('should find positions within range across buckets', () => {
+    const reference = units[0]!;
+
+    expect(
+      index
+        .getWithinRange(reference, 4)
+        .map(u => u.unitId)
+        .sort()
+    ).toEqual(['b', 'c', 'd', 'g']);
+    expect(
+      index
+        .getWithinRange(reference, 1, false)
+        .map(u => u.unitId)
+        .sort()
+    ).toEqual(['b', 'c', 'd']);
+  });
+
+  it('should answer huge and infinite ranges', () => {
+    const reference = units[0]!;
+    const expected = ['b', 'c', 'd', 'e', 'g'];
+
+    for (const range of [1e6, Infinity]) {
+      expect(
+        index
+          .getWithinRange(reference, range)
+          .map(u => u.unitId)
+          .sort()
+      ).toEqual(expected);
+    }
+    expect(index.getWithinRange(unit('z', 0, 0, 'Void'), Infinity)).toEqual([]);
+  });
+
+  it('should track collisions as positions change', () => {
+    expect(index.findCollisions()).toEqual([
+      { mapId: 'Field', x: 5, y: 5, positions: [units[0], units[3]] },
+    ]);
+
+    index.remove('a');
+    expect(index.findCollisions()).toEqual([]);
+  });
+
+  it('should handle map ids containing separators', () => {
+    const odd = new SpatialIndex([
+      unit('x', 1, 1, 'dungeon:1'),
+      unit('y', 1, 1, 'dungeon:1'),
+    ]);
+    expect(odd.findCollisions()[0]).toMatchObject({
+      mapId: 'dungeon:1',
+      x: 1,
+      y: 1,
+    });
+    expect(odd.remove('x')).toBe(true);
+    expect(odd.getInMap('dungeon:1').length).toBe(1);
+  });
+
+  it('should give the same answers as the array helpers', () => {
+    const reference = units[0]!;
+    const sortIds = (list: ITestUnit[]) => list.map(u => u.unitId).sort();
+
+    expect(sortIds(getPositionsAtCoordinate(index, 'Field', 5, 5))).toEqual(
+      sortIds(getPositionsAtCoordinate(units, 'Field', 5, 5))
+    );
+    expect(getPositionAtCoordinate(index, 'Field', 6, 5)).toBe(
+      getPositionAtCoordinate(units, 'Field', 6, 5)
+    );
+    expect(sortIds(getPositionsInMap(index, 'Field'))).toEqual(
+      sortIds(getPositionsInMap(units, 'Field'))
+    );
+    expect(
+      sortIds(getPositionsWithinRange(index, world, reference, 3))
+    ).toEqual(sortIds(getPositionsWithinRange(units, world, reference, 3)));
+    expect(
+      sortIds(getAdjacentPositionsToPosition(index, world, reference))
+    ).toEqual(sortIds(getAdjacentPositionsToPosition(units, world, reference)));
+    expect(findCollisions(index)).toEqual(findCollisions(units));
+  });
+
+  it('should reject invalid bucket sizes', () => {
+    expect(() => new SpatialIndex([], 0)).toThrow(
+      'Spatial index bucket size must be positive'
+    );
+  });
+});
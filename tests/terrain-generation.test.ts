@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Map } from '../src/core/Map';
+import { createFractalNoise2D, createNoise2D } from '../src/utils/noise';
+import { createSeededRandom, hashSeed } from '../src/utils/random';
+import {
+  DEFAULT_BIOMES,
+  generateTerrain,
+} from '../src/utils/terrainGeneration';
+
+const terrains = (map: Map) => map.cells.map(row => row.map(c => c.terrain));
+
+describe('Seeded random', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = createSeededRandom('overworld');
+    const b = createSeededRandom('overworld');
+    const c = createSeededRandom('underworld');
+
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    expect(first.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(hashSeed(12.7)).toBe(12);
+  });
+});
+
+describe('Noise', () => {
+  it.each(['value', 'perlin', 'simplex'] as const)(
+    'should give deterministic %s noise in [0, 1]',
+    type => {
+      const noise = createNoise2D(7, type);
+      const again = createNoise2D(7, type);
+
+      for (let i = 0; i < 50; i++) {
+        const x = i * 0.37;
+        const y = i * 0.61;
+        expect(noise(x, y)).toBe(again(x, y));
+        expect(noise(x, y)).toBeGreaterThanOrEqual(0);
+        expect(noise(x, y)).toBeLessThanOrEqual(1);
+      }
+    }
+  );
+
+  it('should change smoothly between nearby points', () => {
+    const noise = createFractalNoise2D('smooth', { scale: 16 });
+    expect(Math.abs(noise(10, 10) - noise(10.1, 10))).toBeLessThan(0.05);
+  });
+});
+
+describe('generateTerrain', () => {
+  it('should produce the same map for the same seed and options', () => {
+    const a = new Map(32, 32);
+    const b = new Map(32, 32);
+    const c = new Map(32, 32);
+
+    generateTerrain(a, { seed: 'shared', elevation: { type: 'perlin' } });
+    generateTerrain(b, { seed: 'shared', elevation: { type: 'perlin' } });
+    generateTerrain(c, { seed: 'other', elevation: { type: 'perlin' } });
+
+    expect(terrains(a)).toEqual(terrains(b));
+    expect(terrains(a)).not.toEqual(terrains(c));
+  });
+
+  it('should only use terrain types of the biome table', () => {
+    const map = new Map(48, 48);
+    generateTerrain(map, { seed: 3 });
+
+    const allowed = new Set(DEFAULT_BIOMES.map(rule => rule.terrain));
+    const used = new Set(terrains(map).flat());
+    expect([...used].every(terrain => allowed.has(terrain))).toBe(true);
+    expect(used.size).toBeGreaterThan(3);
+  });
+
+  it('should pick the first matching biome rule', () => {
+    const map = new Map(16, 16);
+    const generated = generateTerrain(map, {
+      seed: 1,
+      biomes: [
+        { terrain: 'water', elevation: [0, 0.5] },
+        { terrain: 'mountain', properties: { movementCost: 4 } },
+      ],
+    });
+
+    for (let y = 0; y < 16; y++) {
+      for (let x = 0; x < 16; x++) {
+        const low = generated.elevation[y]![x]! <= 0.5;
+        expect(map.getTerrain(x, y)).toBe(low ? 'water' : 'mountain');
+      }
+    }
+    const highCell = map.cells.flat().find(cell => cell.terrain === 'mountain');
+    expect(highCell?.properties.movementCost).toBe(4);
+  });
+
+  it('should set cell heights and publish a single notification', () => {
+    const map = new Map(8, 8);
+    const listener = vi.fn();
+    map.subscribe(listener);
+
+    const generated = generateTerrain(map, { seed: 'hills', heightScale: 10 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(map.getElevation(3, 4)).toBe(
+      Math.round(generated.elevation[4]![3]! * 10)
+    );
+  });
+});
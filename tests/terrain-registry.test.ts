@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import { World } from '../src/core/World';
+import { TerrainRegistry } from '../src/core/TerrainRegistry';
+
+describe('TerrainRegistry', () => {
+  let registry: TerrainRegistry;
+
+  beforeEach(() => {
+    registry = TerrainRegistry.createDefault();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should contain the built-in terrain types', () => {
+    expect(registry.getProperties('water')).toEqual({
+      movementCost: 2.0,
+      impassable: true,
+    });
+    expect(registry.getProperties('forest')?.visibilityModifier).toBe(0.7);
+    expect(registry.getByTag('liquid')).toEqual(['water', 'swamp']);
+  });
+
+  it('should register custom terrain with display metadata and tags', () => {
+    registry.register('lava', {
+      properties: { movementCost: 5, impassable: true },
+      display: { name: 'Lava', color: '#ff4500', glyph: '%' },
+      tags: ['liquid', 'hazard'],
+    });
+
+    const lava = registry.get('lava');
+    expect(lava?.display).toEqual({
+      name: 'Lava',
+      color: '#ff4500',
+      glyph: '%',
+    });
+    expect(registry.hasTag('lava', 'hazard')).toBe(true);
+    expect(registry.get('unknown')).toBeNull();
+  });
+
+  it('should inherit properties and tags from a base terrain', () => {
+    registry.register('deep_forest', {
+      extends: 'forest',
+      properties: { movementCost: 2.5 },
+      tags: ['dark'],
+    });
+
+    const deepForest = registry.get('deep_forest');
+    expect(deepForest?.base).toBe('forest');
+    expect(deepForest?.properties).toEqual({
+      movementCost: 2.5,
+      visibilityModifier: 0.7,
+    });
+    expect(deepForest?.tags).toEqual(['vegetation', 'dark']);
+
+    // Changes to the base propagate to terrains extending it
+    registry.register('forest', {
+      properties: { movementCost: 1.5, visibilityModifier: 0.5 },
+    });
+    expect(registry.getProperties('deep_forest')?.visibilityModifier).toBe(0.5);
+  });
+
+  it('should reject unknown bases and inheritance loops', () => {
+    expect(() => registry.register('bog', { extends: 'marsh' })).toThrow(
+      'base terrain marsh is not registered'
+    );
+
+    registry.register('bog', { extends: 'swamp' });
+    expect(() => registry.register('swamp', { extends: 'bog' })).toThrow(
+      'inherit from itself'
+    );
+  });
+
+  it('should not unregister terrain other terrain extends', () => {
+    registry.register('bog', { extends: 'swamp' });
+
+    expect(() => registry.unregister('swamp')).toThrow('bog extend it');
+    expect(registry.unregister('bog')).toBe(true);
+    expect(registry.unregister('bog')).toBe(false);
+  });
+
+  it('should hand out independent property objects', () => {
+    registry.getProperties('grass')!.movementCost = 10;
+    expect(registry.getProperties('grass')?.movementCost).toBe(1);
+  });
+});
+
+describe('Map terrain registry', () => {
+  let registry: TerrainRegistry;
+
+  beforeEach(() => {
+    registry = TerrainRegistry.createDefault();
+    registry.register('lava', {
+      properties: { movementCost: 4, impassable: true },
+    });
+  });
+
+  it('should use the attached registry for terrain defaults', () => {
+    const map = new Map(3, 3);
+    map.setTerrain(0, 0, 'lava');
+    expect(map.isWalkable(0, 0)).toBe(true); // Default registry: grass fallback
+
+    map.setTerrainRegistry(registry);
+    map.setTerrain(1, 1, 'lava');
+    expect(map.isWalkable(1, 1)).toBe(false);
+    expect(map.getMovementCost(1, 1)).toBe(4);
+    expect(map.clone().getTerrainRegistry()).toBe(registry);
+  });
+
+  it('should share a world registry with all of its maps', () => {
+    const world = new World();
+    const first = new Map(2, 2, 'First');
+    world.addMap(first);
+
+    world.setTerrainRegistry(registry);
+    const second = new Map(2, 2, 'Second');
+    world.addMap(second);
+
+    expect(first.getTerrainRegistry()).toBe(registry);
+    expect(second.getTerrainRegistry()).toBe(registry);
+    expect(world.getTerrainRegistry()).toBe(registry);
+  });
+
+  it('should detach the world registry from removed maps', () => {
+    const world = new World();
+    const first = new Map(2, 2, 'First');
+    const second = new Map(2, 2, 'Second');
+    world.addMap(first);
+    world.addMap(second);
+    world.setTerrainRegistry(registry);
+
+    world.removeMap('First');
+    expect(first.getTerrainRegistry()).toBe(TerrainRegistry.default);
+
+    world.clear();
+    expect(second.getTerrainRegistry()).toBe(TerrainRegistry.default);
+
+    const own = TerrainRegistry.createDefault();
+    const third = new Map(2, 2, 'Third');
+    third.setTerrainRegistry(own);
+    world.addMap(third);
+    expect(third.getTerrainRegistry()).toBe(registry);
+    world.removeMap('Third');
+    expect(third.getTerrainRegistry()).toBe(own);
+  });
+
+  it('should throw on unknown terrain in strict mode', () => {
+    const map = new Map(2, 2, 'Strict', { strictTerrain: 'throw' });
+
+    expect(() => map.setTerrain(0, 0, 'lava')).toThrow(
+      'Terrain lava is not registered for map Strict'
+    );
+    expect(map.getTerrain(0, 0)).toBe('grass');
+    expect(map.setTerrain(0, 0, 'water')).toBe(true);
+  });
+
+  it('should warn on unknown terrain in warning mode', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const map = new Map(2, 2, 'Lenient', { strictTerrain: 'warn' });
+
+    expect(map.setTerrain(0, 0, 'lava')).toBe(true);
+    expect(warn).toHaveBeenCalledWith(
+      'Terrain lava is not registered for map Lenient'
+    );
+    expect(map.getTerrain(0, 0)).toBe('lava');
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import {
+  importTiledMap,
+  importTiledTmx,
+  TiledImportError,
+} from '../src/utils/tiled';
+import type { ITiledMapData } from '../src/types/tiledTypes';
+
+const createTmj = (): ITiledMapData => ({
+  width: 3,
+  height: 2,
+  tilewidth: 16,
+  tileheight: 16,
+  properties: [{ name: 'name', type: 'string', value: 'Meadow' }],
+  tilesets: [
+    {
+      firstgid: 1,
+      tiles: [
+        { id: 0, properties: [{ name: 'terrain', value: 'grass' }] },
+        {
+          id: 1,
+          properties: [
+            { name: 'terrain', value: 'water' },
+            { name: 'defenseBonus', value: 1 },
+          ],
+        },
+      ],
+    },
+  ],
+  layers: [
+    { type: 'tilelayer', name: 'Ground', data: [1, 1, 2, 1, 2, 2] },
+    {
+      type: 'group',
+      name: 'Details',
+      layers: [{ type: 'tilelayer', name: 'Roads', data: [0, 5, 0, 0, 0, 0] }],
+    },
+    {
+      type: 'objectgroup',
+      name: 'Markers',
+      objects: [
+        { id: 1, name: 'spawn', x: 16, y: 0, point: true },
+        {
+          id: 2,
+          name: 'town',
+          type: 'zone',
+          x: 0,
+          y: 16,
+          width: 32,
+          height: 16,
+          properties: [{ name: 'faction', type: 'string', value: 'red' }],
+        },
+      ],
+    },
+  ],
+});
+
+describe('Tiled import', () => {
+  it('should map tile properties to terrain', () => {
+    const result = importTiledMap(createTmj(), { tileTerrains: { 5: 'road' } });
+    const map = result.maps[0]!;
+
+    expect(result.maps.length).toBe(1);
+    expect(map.name).toBe('Meadow');
+    expect(map.getTerrain(0, 0)).toBe('grass');
+    expect(map.getTerrain(2, 0)).toBe('water');
+    expect(map.getTerrainProperties(2, 0)?.defenseBonus).toBe(1);
+    expect(map.isWalkable(2, 0)).toBe(false);
+
+    // Later layers are drawn over earlier ones
+    expect(map.getTerrain(1, 0)).toBe('road');
+    expect(result.world.getMap('Meadow')).toBe(map);
+    expect(result.unknownTiles).toEqual([]);
+  });
+
+  it('should report unknown tiles instead of hiding them', () => {
+    const result = importTiledMap(JSON.stringify(createTmj()));
+
+    expect(result.unknownTiles).toEqual([
+      { gid: 5, layer: 'Roads', count: 1, positions: [{ x: 1, y: 0 }] },
+    ]);
+    expect(() => importTiledMap(createTmj(), { strict: true })).toThrow(
+      TiledImportError
+    );
+    expect(() => importTiledMap(createTmj(), { strict: true })).toThrow(
+      'gid 5 in layer "Roads" (1 cells, first at 1,0)'
+    );
+  });
+
+  it('should create one map per tile layer when asked to', () => {
+    const result = importTiledMap(createTmj(), {
+      layers: 'separate',
+      tileTerrains: { 5: 'road' },
+    });
+
+    expect(result.maps.map(map => map.name)).toEqual([
+      'Meadow/Ground',
+      'Meadow/Roads',
+    ]);
+    expect(result.world.getMap('Meadow/Roads').getTerrain(1, 0)).toBe('road');
+    expect(result.world.getMap('Meadow/Ground').getTerrain(1, 0)).toBe('grass');
+  });
+
+  it('should refuse separate maps for tile layers of the same name', () => {
+    const tiled = createTmj();
+    tiled.layers.push({
+      type: 'tilelayer',
+      name: 'Ground',
+      data: [0, 0, 0, 0, 0, 0],
+    });
+
+    expect(() => importTiledMap(tiled, { layers: 'separate' })).toThrow(
+      'Several tile layers would become map Meadow/Ground, give them unique names'
+    );
+  });
+
+  it('should surface object layers as points and areas in tile units', () => {
+    const result = importTiledMap(createTmj());
+
+    expect(result.objects[0]).toMatchObject({
+      name: 'spawn',
+      layer: 'Markers',
+      shape: 'point',
+      x: 1,
+      y: 0,
+    });
+    expect(result.objects[1]).toMatchObject({
+      name: 'town',
+      type: 'zone',
+      shape: 'rectangle',
+      x: 0,
+      y: 1,
+      width: 2,
+      height: 1,
+      properties: { faction: 'red' },
+    });
+  });
+
+  it('should strip flip flags from tile ids and decode base64 data', () => {
+    const tmj = createTmj();
+    // gids 1, 2 | flipped-horizontally flag, 2, 1, 1, 1 as little-endian uint32
+    tmj.layers = [
+      {
+        type: 'tilelayer',
+        name: 'Ground',
+        encoding: 'base64',
+        data: 'AQAAAAIAAIACAAAAAQAAAAEAAAABAAAA',
+      },
+    ];
+
+    const map = importTiledMap(tmj).maps[0]!;
+    expect(map.getTerrain(1, 0)).toBe('water');
+    expect(map.getTerrain(2, 0)).toBe('water');
+    expect(map.getTerrain(0, 1)).toBe('grass');
+  });
+
+  it('should reject unsupported files', () => {
+    expect(() => importTiledMap({ ...createTmj(), infinite: true })).toThrow(
+      'Infinite Tiled maps are not supported'
+    );
+
+    const compressed = createTmj();
+    compressed.layers = [
+      {
+        type: 'tilelayer',
+        name: 'Ground',
+        encoding: 'base64',
+        compression: 'zlib',
+        data: 'eJw=',
+      },
+    ];
+    expect(() => importTiledMap(compressed)).toThrow('unsupported zlib data');
+  });
+
+  it('should import TMX files', () => {
+    const tmx = `<?xml version="1.0" encoding="UTF-8"?>
+<map version="1.10" orientation="orthogonal" width="2" height="2" tilewidth="8" tileheight="8" infinite="0">
+  <tileset firstgid="1" name="terrain" tilewidth="8" tileheight="8">
+    <tile id="0"><properties><property name="terrain" value="sand"/></properties></tile>
+    <tile id="1">
+      <properties>
+        <property name="terrain" value="mountain"/>
+        <property name="impassable" type="bool" value="true"/>
+      </properties>
+    </tile>
+  </tileset>
+  <layer id="1" name="Ground" width="2" height="2">
+    <data encoding="csv">
+1,2,
+2,1
+</data>
+  </layer>
+  <objectgroup id="2" name="Zones">
+    <object id="1" name="camp &amp; fire" x="8" y="0" width="8" height="8"/>
+    <object id="2" name="lake" x="0" y="0">
+      <polygon points="0,0 16,0 16,16"/>
+    </object>
+  </objectgroup>
+</map>`;
+
+    const result = importTiledTmx(tmx, { name: 'Desert' });
+    const map = result.maps[0]!;
+
+    expect(map.name).toBe('Desert');
+    expect(map.getTerrain(0, 0)).toBe('sand');
+    expect(map.getTerrain(1, 0)).toBe('mountain');
+    expect(map.isWalkable(1, 0)).toBe(false);
+    expect(result.objects[0]).toMatchObject({
+      name: 'camp & fire',
+      shape: 'rectangle',
+      x: 1,
+      width: 1,
+    });
+    expect(result.objects[1]?.points).toEqual([
+      { x: 0, y: 0 },
+      { x: 2, y: 0 },
+      { x: 2, y: 2 },
+    ]);
+  });
+
+  it('should reject malformed TMX files', () => {
+    expect(() => importTiledTmx('<map width="1"><layer></map>')).toThrow(
+      TiledImportError
+    );
+    expect(() => importTiledTmx('<tileset firstgid="1"/>')).toThrow(
+      'Expected a TMX <map> element'
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import { World } from '../src/core/World';
+import { SpatialIndex } from '../src/core/SpatialIndex';
+import {
+  arePositionsAdjacent,
+  findNearestFreeTile,
+  getAdjacentPositions,
+  getDistanceBetweenPositions,
+  getPositionsWithinRange,
+  isValidPosition,
+  stepTowards,
+} from '../src/utils/unitPositions';
+
+const unit = (unitId: string, mapId: string, x: number, y: number) => ({
+  unitId,
+  mapId,
+  position: { x, y },
+});
+
+describe('Topology', () => {
+  it('should derive the topology type from the map config', () => {
+    expect(new Map(5, 5).topology.type).toBe('bounded');
+    expect(new Map(5, 5, 'Torus', { wrapEdges: true }).topology.type).toBe(
+      'torus'
+    );
+
+    const cylinder = new Map(5, 5, 'Cylinder', { topology: 'wrapX' });
+    expect(cylinder.topology.wrapsX).toBe(true);
+    expect(cylinder.topology.wrapsY).toBe(false);
+  });
+
+  it('should only wrap the configured axes', () => {
+    const cylinder = new Map(5, 5, 'Cylinder', { topology: 'wrapX' });
+
+    expect(cylinder.normalizePosition(-1, 2)).toEqual({ x: 4, y: 2 });
+    expect(cylinder.normalizePosition(2, -1)).toBeNull();
+    expect(cylinder.getCell(7, 0)).toBe(cylinder.getCell(2, 0));
+    expect(cylinder.getCell(0, 7)).toBeNull();
+
+    const wrapY = new Map(5, 5, 'Ring', { topology: 'wrapY' });
+    expect(wrapY.normalizePosition(2, 6)).toEqual({ x: 2, y: 1 });
+    expect(wrapY.normalizePosition(6, 2)).toBeNull();
+  });
+
+  it('should measure distances the short way around seams', () => {
+    const torus = new Map(10, 10, 'Torus', { topology: 'torus' });
+
+    expect(torus.topology.distance({ x: 0, y: 0 }, { x: 9, y: 9 })).toBe(2);
+    expect(
+      torus.topology.distance({ x: 0, y: 0 }, { x: 9, y: 9 }, 'chebyshev')
+    ).toBe(1);
+    expect(
+      torus.topology.getClosestImage({ x: 0, y: 5 }, { x: 8, y: 5 })
+    ).toEqual({ x: -2, y: 5 });
+
+    const cylinder = new Map(10, 10, 'Cylinder', { topology: 'wrapX' });
+    expect(cylinder.topology.distance({ x: 0, y: 0 }, { x: 9, y: 9 })).toBe(10);
+  });
+
+  it('should list neighbours across seams without duplicates', () => {
+    const torus = new Map(3, 3, 'Torus', { topology: 'torus' });
+    expect(torus.topology.getNeighbors(0, 0)).toHaveLength(8);
+
+    const tiny = new Map(2, 2, 'Tiny', { topology: 'torus' });
+    expect(tiny.topology.getNeighbors(0, 0, false)).toEqual([
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+    ]);
+  });
+
+  it('should collect positions within range across seams', () => {
+    const torus = new Map(10, 10, 'Torus', { topology: 'torus' });
+    const area = torus.topology.getWithinRange({ x: 0, y: 0 }, 1);
+
+    expect(area).toHaveLength(5);
+    expect(area).toContainEqual({ x: 9, y: 0 });
+    expect(area).toContainEqual({ x: 0, y: 9 });
+  });
+
+  describe('unit position helpers', () => {
+    let world: World;
+
+    beforeEach(() => {
+      world = new World();
+      world.addMap(new Map(10, 10, 'Torus', { topology: 'torus' }));
+      world.addMap(new Map(10, 10, 'Cylinder', { topology: 'wrapX' }));
+    });
+
+    it('should see units across the seam', () => {
+      const scout = unit('scout', 'Torus', 0, 0);
+      const positions = [
+        scout,
+        unit('near', 'Torus', 9, 0),
+        unit('corner', 'Torus', 9, 9),
+        unit('far', 'Torus', 5, 5),
+      ];
+
+      const inRange = getPositionsWithinRange(positions, world, scout, 2);
+      expect(inRange.map(pos => pos.unitId)).toEqual(['near', 'corner']);
+
+      const index = new SpatialIndex(positions);
+      const indexed = getPositionsWithinRange(index, world, scout, 2);
+      expect(indexed.map(pos => pos.unitId).sort()).toEqual(['corner', 'near']);
+    });
+
+    it('should measure distance and adjacency with the map topology', () => {
+      const a = unit('a', 'Cylinder', 0, 0);
+      const b = unit('b', 'Cylinder', 9, 0);
+      const c = unit('c', 'Cylinder', 0, 9);
+
+      expect(getDistanceBetweenPositions(a, b, true, world)).toBe(1);
+      expect(getDistanceBetweenPositions(a, c, true, world)).toBe(9);
+      expect(arePositionsAdjacent(a, b, false, world)).toBe(true);
+      expect(arePositionsAdjacent(a, c, true, world)).toBe(false);
+      // Without a world positions are compared on a plain grid
+      expect(getDistanceBetweenPositions(a, b)).toBe(9);
+    });
+
+    it('should wrap adjacency, validity and nearest free tile lookups', () => {
+      expect(getAdjacentPositions(world, 'Cylinder', 0, 0, false)).toEqual([
+        { x: 9, y: 0 },
+        { x: 1, y: 0 },
+        { x: 0, y: 1 },
+      ]);
+      expect(isValidPosition(world, 'Cylinder', -3, 4)).toBe(true);
+      expect(isValidPosition(world, 'Cylinder', 4, -3)).toBe(false);
+
+      const occupied = [unit('a', 'Torus', 0, 0)];
+      expect(
+        findNearestFreeTile(world, 'Torus', occupied, { x: 0, y: 0 })
+      ).toEqual({ x: 9, y: 0 });
+    });
+
+    it('should step towards targets across the seam', () => {
+      expect(
+        stepTowards(world, 'Torus', { x: 0, y: 5 }, { x: 8, y: 5 })
+      ).toMatchObject({ x: 9, y: 5 });
+      expect(
+        stepTowards(world, 'Cylinder', { x: 5, y: 9 }, { x: 5, y: 0 })
+      ).toMatchObject({ x: 5, y: 8 });
+    });
+  });
+});
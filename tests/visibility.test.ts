@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import {
+  getLine,
+  getVisibility,
+  hasLineOfSight,
+  getFieldOfView,
+} from '../src/utils/visibility';
+
+describe('Visibility', () => {
+  let map: Map;
+
+  beforeEach(() => {
+    map = new Map(10, 10, 'Sight Map');
+  });
+
+  it('should draw lines including both ends', () => {
+    expect(getLine({ x: 0, y: 0 }, { x: 3, y: 0 })).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 3, y: 0 },
+    ]);
+    expect(getLine({ x: 2, y: 2 }, { x: 0, y: 0 })).toEqual([
+      { x: 2, y: 2 },
+      { x: 1, y: 1 },
+      { x: 0, y: 0 },
+    ]);
+  });
+
+  it('should have a clear view over open terrain', () => {
+    expect(getVisibility(map, { x: 0, y: 0 }, { x: 9, y: 4 })).toBe(1);
+    expect(hasLineOfSight(map, { x: 0, y: 0 }, { x: 9, y: 4 })).toBe(true);
+  });
+
+  it('should attenuate the view through forest', () => {
+    map.setTerrain(1, 0, 'forest');
+    map.setTerrain(2, 0, 'forest');
+
+    expect(getVisibility(map, { x: 0, y: 0 }, { x: 2, y: 0 })).toBeCloseTo(0.7);
+    expect(hasLineOfSight(map, { x: 0, y: 0 }, { x: 2, y: 0 })).toBe(true);
+
+    // Two forest cells leave 0.49, below the default threshold
+    expect(getVisibility(map, { x: 0, y: 0 }, { x: 3, y: 0 })).toBeCloseTo(
+      0.49
+    );
+    expect(hasLineOfSight(map, { x: 0, y: 0 }, { x: 3, y: 0 })).toBe(false);
+    expect(
+      hasLineOfSight(
+        map,
+        { x: 0, y: 0 },
+        { x: 3, y: 0 },
+        { minVisibility: 0.4 }
+      )
+    ).toBe(true);
+  });
+
+  it('should block the view behind opaque cells but see the cell itself', () => {
+    map.setTerrain(2, 0, 'mountain', { opaque: true });
+
+    expect(hasLineOfSight(map, { x: 0, y: 0 }, { x: 2, y: 0 })).toBe(true);
+    expect(hasLineOfSight(map, { x: 0, y: 0 }, { x: 4, y: 0 })).toBe(false);
+  });
+
+  it('should not see positions off the map', () => {
+    expect(hasLineOfSight(map, { x: 0, y: 0 }, { x: 12, y: 0 })).toBe(false);
+  });
+
+  it('should compute a circular field of view', () => {
+    const fov = getFieldOfView(map, { x: 5, y: 5 }, 2);
+    const coords = fov.map(tile => ({ x: tile.x, y: tile.y }));
+
+    // Radius 2 circle: 5x5 square minus its 8 outer corner cells
+    expect(fov.length).toBe(13);
+    expect(coords).toContainEqual({ x: 5, y: 5 });
+    expect(coords).toContainEqual({ x: 7, y: 5 });
+    expect(coords).not.toContainEqual({ x: 7, y: 7 });
+  });
+
+  it('should agree with line of sight when terrain blocks the view', () => {
+    map.setTerrain(5, 4, 'wall', { opaque: true });
+
+    const fov = getFieldOfView(map, { x: 5, y: 5 }, 3);
+    const coords = fov.map(tile => ({ x: tile.x, y: tile.y }));
+
+    expect(coords).toContainEqual({ x: 5, y: 4 });
+    expect(coords).not.toContainEqual({ x: 5, y: 3 });
+    for (const tile of fov) {
+      expect(hasLineOfSight(map, { x: 5, y: 5 }, tile)).toBe(true);
+    }
+  });
+
+  it('should see across the seam of wrapped maps', () => {
+    const wrapped = new Map(10, 10, 'Wrapped', { wrapEdges: true });
+    wrapped.setTerrain(5, 0, 'wall', { opaque: true });
+
+    // The short way from x=0 to x=8 crosses the seam, not the wall
+    expect(hasLineOfSight(wrapped, { x: 0, y: 0 }, { x: 8, y: 0 })).toBe(true);
+
+    const fov = getFieldOfView(wrapped, { x: 0, y: 0 }, 1);
+    expect(fov.map(tile => ({ x: tile.x, y: tile.y }))).toContainEqual({
+      x: 9,
+      y: 0,
+    });
+  });
+
+  it('should agree with line of sight for every cell of a wrapped map', () => {
+    const wrapped = new Map(6, 6, 'Small World', { wrapEdges: true });
+    wrapped.setTerrain(2, 1, 'wall', { opaque: true });
+    wrapped.setTerrain(4, 3, 'wall', { opaque: true });
+    wrapped.setTerrain(1, 4, 'forest');
+
+    // Every cell is within reach, most of them around several seams
+    const origin = { x: 1, y: 1 };
+    const fov = getFieldOfView(wrapped, origin, 6);
+
+    for (let y = 0; y < 6; y++) {
+      for (let x = 0; x < 6; x++) {
+        const tile = fov.find(visible => visible.x === x && visible.y === y);
+        expect(tile !== undefined).toBe(
+          hasLineOfSight(wrapped, origin, { x, y })
+        );
+        if (tile) {
+          expect(tile.visibility).toBe(
+            getVisibility(wrapped, origin, { x, y })
+          );
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Map } from '../src/core/Map';
+import { World } from '../src/core/World';
+import { MapSerializationError } from '../src/utils/mapSerialization';
+import { findWorldPath } from '../src/utils/worldPathfinding';
+
+const at = (mapId: string, x: number, y: number) => ({
+  mapId,
+  position: { x, y },
+});
+
+describe('World portals', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+    world.addMap(new Map(5, 5, 'Town'));
+    world.addMap(new Map(5, 5, 'Cellar'));
+  });
+
+  it('should add, look up and remove portals', () => {
+    expect(
+      world.addPortal({
+        id: 'stairs',
+        from: at('Town', 2, 2),
+        to: at('Cellar', 0, 0),
+        bidirectional: true,
+      })
+    ).toBe(true);
+    expect(
+      world.addPortal({
+        id: 'stairs',
+        from: at('Town', 1, 1),
+        to: at('Cellar', 1, 1),
+      })
+    ).toBe(false);
+
+    expect(world.getPortalsAt('Town', 2, 2).map(p => p.id)).toEqual(['stairs']);
+    expect(world.getPortalsAt('Cellar', 0, 0).map(p => p.id)).toEqual([
+      'stairs',
+    ]);
+    expect(world.getPortalsAt('Town', 1, 1)).toEqual([]);
+
+    expect(world.removePortal('stairs')).toBe(true);
+    expect(world.getPortalsAt('Town', 2, 2)).toEqual([]);
+    expect(world.getPortal('stairs')).toBeNull();
+  });
+
+  it('should reject portals to unknown maps or cells', () => {
+    expect(() =>
+      world.addPortal({ id: 'a', from: at('Town', 0, 0), to: at('Sky', 0, 0) })
+    ).toThrow('Map with name Sky does not exist');
+    expect(() =>
+      world.addPortal({
+        id: 'b',
+        from: at('Town', 9, 0),
+        to: at('Cellar', 0, 0),
+      })
+    ).toThrow('Position (9, 0) is outside map Town');
+  });
+
+  it('should drop portals of removed maps', () => {
+    world.addPortal({
+      id: 'stairs',
+      from: at('Town', 0, 0),
+      to: at('Cellar', 0, 0),
+    });
+    world.removeMap('Cellar');
+
+    expect(world.getPortals()).toEqual([]);
+  });
+
+  it('should link map edges cell by cell', () => {
+    world.addMap(new Map(5, 3, 'Field'));
+    const portals = world.linkEdges('Town', 'east', 'Field');
+
+    expect(portals).toHaveLength(3);
+    expect(portals[1]).toMatchObject({
+      from: at('Town', 4, 1),
+      to: at('Field', 0, 1),
+      bidirectional: true,
+    });
+  });
+
+  it('should serialize portals without their conditions', () => {
+    world.addPortal({
+      id: 'gate',
+      from: at('Town', 0, 0),
+      to: at('Cellar', 4, 4),
+      cost: 3,
+      condition: () => false,
+    });
+
+    const data = world.toJSON();
+    expect(data.portals).toEqual([
+      { id: 'gate', from: at('Town', 0, 0), to: at('Cellar', 4, 4), cost: 3 },
+    ]);
+    expect(World.fromJSON(data).getPortal('gate')).toEqual(data.portals![0]);
+    expect(new World().toJSON().portals).toBeUndefined();
+
+    expect(() =>
+      World.fromJSON({ ...data, portals: [{ ...data.portals![0], id: 7 }] })
+    ).toThrow(MapSerializationError);
+    expect(() =>
+      World.fromJSON({ ...data, portals: [data.portals![0], data.portals![0]] })
+    ).toThrow('duplicate portal id "gate"');
+  });
+});
+
+describe('findWorldPath', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+    world.addMap(new Map(5, 5, 'Town'));
+    world.addMap(new Map(5, 5, 'Cellar'));
+    world.addPortal({
+      id: 'stairs',
+      from: at('Town', 4, 0),
+      to: at('Cellar', 0, 0),
+      cost: 2,
+      bidirectional: true,
+    });
+  });
+
+  it('should find paths through portals', () => {
+    const result = findWorldPath(world, at('Town', 0, 0), at('Cellar', 0, 2), {
+      allowDiagonal: false,
+    });
+
+    expect(result.found).toBe(true);
+    if (!result.found) return;
+
+    expect(result.segments).toEqual([
+      {
+        mapId: 'Town',
+        path: [0, 1, 2, 3, 4].map(x => ({ x, y: 0 })),
+      },
+      {
+        mapId: 'Cellar',
+        path: [0, 1, 2].map(y => ({ x: 0, y })),
+      },
+    ]);
+    expect(result.transitions).toEqual([
+      {
+        portalId: 'stairs',
+        from: at('Town', 4, 0),
+        to: at('Cellar', 0, 0),
+        cost: 2,
+      },
+    ]);
+    expect(result.cost).toBe(8);
+  });
+
+  it('should use bidirectional portals backwards', () => {
+    const result = findWorldPath(world, at('Cellar', 0, 0), at('Town', 4, 1));
+
+    expect(result.found).toBe(true);
+    if (result.found) {
+      expect(result.segments.map(segment => segment.mapId)).toEqual([
+        'Cellar',
+        'Town',
+      ]);
+    }
+  });
+
+  it('should respect portal conditions', () => {
+    world.removePortal('stairs');
+    world.addPortal({
+      id: 'locked',
+      from: at('Town', 4, 0),
+      to: at('Cellar', 0, 0),
+      condition: ({ unitId }) => unitId === 'keyholder',
+    });
+
+    expect(findWorldPath(world, at('Town', 0, 0), at('Cellar', 0, 0))).toEqual({
+      found: false,
+      reason: 'unreachable',
+    });
+    expect(
+      findWorldPath(world, at('Town', 0, 0), at('Cellar', 0, 0), {
+        unitId: 'keyholder',
+      }).found
+    ).toBe(true);
+  });
+
+  it('should take a portal shortcut within the same map', () => {
+    world.addPortal({
+      id: 'tunnel',
+      from: at('Town', 0, 0),
+      to: at('Town', 0, 4),
+      cost: 1,
+    });
+
+    const result = findWorldPath(world, at('Town', 0, 0), at('Town', 0, 4));
+    expect(result).toMatchObject({ found: true, cost: 1 });
+  });
+
+  it('should report invalid endpoints', () => {
+    world.getMap('Cellar').setTerrain(2, 2, 'wall', {
+      movementCost: 1,
+      impassable: true,
+    });
+
+    expect(findWorldPath(world, at('Sky', 0, 0), at('Town', 0, 0))).toEqual({
+      found: false,
+      reason: 'invalidStart',
+    });
+    expect(findWorldPath(world, at('Town', 0, 0), at('Cellar', 2, 2))).toEqual({
+      found: false,
+      reason: 'invalidGoal',
+    });
+  });
+});